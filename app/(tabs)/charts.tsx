@@ -20,6 +20,7 @@ import { router } from 'expo-router';
 import GradientBackground from '@/components/GradientBackground';
 import GoldButton from '@/components/GoldButton';
 import FormattedText from '@/components/FormattedText';
+import BirthCardsSection from '@/components/BirthCardsSection';
 import { Colors, Spacing, BorderRadius, Shadows, Fonts } from '@/constants/theme';
 import { getUserProfile, getChartAnalysis, saveChartAnalysis } from '@/utils/storage';
 import { UserProfile } from '@/types';
@@ -372,6 +373,14 @@ CRITICAL: Output ONLY the JSON object. No text before or after. The analysis fie
             </View>
           </Animated.View>
 
+          {/* Tarot Birth Cards Section */}
+          {profile && (
+            <Animated.View entering={FadeInUp.delay(500).duration(600)} style={styles.section}>
+              <Text style={styles.sectionTitle}>Tarot Birth Cards</Text>
+              <BirthCardsSection dateOfBirth={profile.dateOfBirth} />
+            </Animated.View>
+          )}
+
           {/* Analysis Section */}
           <Animated.View entering={FadeInUp.delay(600).duration(600)} style={styles.section}>
             <Text style={styles.sectionTitle}>Deep Analysis</Text>
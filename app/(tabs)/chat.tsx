@@ -1,5 +1,5 @@
 // The Oracle - AI Astrologist Chat Screen
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
   View,
@@ -12,25 +12,41 @@ import {
   Keyboard,
   ActivityIndicator,
   ScrollView,
+  Modal,
 } from 'react-native';
 import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useTextGeneration } from '@fastshot/ai';
+import { useTextStream } from '@/hooks/useTextStream';
 import GradientBackground from '@/components/GradientBackground';
 import FormattedText from '@/components/FormattedText';
+import ChatThreadList from '@/components/ChatThreadList';
 import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
-import { getUserProfile, getDailyReading, getTodayDateString } from '@/utils/storage';
-import { UserProfile, DailyReading } from '@/types';
-import { formatDateLong, getZodiacSign } from '@/utils/formatDate';
+import {
+  getUserProfile,
+  getDailyReading,
+  getTodayDateString,
+  getReadingById,
+  getChatThreads,
+  getChatThread,
+  saveChatThread,
+  renameChatThread,
+  deleteChatThread,
+} from '@/utils/storage';
+import {
+  UserProfile,
+  DailyReading,
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
+} from '@/types';
+import { formatDateLong, formatDateShort, getZodiacSign } from '@/utils/formatDate';
+import { parseDateString } from '@/utils/forecast';
 import { hapticLight } from '@/utils/haptics';
-
-interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-}
+import { formatBirthCards, getPersonalYearCard } from '@/utils/birthCards';
+import { getSpreadById, getPositionLabel } from '@/data/spreads';
+import { getCardMeaning, getCardDisplayName } from '@/data/tarotDeck';
 
 interface OracleResponse {
   reply: string;
@@ -46,6 +62,13 @@ const INITIAL_SUGGESTIONS = [
   'How do my Sun and Moon work together?',
 ];
 
+// Suggestion chips for conversations started from a reading
+const READING_SUGGESTIONS = [
+  'What is this reading telling me?',
+  'How do these cards connect?',
+  'What should I do next?',
+];
+
 // Fallback suggestions if parsing fails
 const FALLBACK_SUGGESTIONS = [
   'Tell me more about this.',
@@ -90,17 +113,139 @@ const parseOracleResponse = (text: string): OracleResponse | null => {
   return null;
 };
 
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// While a reply streams in, decode as much of its "reply" string as has arrived.
+// Returns null until there is something to show.
+const extractStreamingReply = (text: string): string | null => {
+  const trimmed = text.trimStart();
+  // The Oracle skipped the JSON envelope, so the text is the reply
+  if (trimmed && !trimmed.startsWith('{') && !trimmed.startsWith('`')) {
+    return trimmed;
+  }
+
+  const keyMatch = text.match(/"reply"\s*:\s*"/);
+  if (!keyMatch || keyMatch.index === undefined) return null;
+
+  let reply = '';
+  for (let i = keyMatch.index + keyMatch[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break; // End of the reply string
+    if (char !== '\\') {
+      reply += char;
+      continue;
+    }
+
+    // Stop at an escape sequence that is split across chunks
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      reply += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      reply += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+
+  // Match parseOracleResponse, which unescapes doubly escaped newlines
+  const decoded = reply.replace(/\\n/g, '\n');
+  return decoded.trim() ? decoded : null;
+};
+
+// Untitled threads are named after the seeker's first question
+const MAX_DERIVED_TITLE_LENGTH = 40;
+
+const deriveThreadTitle = (text: string): string => {
+  const title = text.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_DERIVED_TITLE_LENGTH
+    ? `${title.slice(0, MAX_DERIVED_TITLE_LENGTH - 1).trimEnd()}…`
+    : title;
+};
+
+const getReadingThreadTitle = (reading: DailyReading): string =>
+  `${getSpreadById(reading.spreadId).name} · ${formatDateShort(parseDateString(reading.date))}`;
+
+const createMessage = (text: string, isUser: boolean): ChatMessage => ({
+  id: Date.now().toString(),
+  text,
+  isUser,
+  timestamp: new Date().toISOString(),
+});
+
+// A fresh thread opening with The Oracle's welcome; it is saved once the seeker speaks
+const createThread = (
+  profile: UserProfile | null,
+  todaysReading: DailyReading | null,
+  linkedReading?: DailyReading
+): ChatThread => {
+  const firstName = profile?.fullName?.split(' ')[0] || 'Seeker';
+  let welcome: string;
+  if (linkedReading) {
+    welcome = `I sense you have questions, ${firstName}. You have brought me the cards you drew on ${formatDateLong(parseDateString(linkedReading.date))}. Ask, and the stars shall illuminate their meaning.`;
+  } else if (todaysReading) {
+    welcome = `I sense you have questions, ${firstName}. I see you've already drawn your cards today. The celestial bodies have aligned to guide you. Ask me about your reading, and the stars shall illuminate their meaning.`;
+  } else {
+    welcome = `I sense you have questions, ${firstName}. The celestial bodies have aligned to guide you today. Ask, and the stars shall answer.`;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: `thread_${Date.now()}`,
+    title: linkedReading ? getReadingThreadTitle(linkedReading) : '',
+    messages: [{ id: 'welcome', text: welcome, isUser: false, timestamp: now }],
+    suggestions: linkedReading ? READING_SUGGESTIONS : INITIAL_SUGGESTIONS,
+    readingId: linkedReading?.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
 export default function ChatScreen() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { threadId, readingId } = useLocalSearchParams<{ threadId?: string; readingId?: string }>();
+  const [thread, setThread] = useState<ChatThread | null>(null);
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [showThreads, setShowThreads] = useState(false);
   const [inputText, setInputText] = useState('');
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [dailyReading, setDailyReading] = useState<DailyReading | null>(null);
+  const [linkedReading, setLinkedReading] = useState<DailyReading | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
-  const [currentSuggestions, setCurrentSuggestions] = useState<string[]>(INITIAL_SUGGESTIONS);
   const flatListRef = useRef<FlatList>(null);
   const suggestionsScrollRef = useRef<ScrollView>(null);
+  // Ref to the current thread for use in callbacks (avoids stale closure)
+  const threadRef = useRef<ChatThread | null>(null);
 
-  const { generateText, isLoading } = useTextGeneration({
+  const messages = useMemo(() => thread?.messages ?? [], [thread]);
+  const currentSuggestions = thread?.suggestions ?? [];
+  // A thread started from a reading talks about that reading, any other about today's draw
+  const contextReading = thread?.readingId ? linkedReading : dailyReading;
+
+  const showThread = (next: ChatThread) => {
+    threadRef.current = next;
+    setThread(next);
+  };
+
+  // Apply a change to the current thread and save it once the seeker has said something
+  const commitThread = useCallback((update: (current: ChatThread) => ChatThread) => {
+    const current = threadRef.current;
+    if (!current) return;
+
+    const updated = { ...update(current), updatedAt: new Date().toISOString() };
+    const firstQuestion = updated.messages.find(m => m.isUser);
+    if (!updated.title && firstQuestion) {
+      updated.title = deriveThreadTitle(firstQuestion.text);
+    }
+    showThread(updated);
+
+    if (firstQuestion) {
+      saveChatThread(updated).catch(error => console.error('Error saving chat thread:', error));
+    }
+  }, []);
+
+  const { streamText, cancel, streamingText, isLoading } = useTextStream({
     onSuccess: (response) => {
       // Try to parse structured JSON response
       const parsed = parseOracleResponse(response);
@@ -117,60 +262,138 @@ export default function ChatScreen() {
         newSuggestions = FALLBACK_SUGGESTIONS;
       }
 
-      const aiMessage: Message = {
-        id: Date.now().toString(),
-        text: replyText,
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, aiMessage]);
+      const aiMessage = createMessage(replyText, false);
+      commitThread(current => ({
+        ...current,
+        messages: [...current.messages, aiMessage],
+        suggestions: newSuggestions,
+      }));
 
-      // Update suggestions and reset scroll
-      setCurrentSuggestions(newSuggestions);
+      // Reset the suggestions scroll
       setTimeout(() => {
         suggestionsScrollRef.current?.scrollTo({ x: 0, animated: true });
       }, 100);
     },
     onError: (error) => {
-      const errorMessage: Message = {
-        id: Date.now().toString(),
-        text: 'The stars are momentarily obscured... Please try again.',
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
-      setCurrentSuggestions(FALLBACK_SUGGESTIONS);
+      const errorMessage = createMessage(
+        'The stars are momentarily obscured... Please try again.',
+        false
+      );
+      commitThread(current => ({
+        ...current,
+        messages: [...current.messages, errorMessage],
+        suggestions: FALLBACK_SUGGESTIONS,
+      }));
       console.error('AI Error:', error);
     },
+    onCancel: (text) => {
+      // Keep whatever the Oracle had said before being stopped
+      const partialReply = extractStreamingReply(text);
+      if (!partialReply) return;
+      commitThread(current => ({
+        ...current,
+        messages: [...current.messages, createMessage(`${partialReply.trimEnd()}…`, false)],
+        suggestions: FALLBACK_SUGGESTIONS,
+      }));
+    },
   });
 
+  const streamingReply = streamingText !== null ? extractStreamingReply(streamingText) : null;
+  const listData = streamingReply
+    ? [...messages, { id: 'streaming', text: streamingReply, isUser: false, timestamp: '' }]
+    : messages;
+
   useEffect(() => {
-    loadUserProfile();
+    loadChat();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const loadUserProfile = async () => {
+  // Resume the most recent conversation, or open a new one
+  const loadChat = async () => {
     const profile = await getUserProfile();
     setUserProfile(profile);
 
     // Load daily reading if it exists for today
     const reading = await getDailyReading();
-    if (reading && reading.date === getTodayDateString()) {
-      setDailyReading(reading);
+    const todaysReading = reading && reading.date === getTodayDateString() ? reading : null;
+    setDailyReading(todaysReading);
+
+    const savedThreads = await getChatThreads();
+    setThreads(savedThreads);
+
+    const latest = savedThreads[0] ? await getChatThread(savedThreads[0].id) : null;
+    if (latest) {
+      await openThread(latest);
+    } else {
+      showThread(createThread(profile, todaysReading));
     }
+    setIsInitialized(true);
+  };
 
-    // Create welcome message
-    const firstName = profile?.fullName?.split(' ')[0] || 'Seeker';
-    const hasReading = reading && reading.date === getTodayDateString();
-    const welcomeMessage: Message = {
-      id: 'welcome',
-      text: hasReading
-        ? `I sense you have questions, ${firstName}. I see you've already drawn your cards today. The celestial bodies have aligned to guide you. Ask me about your reading, and the stars shall illuminate their meaning.`
-        : `I sense you have questions, ${firstName}. The celestial bodies have aligned to guide you today. Ask, and the stars shall answer.`,
-      isUser: false,
-      timestamp: new Date(),
+  const openThread = async (next: ChatThread) => {
+    setLinkedReading(next.readingId ? await getReadingById(next.readingId) : null);
+    showThread(next);
+  };
+
+  // Open the thread or reading another screen pointed at, once nothing is in flight
+  useEffect(() => {
+    if (!isInitialized || isLoading || (!threadId && !readingId)) return;
+
+    const openFromParams = async () => {
+      if (threadId) {
+        const saved = await getChatThread(threadId);
+        if (saved) await openThread(saved);
+      } else if (readingId) {
+        // Pick up the latest conversation about this reading before starting another
+        const existing = (await getChatThreads()).find(t => t.readingId === readingId);
+        const saved = existing ? await getChatThread(existing.id) : null;
+        const reading = saved ? null : await getReadingById(readingId);
+        if (saved) {
+          await openThread(saved);
+        } else if (reading) {
+          setLinkedReading(reading);
+          showThread(createThread(userProfile, dailyReading, reading));
+        }
+      }
+      router.setParams({ threadId: undefined, readingId: undefined });
     };
-    setMessages([welcomeMessage]);
-    setIsInitialized(true);
+    openFromParams();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [threadId, readingId, isInitialized, isLoading]);
+
+  const handleShowThreads = async () => {
+    setThreads(await getChatThreads());
+    setShowThreads(true);
+  };
+
+  const handleSelectThread = async (id: string) => {
+    setShowThreads(false);
+    if (id === thread?.id) return;
+    const saved = await getChatThread(id);
+    if (saved) await openThread(saved);
+  };
+
+  const handleNewThread = () => {
+    setShowThreads(false);
+    setLinkedReading(null);
+    showThread(createThread(userProfile, dailyReading));
+  };
+
+  const handleRenameThread = async (id: string, title: string) => {
+    const renamed = await renameChatThread(id, title);
+    if (renamed && renamed.id === threadRef.current?.id) {
+      showThread({ ...threadRef.current, title: renamed.title });
+    }
+    setThreads(await getChatThreads());
+  };
+
+  const handleDeleteThread = async (id: string) => {
+    await deleteChatThread(id);
+    setThreads(prev => prev.filter(t => t.id !== id));
+    if (id === threadRef.current?.id) {
+      setLinkedReading(null);
+      showThread(createThread(userProfile, dailyReading));
+    }
   };
 
   const buildPrompt = useCallback((userMessage: string): string => {
@@ -192,26 +415,40 @@ export default function ChatScreen() {
       if (userProfile.placeOfBirth) {
         contextParts.push(`Birth Place: ${userProfile.placeOfBirth}`);
       }
+      if (userProfile.dateOfBirth) {
+        const year = new Date().getFullYear();
+        const yearCard = getPersonalYearCard(userProfile.dateOfBirth, year);
+        contextParts.push(`Tarot Birth Cards: ${formatBirthCards(userProfile.dateOfBirth)}`);
+        contextParts.push(`Personal Year Card (${year}): ${yearCard.name}`);
+      }
     }
 
-    // Build daily reading context if available
+    // Build reading context if available: the thread's own reading, or today's draw
     const readingParts: string[] = [];
-    if (dailyReading && dailyReading.cards.length > 0) {
-      readingParts.push('Today\'s Daily Tarot Reading:');
+    if (contextReading && contextReading.cards.length > 0) {
+      const spread = getSpreadById(contextReading.spreadId);
+      readingParts.push(
+        thread?.readingId
+          ? `The Tarot Reading This Conversation Is About (${spread.name} spread, drawn ${formatDateLong(parseDateString(contextReading.date))}):`
+          : `Today's Daily Tarot Reading (${spread.name} spread):`
+      );
+      if (contextReading.question) {
+        readingParts.push(`Question Asked: ${contextReading.question}`);
+      }
 
-      dailyReading.cards.forEach((cardReading) => {
-        const positionLabel = cardReading.position.charAt(0).toUpperCase() + cardReading.position.slice(1);
+      contextReading.cards.forEach((cardReading) => {
+        const positionLabel = getPositionLabel(spread, cardReading.position);
         const card = cardReading.card;
-        readingParts.push(`- ${positionLabel}: ${card.name}`);
+        readingParts.push(`- ${positionLabel}: ${getCardDisplayName(card, cardReading.isReversed)}`);
         readingParts.push(`  Keywords: ${card.keywords.join(', ')}`);
-        readingParts.push(`  Meaning: ${card.uprightMeaning}`);
+        readingParts.push(`  Meaning: ${getCardMeaning(card, cardReading.isReversed)}`);
         if (cardReading.shortDescription) {
           readingParts.push(`  Brief: ${cardReading.shortDescription}`);
         }
       });
 
-      if (dailyReading.mainExplanation) {
-        readingParts.push(`\nOverall Reading Interpretation: ${dailyReading.mainExplanation}`);
+      if (contextReading.mainExplanation) {
+        readingParts.push(`\nOverall Reading Interpretation: ${contextReading.mainExplanation}`);
       }
     }
 
@@ -221,12 +458,12 @@ export default function ChatScreen() {
       `${msg.isUser ? 'User' : 'Oracle'}: ${msg.text}`
     );
 
-    const hasDailyReading = dailyReading && dailyReading.cards.length > 0;
+    const hasReading = contextReading && contextReading.cards.length > 0;
 
     const systemPrompt = `You are The Oracle, a wise, mystical, and empathetic astrologist and tarot reader. You speak with an air of ancient wisdom and cosmic insight. Your responses are concise yet profound, weaving astrological and tarot knowledge with genuine care for the seeker.
 
-${hasDailyReading ? `You have access to the user's current daily tarot reading. When discussing their cards:
-- Analyze the DYNAMIC INTERPLAY between the cards (e.g., how the Past card influences the Present context, how Present leads to Future).
+${hasReading ? `You have access to the user's tarot reading. When discussing their cards:
+- Analyze the DYNAMIC INTERPLAY between the cards and their spread positions (e.g., how the Past card influences the Present context, how a Challenge card crosses the heart of the matter).
 - Do not just define each card individually - weave their meanings together into a cohesive narrative.
 - Reference specific cards by name when giving advice.
 - Connect the card meanings to the user's zodiac sign and birth details when relevant.` : ''}
@@ -251,7 +488,7 @@ User's Question: ${userMessage}
 Respond with ONLY the JSON object:`;
 
     return fullPrompt;
-  }, [userProfile, dailyReading, messages]);
+  }, [userProfile, contextReading, thread?.readingId, messages]);
 
   const handleSend = useCallback(() => {
     if (!inputText.trim() || isLoading) return;
@@ -259,20 +496,14 @@ Respond with ONLY the JSON object:`;
     // Trigger light haptic when sending a message
     hapticLight();
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      text: inputText.trim(),
-      isUser: true,
-      timestamp: new Date(),
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+    const userMessage = createMessage(inputText.trim(), true);
     const prompt = buildPrompt(inputText.trim());
+    commitThread(current => ({ ...current, messages: [...current.messages, userMessage] }));
     setInputText('');
     Keyboard.dismiss();
 
-    generateText(prompt);
-  }, [inputText, isLoading, buildPrompt, generateText]);
+    streamText(prompt);
+  }, [inputText, isLoading, buildPrompt, commitThread, streamText]);
 
   // Handle suggestion chip tap
   const handleChipPress = useCallback((chipText: string) => {
@@ -280,19 +511,13 @@ Respond with ONLY the JSON object:`;
 
     hapticLight();
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      text: chipText,
-      isUser: true,
-      timestamp: new Date(),
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+    const userMessage = createMessage(chipText, true);
     const prompt = buildPrompt(chipText);
+    commitThread(current => ({ ...current, messages: [...current.messages, userMessage] }));
     Keyboard.dismiss();
 
-    generateText(prompt);
-  }, [isLoading, buildPrompt, generateText]);
+    streamText(prompt);
+  }, [isLoading, buildPrompt, commitThread, streamText]);
 
   const scrollToEnd = () => {
     setTimeout(() => {
@@ -304,7 +529,7 @@ Respond with ONLY the JSON object:`;
     scrollToEnd();
   }, [messages]);
 
-  const renderMessage = ({ item }: { item: Message }) => (
+  const renderMessage = ({ item }: { item: ChatMessage }) => (
     <View
       style={[
         styles.messageBubble,
@@ -352,17 +577,51 @@ Respond with ONLY the JSON object:`;
         >
           {/* Header */}
           <View style={styles.header}>
-            
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerButtonLeft]}
+              onPress={handleShowThreads}
+              disabled={isLoading}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="albums-outline" size={22} color={Colors.celestialGold} />
+            </TouchableOpacity>
             <Text style={styles.headerTitle}>The Oracle</Text>
             <View style={styles.headerSubtitleContainer}>
-              <Text style={styles.headerSubtitle}>Ask the Stars</Text>
+              <Text style={styles.headerSubtitle} numberOfLines={1}>
+                {thread?.title || 'Ask the Stars'}
+              </Text>
             </View>
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerButtonRight]}
+              onPress={handleNewThread}
+              disabled={isLoading}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="create-outline" size={22} color={Colors.celestialGold} />
+            </TouchableOpacity>
           </View>
 
+          {/* Linked Reading */}
+          {thread?.readingId && linkedReading && (
+            <TouchableOpacity
+              style={styles.linkedReading}
+              onPress={() =>
+                router.push({ pathname: '/journal', params: { readingId: linkedReading.id } })
+              }
+              activeOpacity={0.8}
+            >
+              <Ionicons name="layers-outline" size={14} color={Colors.celestialGold} />
+              <Text style={styles.linkedReadingText} numberOfLines={1}>
+                About your {getReadingThreadTitle(linkedReading)} reading
+              </Text>
+              <Ionicons name="chevron-forward" size={14} color={Colors.moonlightGray} />
+            </TouchableOpacity>
+          )}
+
           {/* Messages List */}
           <FlatList
             ref={flatListRef}
-            data={messages}
+            data={listData}
             renderItem={renderMessage}
             keyExtractor={(item) => item.id}
             contentContainerStyle={styles.messagesList}
@@ -370,8 +629,8 @@ Respond with ONLY the JSON object:`;
             onContentSizeChange={scrollToEnd}
           />
 
-          {/* Typing Indicator */}
-          {isLoading && (
+          {/* Typing Indicator - until the first words of the reply arrive */}
+          {isLoading && !streamingReply && (
             <View style={styles.typingContainer}>
               <Ionicons name="sparkles" size={14} color={Colors.celestialGold} />
               <Text style={styles.typingText}>Divining the cosmos...</Text>
@@ -421,23 +680,61 @@ Respond with ONLY the JSON object:`;
                 blurOnSubmit={true}
                 onSubmitEditing={handleSend}
               />
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  (!inputText.trim() || isLoading) && styles.sendButtonDisabled,
-                ]}
-                onPress={handleSend}
-                disabled={!inputText.trim() || isLoading}
-              >
-                <Ionicons
-                  name="send"
-                  size={20}
-                  color={inputText.trim() && !isLoading ? Colors.textPrimary : Colors.moonlightGray}
-                />
-              </TouchableOpacity>
+              {isLoading ? (
+                // Stop the Oracle mid-reply
+                <TouchableOpacity style={styles.sendButton} onPress={cancel}>
+                  <Ionicons name="stop" size={18} color={Colors.textPrimary} />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.sendButton, !inputText.trim() && styles.sendButtonDisabled]}
+                  onPress={handleSend}
+                  disabled={!inputText.trim()}
+                >
+                  <Ionicons
+                    name="send"
+                    size={20}
+                    color={inputText.trim() ? Colors.textPrimary : Colors.moonlightGray}
+                  />
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </KeyboardAvoidingView>
+
+        {/* Thread List */}
+        <Modal
+          visible={showThreads}
+          animationType="fade"
+          transparent
+          onRequestClose={() => setShowThreads(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <GradientBackground>
+              <SafeAreaView style={styles.container}>
+                <View style={styles.modalHeader}>
+                  <TouchableOpacity
+                    onPress={() => setShowThreads(false)}
+                    style={styles.closeButton}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Ionicons name="close" size={28} color={Colors.textPrimary} />
+                  </TouchableOpacity>
+                  <Text style={styles.modalTitle}>Conversations</Text>
+                  <View style={{ width: 28 }} />
+                </View>
+                <ChatThreadList
+                  threads={threads}
+                  activeThreadId={thread?.id}
+                  onSelect={handleSelectThread}
+                  onNewThread={handleNewThread}
+                  onRename={handleRenameThread}
+                  onDelete={handleDeleteThread}
+                />
+              </SafeAreaView>
+            </GradientBackground>
+          </View>
+        </Modal>
       </SafeAreaView>
     </GradientBackground>
   );
@@ -467,6 +764,24 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: 'rgba(221, 133, 216, 0.2)',
   },
+  headerButton: {
+    position: 'absolute',
+    top: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  headerButtonLeft: {
+    left: Spacing.lg,
+  },
+  headerButtonRight: {
+    right: Spacing.lg,
+  },
   headerIcon: {
     width: 48,
     height: 48,
@@ -489,6 +804,46 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.celestialGold,
     fontStyle: 'italic',
+    maxWidth: 240,
+  },
+  linkedReading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    alignSelf: 'center',
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+    maxWidth: '90%',
+  },
+  linkedReadingText: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.celestialGold,
+    textAlign: 'center',
   },
   messagesList: {
     paddingHorizontal: Spacing.md,
@@ -153,39 +153,67 @@ export default function HomeScreen() {
           </Animated.View>
 
           <View style={styles.actionsGrid}>
+            <QuickActionCard
+              icon="help-circle-outline"
+              title="Ask the Cards"
+              subtitle="Question readings"
+              onPress={() => router.push('/ask')}
+              delay={600}
+            />
+            <QuickActionCard
+              icon="contrast-outline"
+              title="Yes or No"
+              subtitle="One card answers"
+              onPress={() => router.push('/yes-no')}
+              delay={700}
+            />
+            <QuickActionCard
+              icon="calendar-outline"
+              title="Forecasts"
+              subtitle="Week, month & year"
+              onPress={() => router.push('/forecast')}
+              delay={800}
+            />
             <QuickActionCard
               icon="chatbubbles-outline"
               title="Consult Oracle"
               subtitle="Ask your questions"
               onPress={() => router.push('/(tabs)/chat')}
-              delay={600}
+              delay={900}
             />
             <QuickActionCard
               icon="planet-outline"
               title="View Charts"
               subtitle="Cosmic insights"
               onPress={() => router.push('/(tabs)/charts')}
-              delay={700}
+              delay={1000}
             />
             <QuickActionCard
               icon="book-outline"
               title="My Journal"
               subtitle="Past readings"
               onPress={() => router.push('/(tabs)/journal')}
-              delay={800}
+              delay={1100}
+            />
+            <QuickActionCard
+              icon="analytics-outline"
+              title="Insights"
+              subtitle="Patterns in your cards"
+              onPress={() => router.push('/insights')}
+              delay={1200}
             />
             <QuickActionCard
               icon="person-circle-outline"
               title="My Profile"
               subtitle="Birth details"
               onPress={() => router.push('/profile')}
-              delay={900}
+              delay={1300}
             />
           </View>
 
           {/* Mystical Footer Quote */}
           <Animated.View
-            entering={FadeInUp.delay(1000).duration(600)}
+            entering={FadeInUp.delay(1400).duration(600)}
             style={styles.quoteContainer}
           >
             <Text style={styles.quoteText}>
@@ -1,5 +1,5 @@
-// Journal Screen - View Past Daily Readings
-import React, { useState, useEffect, useCallback } from 'react';
+// Journal Screen - View Past Daily and Question Readings
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -8,69 +8,209 @@ import {
   TouchableOpacity,
   Modal,
   ScrollView,
+  TextInput,
   ActivityIndicator,
   Dimensions,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeIn, FadeInUp, FadeOut } from 'react-native-reanimated';
 import GradientBackground from '@/components/GradientBackground';
 import FormattedText from '@/components/FormattedText';
+import ReflectionEditor from '@/components/ReflectionEditor';
+import TagEditor from '@/components/TagEditor';
+import GoldButton from '@/components/GoldButton';
+import CheckBackPrompt from '@/components/CheckBackPrompt';
+import CheckBackHistory from '@/components/CheckBackHistory';
+import MoodTrendChart from '@/components/MoodTrendChart';
+import JournalFilters from '@/components/JournalFilters';
+import JournalCalendar from '@/components/JournalCalendar';
 import { Colors, Spacing, BorderRadius, Shadows, Fonts } from '@/constants/theme';
-import { getReadingHistory } from '@/utils/storage';
+import { getSpreadById, getPositionLabel } from '@/data/spreads';
+import { getCardDisplayName, verifyDraw, yesNoLabels } from '@/data/tarotDeck';
+import {
+  getReadingById,
+  getReadingHistoryPage,
+  getReadingType,
+  getReadingSubject,
+  saveReflection,
+  saveCheckBackOutcome,
+  saveReadingTags,
+  deleteReading,
+  restoreReading,
+} from '@/utils/storage';
 import { getCardImageUri, resolveCardImageSource } from '@/utils/imageStorage';
 import { formatDateLong } from '@/utils/formatDate';
-import { DailyReading, CardReading } from '@/types';
+import { FORECAST_LABELS, formatForecastPeriod, isForecastType } from '@/utils/forecast';
+import { isCheckBackDue, rescheduleCheckBack } from '@/utils/checkBack';
+import { formatMoodJourney } from '@/utils/moodTracking';
+import {
+  JournalQuery,
+  createJournalQuery,
+  countActiveFilters,
+  matchesJournalQuery,
+  getCardsInHistory,
+} from '@/utils/journalSearch';
+import { cancelCheckBack } from '@/utils/notifications';
+import {
+  DailyReading,
+  CardReading,
+  SpreadDefinition,
+  Reflection,
+  Resonance,
+} from '@/types';
 
 const { width } = Dimensions.get('window');
+
+type JournalView = 'list' | 'calendar';
+
 const MINI_CARD_SIZE = 50;
 const DETAIL_CARD_WIDTH = (width - 100) / 3;
 const DETAIL_CARD_HEIGHT = DETAIL_CARD_WIDTH * 1.6;
 
+const getExplanationTitle = (reading: DailyReading): string => {
+  const type = getReadingType(reading);
+  if (isForecastType(type)) return `Your ${FORECAST_LABELS[type]}`;
+
+  switch (type) {
+    case 'question':
+      return 'The Cards Answer';
+    case 'yes-no':
+      return reading.verdict ? `The Answer: ${yesNoLabels[reading.verdict]}` : 'The Answer';
+    default:
+      return 'Explanation for the Day';
+  }
+};
+
+// Readings loaded per page as the list scrolls
+const PAGE_SIZE = 20;
+
+// How long the undo bar stays up after a reading is deleted
+const UNDO_WINDOW_MS = 6000;
+
 export default function JournalScreen() {
   const [history, setHistory] = useState<DailyReading[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedReading, setSelectedReading] = useState<DailyReading | null>(null);
   const [cardImages, setCardImages] = useState<Record<number, string | null>>({});
+  const [query, setQuery] = useState<JournalQuery>(createJournalQuery);
+  const [showFilters, setShowFilters] = useState(false);
+  const [journalView, setJournalView] = useState<JournalView>('list');
+  // Set when opened from a check-back notification
+  const { readingId } = useLocalSearchParams<{ readingId?: string }>();
+  // How many readings are loaded, so a refresh keeps the pages already scrolled through
+  const loadedCountRef = useRef(0);
+  // The last deleted reading, while it can still be undone
+  const [undoReading, setUndoReading] = useState<DailyReading | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Load history on mount
   useEffect(() => {
-    loadHistory();
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    };
   }, []);
 
-  const loadHistory = async () => {
-    try {
-      setIsLoading(true);
-      const readings = await getReadingHistory();
-      setHistory(readings);
-
-      // Load card images for all readings
-      const imageMap: Record<number, string | null> = {};
-      for (const reading of readings) {
-        for (const cardReading of reading.cards) {
-          if (!imageMap[cardReading.card.id]) {
-            const uri = await getCardImageUri(cardReading.card.id);
-            imageMap[cardReading.card.id] = uri;
-          }
+  // Load card images for the given readings, keeping those already loaded
+  const loadCardImages = useCallback(async (readings: DailyReading[]) => {
+    const imageMap: Record<number, string | null> = {};
+    for (const reading of readings) {
+      for (const cardReading of reading.cards) {
+        if (!imageMap[cardReading.card.id]) {
+          const uri = await getCardImageUri(cardReading.card.id);
+          imageMap[cardReading.card.id] = uri;
         }
       }
-      setCardImages(imageMap);
+    }
+    setCardImages(prev => ({ ...prev, ...imageMap }));
+  }, []);
+
+  const loadHistory = useCallback(async (showLoader: boolean = true) => {
+    try {
+      if (showLoader) setIsLoading(true);
+      const { readings, total } = await getReadingHistoryPage(
+        0,
+        Math.max(PAGE_SIZE, loadedCountRef.current)
+      );
+      loadedCountRef.current = readings.length;
+      setHistory(readings);
+      setTotalCount(total);
+      await loadCardImages(readings);
     } catch (error) {
       console.error('Error loading history:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [loadCardImages]);
+
+  // Load history whenever the tab gains focus so readings saved elsewhere
+  // (e.g. from Ask the Cards) appear without a manual refresh
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory(false);
+    }, [loadHistory])
+  );
+
+  // Load the next page, or everything that is left when limit is omitted
+  const loadMore = async (limit: number = PAGE_SIZE) => {
+    if (isLoadingMore || history.length >= totalCount) return;
+    try {
+      setIsLoadingMore(true);
+      const { readings, total } = await getReadingHistoryPage(history.length, limit);
+      loadedCountRef.current = history.length + readings.length;
+      setHistory(prev => [...prev, ...readings.filter(r => !prev.some(p => p.id === r.id))]);
+      setTotalCount(total);
+      await loadCardImages(readings);
+    } catch (error) {
+      console.error('Error loading more history:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
   };
 
+  // Open the reading a notification pointed at, even if its page isn't loaded yet
+  useEffect(() => {
+    if (!readingId) return;
+    let isActive = true;
+    const openReading = async () => {
+      const reading = history.find(r => r.id === readingId) ?? (await getReadingById(readingId));
+      if (reading && isActive) {
+        setSelectedReading(reading);
+        router.setParams({ readingId: undefined });
+      }
+    };
+    openReading();
+    return () => {
+      isActive = false;
+    };
+  }, [readingId, history]);
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadHistory();
     setRefreshing(false);
-  }, []);
+  }, [loadHistory]);
+
+  const filteredHistory = history.filter(reading => matchesJournalQuery(reading, query));
+  const activeFilterCount = countActiveFilters(query);
+  const isFiltering = activeFilterCount > 0 || query.text.trim().length > 0;
+
+  // Search, filters and the calendar work across every reading, not just the loaded pages
+  const needsFullHistory = isFiltering || showFilters || journalView === 'calendar';
+  useEffect(() => {
+    if (needsFullHistory && !isLoading && history.length < totalCount) {
+      loadMore(totalCount - history.length);
+    }
+    // loadMore only reads state covered by these dependencies
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [needsFullHistory, isLoading, history.length, totalCount]);
 
   const formatReadingDate = (dateStr: string): string => {
     // Convert YYYY-MM-DD to a Date object
@@ -99,7 +239,7 @@ export default function JournalScreen() {
         {imageSource ? (
           <Image
             source={imageSource}
-            style={styles.miniCardImage}
+            style={[styles.miniCardImage, cardReading.isReversed && styles.upsideDown]}
             contentFit="cover"
           />
         ) : (
@@ -114,16 +254,10 @@ export default function JournalScreen() {
   };
 
   // Render detail card for modal
-  const renderDetailCard = (cardReading: CardReading) => {
+  const renderDetailCard = (cardReading: CardReading, spread: SpreadDefinition) => {
     const imageUri = cardImages[cardReading.card.id];
     const imageSource = resolveCardImageSource(cardReading.card.id, imageUri);
 
-    const positionLabel = {
-      past: 'Past',
-      present: 'Present',
-      future: 'Future',
-    };
-
     return (
       <View key={cardReading.card.id} style={styles.detailCardContainer}>
         <View style={styles.detailCard}>
@@ -135,7 +269,7 @@ export default function JournalScreen() {
               {imageSource ? (
                 <Image
                   source={imageSource}
-                  style={styles.detailCardImage}
+                  style={[styles.detailCardImage, cardReading.isReversed && styles.upsideDown]}
                   contentFit="cover"
                 />
               ) : (
@@ -147,13 +281,15 @@ export default function JournalScreen() {
               )}
               <View style={styles.detailCardNameContainer}>
                 <Text style={styles.detailCardName} numberOfLines={2}>
-                  {cardReading.card.name}
+                  {getCardDisplayName(cardReading.card, cardReading.isReversed)}
                 </Text>
               </View>
             </View>
           </LinearGradient>
         </View>
-        <Text style={styles.detailPositionLabel}>{positionLabel[cardReading.position]}</Text>
+        <Text style={styles.detailPositionLabel} numberOfLines={1}>
+          {getPositionLabel(spread, cardReading.position)}
+        </Text>
         {cardReading.shortDescription && (
           <Text style={styles.detailDescription} numberOfLines={4}>
             {cardReading.shortDescription}
@@ -165,6 +301,7 @@ export default function JournalScreen() {
 
   // Render history list item
   const renderHistoryItem = ({ item, index }: { item: DailyReading; index: number }) => {
+    const itemType = getReadingType(item);
     return (
       <Animated.View entering={FadeInUp.delay(index * 100).duration(400)}>
         <TouchableOpacity
@@ -178,6 +315,41 @@ export default function JournalScreen() {
           >
             {/* Date */}
             <Text style={styles.historyDate}>{formatReadingDate(item.date)}</Text>
+            {getReadingSubject(item) === 'partner' && (
+              <View style={styles.partnerBadge}>
+                <Ionicons name="heart" size={12} color={Colors.celestialGold} />
+                <Text style={styles.partnerBadgeText}>
+                  For {item.partnerProfile?.fullName || 'your partner'}
+                </Text>
+              </View>
+            )}
+            {isForecastType(itemType) && item.period && (
+              <Text style={styles.historyPeriod}>
+                {FORECAST_LABELS[itemType]} · {formatForecastPeriod(itemType, item.period)}
+              </Text>
+            )}
+            {item.question && (
+              <Text style={styles.historyQuestion} numberOfLines={2}>
+                &ldquo;{item.question}&rdquo;
+              </Text>
+            )}
+            {item.verdict && (
+              <View style={styles.verdictBadge}>
+                <Text style={styles.verdictBadgeText}>{yesNoLabels[item.verdict]}</Text>
+              </View>
+            )}
+            {isCheckBackDue(item) && (
+              <View style={styles.checkBackBadge}>
+                <Ionicons name="time-outline" size={12} color={Colors.celestialGold} />
+                <Text style={styles.checkBackBadgeText}>Time to check back</Text>
+              </View>
+            )}
+
+            {item.tags && item.tags.length > 0 && (
+              <Text style={styles.historyTags} numberOfLines={1}>
+                {item.tags.map(tag => `#${tag}`).join('  ')}
+              </Text>
+            )}
 
             {/* Mini Cards Row */}
             <View style={styles.miniCardsRow}>
@@ -211,10 +383,136 @@ export default function JournalScreen() {
     </Animated.View>
   );
 
+  // Render empty state for a search or filter with no matching readings
+  const renderFilterEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No readings match your search.</Text>
+      <TouchableOpacity onPress={() => setQuery(createJournalQuery())} activeOpacity={0.8}>
+        <Text style={styles.clearSearchText}>Clear search and filters</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Save a reflection on the open reading, or on one of its cards
+  const handleSaveReflection = async (
+    reflection: Reflection | undefined,
+    position?: string
+  ): Promise<boolean> => {
+    if (!selectedReading) return false;
+    try {
+      const updatedReading = await saveReflection(selectedReading.id, reflection, position);
+      if (updatedReading) {
+        setSelectedReading(updatedReading);
+        setHistory(prev => prev.map(r => (r.id === updatedReading.id ? updatedReading : r)));
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving reflection:', error);
+      Alert.alert('Save Failed', 'Unable to save your reflection. Please try again.');
+      return false;
+    }
+  };
+
+  // Record whether the open reading's future card played out
+  const handleCheckBackAnswer = async (outcome: Resonance): Promise<boolean> => {
+    if (!selectedReading) return false;
+    let updatedReading: DailyReading | null;
+    try {
+      updatedReading = await saveCheckBackOutcome(selectedReading.id, outcome);
+    } catch (error) {
+      console.error('Error saving check-back outcome:', error);
+      Alert.alert('Save Failed', 'Unable to save your answer. Please try again.');
+      return false;
+    }
+    if (updatedReading) {
+      // Answered before the reminder fired, so it is no longer needed
+      if (updatedReading.checkBack?.notificationId) {
+        await cancelCheckBack(updatedReading.checkBack.notificationId);
+      }
+      setSelectedReading(updatedReading);
+      setHistory(prev => prev.map(r => (r.id === updatedReading.id ? updatedReading : r)));
+    }
+    return true;
+  };
+
+  const handleSaveTags = async (tags: string[]): Promise<boolean> => {
+    if (!selectedReading) return false;
+    try {
+      const updatedReading = await saveReadingTags(selectedReading.id, tags);
+      if (updatedReading) {
+        setSelectedReading(updatedReading);
+        setHistory(prev => prev.map(r => (r.id === updatedReading.id ? updatedReading : r)));
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      Alert.alert('Save Failed', 'Unable to save your tags. Please try again.');
+      return false;
+    }
+  };
+
+  // Move the open reading to the recently deleted bin, with a short window to undo
+  const handleDelete = async () => {
+    if (!selectedReading) return;
+    const reading = selectedReading;
+    try {
+      await deleteReading(reading.id);
+      // Restoring schedules the reminder again
+      if (reading.checkBack?.notificationId && !reading.checkBack.outcome) {
+        await cancelCheckBack(reading.checkBack.notificationId);
+      }
+      setSelectedReading(null);
+      setHistory(prev => prev.filter(r => r.id !== reading.id));
+      setTotalCount(prev => prev - 1);
+      loadedCountRef.current = Math.max(0, loadedCountRef.current - 1);
+
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      setUndoReading(reading);
+      undoTimerRef.current = setTimeout(() => setUndoReading(null), UNDO_WINDOW_MS);
+    } catch (error) {
+      console.error('Error deleting reading:', error);
+      Alert.alert('Delete Failed', 'Unable to delete this reading. Please try again.');
+    }
+  };
+
+  // Talk the reading through with The Oracle, picking up any earlier conversation about it
+  const handleAskOracle = () => {
+    if (!selectedReading) return;
+    const { id } = selectedReading;
+    setSelectedReading(null);
+    router.push({ pathname: '/chat', params: { readingId: id } });
+  };
+
+  const handleUndoDelete = async () => {
+    if (!undoReading) return;
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoReading(null);
+    try {
+      await restoreReading(undoReading.id);
+      await rescheduleCheckBack(undoReading);
+      loadedCountRef.current += 1;
+      await loadHistory(false);
+    } catch (error) {
+      console.error('Error restoring reading:', error);
+      Alert.alert('Undo Failed', 'Find the reading under Recently Deleted in Settings.');
+    }
+  };
+
   // Detail Modal
   const renderDetailModal = () => {
     if (!selectedReading) return null;
 
+    // Show cards in the order the spread defines its positions
+    const spread = getSpreadById(selectedReading.spreadId);
+    const orderedCards = [...selectedReading.cards].sort((a, b) =>
+      spread.positions.findIndex(p => p.id === a.position) -
+      spread.positions.findIndex(p => p.id === b.position)
+    );
+    const isDrawVerified = selectedReading.shuffle
+      ? verifyDraw(selectedReading.shuffle, selectedReading.cards)
+      : false;
+    const moodJourney = formatMoodJourney(selectedReading);
+
     return (
       <Modal
         visible={!!selectedReading}
@@ -249,12 +547,65 @@ export default function JournalScreen() {
                   style={styles.modalScrollView}
                   contentContainerStyle={styles.modalScrollContent}
                   showsVerticalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
                 >
+                  {selectedReading.question && (
+                    <Text style={styles.detailQuestion}>
+                      &ldquo;{selectedReading.question}&rdquo;
+                    </Text>
+                  )}
+                  {selectedReading.partnerProfile && (
+                    <Text style={styles.detailPartner}>
+                      For {selectedReading.partnerProfile.fullName} · born{' '}
+                      {formatDateLong(selectedReading.partnerProfile.dateOfBirth)}
+                    </Text>
+                  )}
+                  <Text style={styles.detailSpreadName}>{spread.name}</Text>
+                  {selectedReading.shuffle && (
+                    <View style={styles.auditRow}>
+                      <Ionicons
+                        name={isDrawVerified ? 'shield-checkmark' : 'warning'}
+                        size={12}
+                        color={Colors.moonlightGray}
+                      />
+                      <Text style={styles.auditText}>
+                        {selectedReading.shuffle.algorithm === 'fisher-yates-mulberry32'
+                          ? `Shuffle seed ${selectedReading.shuffle.seed}`
+                          : 'Secure shuffle'}
+                        {selectedReading.shuffle.ritual &&
+                          ` · cut at ${selectedReading.shuffle.ritual.cut}, picked by hand`}
+                        {isDrawVerified ? ' · verified' : ' · does not match'}
+                      </Text>
+                    </View>
+                  )}
+                  {moodJourney && <Text style={styles.detailMood}>Mood {moodJourney}</Text>}
+
                   {/* Cards Row */}
                   <View style={styles.detailCardsRow}>
-                    {selectedReading.cards.map(cardReading => renderDetailCard(cardReading))}
+                    {orderedCards.map(cardReading => renderDetailCard(cardReading, spread))}
                   </View>
 
+                  {/* Clarifiers */}
+                  {orderedCards.some(c => c.clarifiers?.length) && (
+                    <View style={styles.clarifiersContainer}>
+                      <Text style={styles.clarifiersTitle}>Clarifiers</Text>
+                      {orderedCards.flatMap(cardReading =>
+                        (cardReading.clarifiers ?? []).map((clarifier, index) => (
+                          <View
+                            key={`${cardReading.position}-${clarifier.card.id}-${index}`}
+                            style={styles.clarifierRow}
+                          >
+                            <Text style={styles.clarifierLabel}>
+                              {getPositionLabel(spread, cardReading.position)} ·{' '}
+                              {getCardDisplayName(clarifier.card, clarifier.isReversed)}
+                            </Text>
+                            <Text style={styles.clarifierText}>{clarifier.interpretation}</Text>
+                          </View>
+                        ))
+                      )}
+                    </View>
+                  )}
+
                   {/* Full Explanation */}
                   <View style={styles.explanationContainer}>
                     <LinearGradient
@@ -262,7 +613,7 @@ export default function JournalScreen() {
                       style={styles.explanationGradient}
                     >
                       <Text style={styles.explanationTitle}>
-                        Explanation for the Day
+                        {getExplanationTitle(selectedReading)}
                       </Text>
                       <FormattedText
                         text={selectedReading.mainExplanation}
@@ -270,6 +621,54 @@ export default function JournalScreen() {
                       />
                     </LinearGradient>
                   </View>
+
+                  {/* Check Back */}
+                  {selectedReading.checkBack && (
+                    <View style={styles.checkBackContainer}>
+                      <CheckBackPrompt
+                        reading={selectedReading}
+                        onAnswer={handleCheckBackAnswer}
+                      />
+                    </View>
+                  )}
+
+                  {/* Reflections */}
+                  <View style={styles.reflectionsContainer}>
+                    <Text style={styles.reflectionsTitle}>Your Reflections</Text>
+                    <ReflectionEditor
+                      key={`${selectedReading.id}-reading`}
+                      title="This Reading"
+                      reflection={selectedReading.reflection}
+                      onSave={reflection => handleSaveReflection(reflection)}
+                    />
+                    {orderedCards.map(cardReading => (
+                      <ReflectionEditor
+                        key={`${selectedReading.id}-${cardReading.position}`}
+                        title={`${getPositionLabel(spread, cardReading.position)} · ${getCardDisplayName(cardReading.card, cardReading.isReversed)}`}
+                        reflection={cardReading.reflection}
+                        onSave={reflection => handleSaveReflection(reflection, cardReading.position)}
+                      />
+                    ))}
+                    <TagEditor
+                      key={`${selectedReading.id}-tags`}
+                      tags={selectedReading.tags}
+                      onSave={handleSaveTags}
+                    />
+                  </View>
+
+                  <View style={styles.actionsContainer}>
+                    <GoldButton
+                      title="Ask the Oracle"
+                      icon="chatbubbles-outline"
+                      onPress={handleAskOracle}
+                    />
+                    <GoldButton
+                      title="Delete Reading"
+                      variant="outline"
+                      icon="trash-outline"
+                      onPress={handleDelete}
+                    />
+                  </View>
                 </ScrollView>
               </SafeAreaView>
             </GradientBackground>
@@ -279,6 +678,12 @@ export default function JournalScreen() {
     );
   };
 
+  const filtersPanel = showFilters && (
+    <View style={styles.filtersContainer}>
+      <JournalFilters query={query} cards={getCardsInHistory(history)} onChange={setQuery} />
+    </View>
+  );
+
   if (isLoading) {
     return (
       <GradientBackground>
@@ -297,28 +702,130 @@ export default function JournalScreen() {
         <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
           <Text style={styles.title}>Your Journey</Text>
           <Text style={styles.subtitle}>
-            {history.length > 0
-              ? `${history.length} reading${history.length === 1 ? '' : 's'} recorded`
-              : 'Begin your mystical chronicle'}
+            {totalCount === 0
+              ? 'Begin your mystical chronicle'
+              : isFiltering
+                ? `${filteredHistory.length} of ${totalCount} readings`
+                : `${totalCount} reading${totalCount === 1 ? '' : 's'} recorded`}
           </Text>
         </Animated.View>
 
-        {/* History List */}
-        <FlatList
-          data={history}
-          renderItem={renderHistoryItem}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={styles.listContent}
-          showsVerticalScrollIndicator={false}
-          ListEmptyComponent={renderEmptyState}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              tintColor={Colors.celestialGold}
-            />
-          }
-        />
+        {/* Search */}
+        {history.length > 0 && (
+          <View style={styles.searchRow}>
+            <View style={styles.searchBox}>
+              <Ionicons name="search" size={18} color={Colors.moonlightGray} />
+              <TextInput
+                style={styles.searchInput}
+                value={query.text}
+                onChangeText={text => setQuery(prev => ({ ...prev, text }))}
+                placeholder="Search readings and notes"
+                placeholderTextColor={Colors.moonlightGray}
+                autoCorrect={false}
+                returnKeyType="search"
+              />
+              {query.text.length > 0 && (
+                <TouchableOpacity
+                  onPress={() => setQuery(prev => ({ ...prev, text: '' }))}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="close-circle" size={18} color={Colors.moonlightGray} />
+                </TouchableOpacity>
+              )}
+            </View>
+            <TouchableOpacity
+              style={[styles.filterButton, showFilters && styles.filterButtonActive]}
+              onPress={() => setShowFilters(!showFilters)}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="options-outline" size={20} color={Colors.celestialGold} />
+              {activeFilterCount > 0 && (
+                <View style={styles.filterCountBadge}>
+                  <Text style={styles.filterCountText}>{activeFilterCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.filterButton}
+              onPress={() => setJournalView(journalView === 'list' ? 'calendar' : 'list')}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={journalView === 'list' ? 'calendar-outline' : 'list-outline'}
+                size={20}
+                color={Colors.celestialGold}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {journalView === 'calendar' && history.length > 0 ? (
+          /* Calendar */
+          <ScrollView
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                tintColor={Colors.celestialGold}
+              />
+            }
+          >
+            {filtersPanel}
+            <JournalCalendar readings={filteredHistory} onSelectReading={setSelectedReading} />
+          </ScrollView>
+        ) : (
+          /* History List */
+          <FlatList
+            data={filteredHistory}
+            renderItem={renderHistoryItem}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            ListHeaderComponent={
+              <>
+                {filtersPanel}
+                <MoodTrendChart history={filteredHistory} />
+                <CheckBackHistory history={filteredHistory} />
+              </>
+            }
+            keyboardShouldPersistTaps="handled"
+            onEndReached={() => loadMore()}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <ActivityIndicator style={styles.listFooter} color={Colors.celestialGold} />
+              ) : null
+            }
+            ListEmptyComponent={history.length > 0 ? renderFilterEmptyState : renderEmptyState}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                tintColor={Colors.celestialGold}
+              />
+            }
+          />
+        )}
+
+        {/* Undo Delete */}
+        {undoReading && (
+          <Animated.View
+            entering={FadeInUp.duration(300)}
+            exiting={FadeOut.duration(200)}
+            style={styles.undoBar}
+          >
+            <Text style={styles.undoText}>Reading deleted</Text>
+            <TouchableOpacity
+              onPress={handleUndoDelete}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.undoButtonText}>Undo</Text>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
 
         {/* Detail Modal */}
         {renderDetailModal()}
@@ -355,6 +862,9 @@ const styles = StyleSheet.create({
     color: Colors.celestialGold,
     textAlign: 'center',
   },
+  listFooter: {
+    marginVertical: Spacing.lg,
+  },
   subtitle: {
     fontSize: 14,
     color: Colors.textSecondary,
@@ -385,8 +895,130 @@ const styles = StyleSheet.create({
     color: Colors.celestialGold,
     marginBottom: Spacing.sm,
   },
+  partnerBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+    marginBottom: Spacing.sm,
+  },
+  partnerBadgeText: {
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  verdictBadge: {
+    alignSelf: 'flex-start',
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+    marginBottom: Spacing.sm,
+  },
+  verdictBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  checkBackBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+    marginBottom: Spacing.sm,
+  },
+  checkBackBadgeText: {
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  historyPeriod: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.sm,
+  },
+  historyQuestion: {
+    fontSize: 15,
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    fontStyle: 'italic',
+    marginBottom: Spacing.sm,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  filterButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  filterButtonActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  filterCountBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.celestialGold,
+  },
+  filterCountText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: Colors.deepMidnightBlue,
+  },
+  filtersContainer: {
+    marginBottom: Spacing.md,
+  },
   miniCardsRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'flex-start',
     marginBottom: Spacing.sm,
     gap: Spacing.sm,
@@ -402,6 +1034,9 @@ const styles = StyleSheet.create({
   miniCardImage: {
     flex: 1,
   },
+  upsideDown: {
+    transform: [{ rotate: '180deg' }],
+  },
   miniCardPlaceholder: {
     flex: 1,
     backgroundColor: 'rgba(221, 133, 216, 0.1)',
@@ -449,6 +1084,12 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     fontFamily: 'System',
   },
+  clearSearchText: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.md,
+  },
   // Modal styles
   modalOverlay: {
     flex: 1,
@@ -483,16 +1124,61 @@ const styles = StyleSheet.create({
   modalScrollContent: {
     paddingBottom: Spacing.xxl,
   },
+  detailQuestion: {
+    fontSize: 18,
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+    lineHeight: 26,
+    marginBottom: Spacing.md,
+  },
+  detailPartner: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.xs,
+  },
+  detailSpreadName: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  auditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  auditText: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+  },
+  detailMood: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    marginTop: Spacing.sm,
+  },
   detailCardsRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
     alignItems: 'flex-start',
     paddingHorizontal: Spacing.md,
     marginTop: Spacing.md,
+    rowGap: Spacing.lg,
   },
   detailCardContainer: {
     alignItems: 'center',
     marginHorizontal: Spacing.xs,
+    maxWidth: DETAIL_CARD_WIDTH + 30,
   },
   detailCard: {
     width: DETAIL_CARD_WIDTH,
@@ -560,6 +1246,92 @@ const styles = StyleSheet.create({
     lineHeight: 14,
     maxWidth: DETAIL_CARD_WIDTH + 30,
   },
+  checkBackContainer: {
+    marginTop: Spacing.xl,
+  },
+  reflectionsContainer: {
+    marginTop: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  actionsContainer: {
+    marginTop: Spacing.xl,
+    gap: Spacing.md,
+  },
+  historyTags: {
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.sm,
+    paddingRight: Spacing.xl,
+  },
+  undoBar: {
+    position: 'absolute',
+    left: Spacing.lg,
+    right: Spacing.lg,
+    bottom: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.deepMidnightBlue,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+    ...Shadows.card,
+  },
+  undoText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  undoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  reflectionsTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    textAlign: 'center',
+    marginBottom: Spacing.xs,
+  },
+  clarifiersContainer: {
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  clarifiersTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    textAlign: 'center',
+    marginBottom: Spacing.xs,
+  },
+  clarifierRow: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  clarifierLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: 2,
+  },
+  clarifierText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
   explanationContainer: {
     marginTop: Spacing.xl,
     marginHorizontal: Spacing.md,
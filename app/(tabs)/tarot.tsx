@@ -1,5 +1,5 @@
 // Tarot Screen - Daily Reading with Lazy Image Generation
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   StyleSheet,
   View,
@@ -9,18 +9,26 @@ import {
   RefreshControl,
   Share,
   TouchableOpacity,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
+import { router, useFocusEffect } from 'expo-router';
 import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
 import GradientBackground from '@/components/GradientBackground';
-import TarotCard from '@/components/TarotCard';
+import SpreadLayout from '@/components/SpreadLayout';
+import SpreadPicker from '@/components/SpreadPicker';
+import RitualDeck from '@/components/RitualDeck';
 import GoldButton from '@/components/GoldButton';
 import FormattedText from '@/components/FormattedText';
+import ClarifierPanel from '@/components/ClarifierPanel';
+import MoodCheckInCard from '@/components/MoodCheckInCard';
 import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
-import { getRandomCards } from '@/data/tarotDeck';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { getSpreadById, DEFAULT_SPREAD_ID } from '@/data/spreads';
 import {
   getUserProfile,
+  getPartnerProfile,
   getDailyReading,
   saveDailyReading,
   getPartnerDailyReading,
@@ -29,11 +37,18 @@ import {
   saveToHistory,
 } from '@/utils/storage';
 import { formatDateLong } from '@/utils/formatDate';
-import { trackReadingCompletion } from '@/utils/rating';
-import { UserProfile, DailyReading, CardReading, TarotCard as TarotCardData } from '@/types';
-import { useTextGeneration } from '@fastshot/ai';
-import { getCardImageUri } from '@/utils/imageStorage';
-import { generateCardImage } from '@/services/cardImageService';
+import { getRitualModePreference, saveRitualModePreference } from '@/utils/ritual';
+import { hasReflection, formatReflection } from '@/utils/reflections';
+import { planCheckBack } from '@/utils/checkBack';
+import {
+  UserProfile,
+  PartnerProfile,
+  DailyReading,
+  RitualDraw,
+  TarotCard as TarotCardType,
+} from '@/types';
+import { formatBirthDetails, buildReadingPrompt } from '@/services/readingService';
+import { useSpreadReading } from '@/hooks/useSpreadReading';
 
 // Reading mode type
 type ReadingMode = 'me' | 'partner';
@@ -52,138 +67,38 @@ const CONSTELLATION_POSITIONS: { left: `${number}%`, top: `${number}%`, opacity:
 
 export default function TarotScreen() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [dailyReading, setDailyReading] = useState<DailyReading | null>(null);
+  const [partnerProfile, setPartnerProfile] = useState<PartnerProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isGenerating, setIsGenerating] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [readingMode, setReadingMode] = useState<ReadingMode>('me');
-
-  // Card images state
-  const [cardImages, setCardImages] = useState<Record<number, string | null>>({});
-  const [generatingCardIds, setGeneratingCardIds] = useState<Set<number>>(new Set());
-
-  // Ref to store pending cards during AI generation
-  const pendingCardsRef = useRef<TarotCardData[] | null>(null);
-  // Ref to store userProfile for use in callbacks (avoids stale closure)
-  const userProfileRef = useRef<UserProfile | null>(null);
-  // Ref to store readingMode for use in callbacks (avoids stale closure)
-  const readingModeRef = useRef<ReadingMode>('me');
-
-  // Keep refs in sync
-  useEffect(() => {
-    userProfileRef.current = userProfile;
-  }, [userProfile]);
-
-  useEffect(() => {
-    readingModeRef.current = readingMode;
-  }, [readingMode]);
-
-  // Helper to finalize and save reading - uses refs to avoid stale closures
-  const finalizeReading = useCallback(async (
-    selectedCards: TarotCardData[],
-    aiResponse: string | null
-  ) => {
-    const profile = userProfileRef.current;
-    if (!profile) {
-      console.log('No user profile available');
-      setIsGenerating(false);
-      return;
-    }
-
-    console.log('Finalizing reading with AI response:', aiResponse ? 'received' : 'null');
-
-    // Parse AI response or use default
-    let interpretations = {
-      past: selectedCards[0].uprightMeaning,
-      present: selectedCards[1].uprightMeaning,
-      future: selectedCards[2].uprightMeaning,
-      dailyMessage: `Today's energies suggest a significant shift. The combination of ${selectedCards[0].name}, ${selectedCards[1].name}, and ${selectedCards[2].name} speaks to your journey of transformation. Trust in the cosmic flow and embrace the wisdom these cards offer.`,
-    };
-
-    if (aiResponse) {
-      try {
-        // Try to extract JSON from the response (handle markdown code blocks)
-        let jsonStr = aiResponse;
-        const jsonMatch = aiResponse.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) {
-          jsonStr = jsonMatch[1].trim();
-        }
-        const parsed = JSON.parse(jsonStr);
-        console.log('Parsed AI interpretations:', parsed);
-        interpretations = { ...interpretations, ...parsed };
-      } catch (parseError) {
-        console.log('Failed to parse AI response, using defaults:', parseError);
-      }
-    }
-
-    // Create card readings with interpretations
-    const cardReadings: CardReading[] = selectedCards.map((card, index) => ({
-      card,
-      position: (['past', 'present', 'future'] as const)[index],
-      isRevealed: false,
-      shortDescription: index === 0 ? interpretations.past :
-                        index === 1 ? interpretations.present :
-                        interpretations.future,
-    }));
-
-    // Create and save the reading
-    const currentMode = readingModeRef.current;
-    const reading: DailyReading = {
-      id: `reading_${currentMode}_${Date.now()}`,
-      date: getTodayDateString(),
-      cards: cardReadings,
-      mainExplanation: interpretations.dailyMessage,
-      userProfile: profile,
-      createdAt: new Date(),
-    };
-
-    // Save to correct storage based on mode
-    if (currentMode === 'partner') {
+  const [selectedSpreadId, setSelectedSpreadId] = useState(DEFAULT_SPREAD_ID);
+  const [ritualMode, setRitualMode] = useState(false);
+  const [isRitualActive, setIsRitualActive] = useState(false);
+
+  // Keep today's reading for whoever it was drawn for, and in the journal
+  const saveReading = async (reading: DailyReading) => {
+    await saveToHistory(reading);
+    if (reading.subject === 'partner') {
       await savePartnerDailyReading(reading);
     } else {
       await saveDailyReading(reading);
-      await saveToHistory(reading);
-      // Track reading completion for app review prompt (only for personal readings)
-      await trackReadingCompletion();
-    }
-    setDailyReading(reading);
-
-    // Load any existing images for the new cards
-    const images: Record<number, string | null> = {};
-    for (const card of selectedCards) {
-      const uri = await getCardImageUri(card.id);
-      if (uri) {
-        images[card.id] = uri;
-      }
     }
-    setCardImages(images);
-    setIsGenerating(false);
-    pendingCardsRef.current = null;
-  }, []);
+  };
 
-  // Store finalizeReading in a ref so callbacks always get the latest version
-  const finalizeReadingRef = useRef(finalizeReading);
-  useEffect(() => {
-    finalizeReadingRef.current = finalizeReading;
-  }, [finalizeReading]);
-
-  const { generateText } = useTextGeneration({
-    onSuccess: (response) => {
-      console.log('AI interpretation generated, response length:', response?.length || 0);
-      const cards = pendingCardsRef.current;
-      if (cards) {
-        finalizeReadingRef.current(cards, response);
-      }
-    },
-    onError: (error) => {
-      console.error('AI error:', error);
-      // Still finalize with defaults on error
-      const cards = pendingCardsRef.current;
-      if (cards) {
-        finalizeReadingRef.current(cards, null);
-      }
-    },
-  });
+  const {
+    reading: dailyReading,
+    setReading: setDailyReading,
+    isGenerating,
+    moodBefore,
+    setMoodBefore,
+    cardImages,
+    generatingCardIds,
+    loadCardImages,
+    startReading,
+    revealCard,
+    updateReading,
+    saveMoodAfter,
+  } = useSpreadReading({ saveReading });
 
   // Load user profile and daily reading
   useEffect(() => {
@@ -192,28 +107,23 @@ export default function TarotScreen() {
   }, []);
 
   // Load existing card images when reading changes
-  const loadExistingCardImages = useCallback(async (cards: CardReading[]) => {
-    const images: Record<number, string | null> = {};
-    for (const cardReading of cards) {
-      const uri = await getCardImageUri(cardReading.card.id);
-      if (uri) {
-        images[cardReading.card.id] = uri;
-      }
-    }
-    setCardImages(images);
-  }, []);
-
   useEffect(() => {
     if (dailyReading?.cards) {
-      loadExistingCardImages(dailyReading.cards);
+      loadCardImages(dailyReading.cards);
     }
-  }, [dailyReading?.id, dailyReading?.cards, loadExistingCardImages]);
+  }, [dailyReading?.id, dailyReading?.cards, loadCardImages]);
 
   const loadData = async (mode: ReadingMode = readingMode) => {
     try {
       setIsLoading(true);
-      const profile = await getUserProfile();
+      const [profile, partner, ritualPreference] = await Promise.all([
+        getUserProfile(),
+        getPartnerProfile(),
+        getRitualModePreference(),
+      ]);
       setUserProfile(profile);
+      setPartnerProfile(partner);
+      setRitualMode(ritualPreference);
 
       // Check if we have a reading for today based on mode
       const existingReading = mode === 'me'
@@ -232,6 +142,23 @@ export default function TarotScreen() {
     }
   };
 
+  // Pick up partner details added or changed on the profile screen
+  useFocusEffect(
+    useCallback(() => {
+      getPartnerProfile().then(setPartnerProfile);
+
+      // Pick up reflections written on today's reading from the journal, or its deletion there
+      const getStoredReading = readingMode === 'me' ? getDailyReading : getPartnerDailyReading;
+      getStoredReading().then(stored => {
+        setDailyReading(prev => {
+          if (!prev) return prev;
+          if (!stored) return null;
+          return prev.id === stored.id ? stored : prev;
+        });
+      });
+    }, [readingMode, setDailyReading])
+  );
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadData(readingMode);
@@ -248,133 +175,101 @@ export default function TarotScreen() {
     }
   };
 
-  const generateDailyReading = async () => {
-    if (!userProfile) return;
-
-    setIsGenerating(true);
-    try {
-      // Select 3 random cards
-      const selectedCards = getRandomCards(3);
-
-      // Store cards in ref for use in onSuccess callback
-      pendingCardsRef.current = selectedCards;
-
-      // Generate AI interpretations with shorter descriptions for card layout
-      const isPartnerReading = readingMode === 'partner';
-      const seekerContext = isPartnerReading
-        ? `You are a mystical tarot reader. ${userProfile.fullName} is seeking guidance for their partner.`
-        : `You are a mystical tarot reader. The seeker is ${userProfile.fullName}, born on ${formatDateLong(userProfile.dateOfBirth)}.`;
-
-      const guidanceContext = isPartnerReading
-        ? 'as guidance for the partner today, focusing on how they might support and understand their partner better'
-        : 'as personalized guidance for today based on their birth date and the specific cards drawn';
-
-      const prompt = `${seekerContext}
-
-For ${isPartnerReading ? "their partner's" : 'their'} daily reading, these three cards were drawn:
-1. PAST: ${selectedCards[0].name} - ${selectedCards[0].uprightMeaning}
-2. PRESENT: ${selectedCards[1].name} - ${selectedCards[1].uprightMeaning}
-3. FUTURE: ${selectedCards[2].name} - ${selectedCards[2].uprightMeaning}
-
-Provide a mystical interpretation in this exact JSON format (no other text, no markdown):
-{
-  "past": "Brief insight for past card (max 15 words)",
-  "present": "Brief insight for present card (max 15 words)",
-  "future": "Brief insight for future card (max 15 words)",
-  "dailyMessage": "A paragraph (60-80 words) weaving all three cards together ${guidanceContext}"
-}`;
-
-      // Trigger AI generation - result will be handled in onSuccess callback
-      await generateText(prompt);
-    } catch (error) {
-      console.error('Error generating reading:', error);
-      // Finalize with defaults on error
-      const cards = pendingCardsRef.current;
-      if (cards) {
-        await finalizeReadingRef.current(cards, null);
-      } else {
-        setIsGenerating(false);
-      }
-    }
+  const handleRitualModeToggle = (enabled: boolean) => {
+    setRitualMode(enabled);
+    saveRitualModePreference(enabled);
   };
 
-  // Trigger image generation when a card is revealed
-  const triggerCardImageGeneration = async (cardReading: CardReading) => {
-    const cardId = cardReading.card.id;
-
-    // Skip if already have image or already generating
-    if (cardImages[cardId] || generatingCardIds.has(cardId)) {
-      return;
-    }
-
-    // Mark as generating
-    setGeneratingCardIds(prev => new Set(prev).add(cardId));
-
-    try {
-      const uri = await generateCardImage(cardReading.card);
-      if (uri) {
-        setCardImages(prev => ({ ...prev, [cardId]: uri }));
-      }
-    } catch (error) {
-      console.error(`Error generating image for card ${cardId}:`, error);
-    } finally {
-      setGeneratingCardIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(cardId);
-        return newSet;
-      });
-    }
+  const handleRitualComplete = (ritual: { deck: TarotCardType[]; draw: RitualDraw }) => {
+    setIsRitualActive(false);
+    generateDailyReading(ritual);
   };
 
-  const revealCard = (index: number) => {
-    if (!dailyReading) return;
-
-    const updatedCards = [...dailyReading.cards];
-    updatedCards[index] = { ...updatedCards[index], isRevealed: true };
-
-    const updatedReading = { ...dailyReading, cards: updatedCards };
-    setDailyReading(updatedReading);
-
-    // Save to correct storage based on mode
-    if (readingMode === 'partner') {
-      savePartnerDailyReading(updatedReading);
-    } else {
-      saveDailyReading(updatedReading);
-    }
+  const generateDailyReading = async (ritual?: { deck: TarotCardType[]; draw: RitualDraw }) => {
+    if (!userProfile) return;
 
-    // Trigger image generation for the revealed card
-    triggerCardImageGeneration(updatedCards[index]);
+    // Generate AI interpretations with shorter descriptions for card layout
+    const isPartnerReading = readingMode === 'partner' && !!partnerProfile;
+    const seekerContext = isPartnerReading
+      ? `You are a mystical tarot reader. ${userProfile.fullName} is seeking guidance for their partner, ${partnerProfile.fullName}, ${formatBirthDetails(partnerProfile)}. Let the partner's birth details colour the interpretation.`
+      : `You are a mystical tarot reader. The seeker is ${userProfile.fullName}, born on ${formatDateLong(userProfile.dateOfBirth)}.`;
+
+    const guidanceContext = isPartnerReading
+      ? 'as guidance for the partner today, focusing on how they might support and understand their partner better'
+      : 'as personalized guidance for today based on their birth date and the specific cards drawn';
+
+    // Draw one card for each position of the chosen spread, or deal the seeker's picks
+    await startReading({
+      spread: getSpreadById(selectedSpreadId),
+      ritual,
+      buildPrompt: draw =>
+        buildReadingPrompt(draw, {
+          seekerContext,
+          occasion: `For ${isPartnerReading ? "their partner's" : 'their'} daily reading`,
+          guidanceContext,
+        }),
+      buildReading: (draw, { cards, mainExplanation }, mood) =>
+        planCheckBack({
+          id: `reading_${readingMode}_${Date.now()}`,
+          type: 'daily',
+          subject: readingMode === 'partner' ? 'partner' : 'self',
+          date: getTodayDateString(),
+          spreadId: draw.spread.id,
+          cards,
+          mainExplanation,
+          userProfile,
+          partnerProfile: readingMode === 'partner' ? partnerProfile ?? undefined : undefined,
+          shuffle: draw.audit,
+          moodBefore: mood,
+          createdAt: new Date(),
+        }),
+      // Only personal readings count towards the app review prompt
+      trackCompletion: readingMode !== 'partner',
+    });
   };
 
   const allCardsRevealed = dailyReading?.cards.every(c => c.isRevealed) ?? false;
+  const readingSpread = getSpreadById(dailyReading?.spreadId);
 
   // Share reading functionality
   const handleShareReading = useCallback(async () => {
     if (!dailyReading) return;
 
-    const pastCard = dailyReading.cards.find(c => c.position === 'past');
-    const presentCard = dailyReading.cards.find(c => c.position === 'present');
-    const futureCard = dailyReading.cards.find(c => c.position === 'future');
-
-    // Get the Present card image for sharing (the central, most prominent card)
-    const presentCardImageUri = presentCard ? cardImages[presentCard.card.id] : null;
+    const spread = getSpreadById(dailyReading.spreadId);
+    const cardLines = spread.positions.map(position => {
+      const cardReading = dailyReading.cards.find(c => c.position === position.id);
+      const cardName = cardReading
+        ? getCardDisplayName(cardReading.card, cardReading.isReversed)
+        : '';
+      const cardReflection = hasReflection(cardReading?.reflection)
+        ? `\n   📝 ${formatReflection(cardReading.reflection)}`
+        : '';
+      return `🃏 ${position.label}: ${cardName}${cardReflection}`;
+    }).join('\n');
+
+    const readingReflection = hasReflection(dailyReading.reflection)
+      ? `\n\n📝 ${formatReflection(dailyReading.reflection)}`
+      : '';
+
+    // Share the Present card image when the spread has one, otherwise the first card
+    const featuredCard = dailyReading.cards.find(c => c.position === 'present') ?? dailyReading.cards[0];
+    const featuredCardImageUri = featuredCard ? cardImages[featuredCard.card.id] : null;
 
     const readingTitle = readingMode === 'partner'
       ? "✨ Partner's Daily Tarot Reading ✨"
       : '✨ My Daily Tarot Reading ✨';
 
     const shareMessage = `${readingTitle}
+${spread.name}
 
-🃏 Past: ${pastCard?.card.name || ''}
-🃏 Present: ${presentCard?.card.name || ''}
-🃏 Future: ${futureCard?.card.name || ''}
+${cardLines}${readingReflection}
 
 🌙 Tarotify`;
 
     try {
       await Share.share({
         message: shareMessage,
-        ...(presentCardImageUri && { url: presentCardImageUri }),
+        ...(featuredCardImageUri && { url: featuredCardImageUri }),
       });
     } catch (error) {
       console.error('Error sharing reading:', error);
@@ -413,7 +308,9 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
               <Text style={styles.title}>
                 {readingMode === 'partner' ? "Partner's Daily Reading" : 'Your Daily Reading,'}{'\n'}
                 <Text style={styles.titleName}>
-                  {readingMode === 'partner' ? `from ${userProfile?.fullName || 'Seeker'}` : userProfile?.fullName || 'Seeker'}
+                  {readingMode === 'partner'
+                    ? partnerProfile?.fullName || `from ${userProfile?.fullName || 'Seeker'}`
+                    : userProfile?.fullName || 'Seeker'}
                 </Text>
               </Text>
               <Text style={styles.date}>{formatDateLong(new Date())}</Text>
@@ -476,18 +373,73 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
             <View style={styles.constellationLine} />
           </View>
 
-          {!dailyReading ? (
-            // No reading yet - show generate button
+          {!dailyReading && readingMode === 'partner' && !partnerProfile ? (
+            // Partner readings need the partner's birth details first
             <Animated.View entering={FadeInUp.delay(300).duration(600)} style={styles.generateContainer}>
               <Text style={styles.generateText}>
-                The cosmos await your inquiry.{'\n'}Draw your cards for today&apos;s guidance.
+                Add your partner&apos;s birth details{'\n'}so the cards can speak to them.
               </Text>
+
               <GoldButton
-                title="Draw Your Cards"
-                onPress={generateDailyReading}
-                loading={isGenerating}
+                title="Add Your Partner"
+                onPress={() => router.push('/profile')}
+                icon="person-add-outline"
               />
             </Animated.View>
+          ) : !dailyReading ? (
+            // No reading yet - show generate button
+            <Animated.View entering={FadeInUp.delay(300).duration(600)} style={styles.generateContainer}>
+              <Text style={styles.generateText}>
+                The cosmos await your inquiry.{'\n'}Draw your cards for today&apos;s guidance.
+              </Text>
+
+              {isRitualActive ? (
+                <RitualDeck
+                  positionLabels={getSpreadById(selectedSpreadId).positions.map(p => p.label)}
+                  onComplete={handleRitualComplete}
+                  onCancel={() => setIsRitualActive(false)}
+                />
+              ) : (
+                <>
+                  <View style={styles.moodBeforeContainer}>
+                    <MoodCheckInCard
+                      title="How are you arriving?"
+                      checkIn={moodBefore}
+                      onChange={setMoodBefore}
+                    />
+                  </View>
+
+                  <SpreadPicker
+                    selectedSpreadId={selectedSpreadId}
+                    onSelect={setSelectedSpreadId}
+                  />
+
+                  <View style={styles.ritualToggle}>
+                    <View style={styles.ritualToggleText}>
+                      <Text style={styles.ritualToggleTitle}>Ritual Draw</Text>
+                      <Text style={styles.ritualToggleSubtitle}>
+                        Shuffle, cut and choose your own cards
+                      </Text>
+                    </View>
+                    <Switch
+                      value={ritualMode}
+                      onValueChange={handleRitualModeToggle}
+                      trackColor={{
+                        false: Colors.moonlightGray,
+                        true: Colors.celestialGold,
+                      }}
+                      thumbColor={Colors.textPrimary}
+                    />
+                  </View>
+
+                  <GoldButton
+                    title={ritualMode ? 'Begin the Ritual' : 'Draw Your Cards'}
+                    onPress={() => (ritualMode ? setIsRitualActive(true) : generateDailyReading())}
+                    loading={isGenerating}
+                  />
+                </>
+              )}
+            </Animated.View>
           ) : (
             // Show the reading
             <>
@@ -496,20 +448,14 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
                 entering={FadeInUp.delay(200).duration(600)}
                 style={styles.cardsContainer}
               >
-                <View style={styles.cardsRow}>
-                  {dailyReading.cards.map((cardReading, index) => (
-                    <TarotCard
-                      key={cardReading.card.id}
-                      card={cardReading.card}
-                      position={cardReading.position}
-                      isRevealed={cardReading.isRevealed}
-                      onPress={() => revealCard(index)}
-                      shortDescription={cardReading.shortDescription}
-                      imageUri={cardImages[cardReading.card.id] || null}
-                      isGenerating={generatingCardIds.has(cardReading.card.id)}
-                    />
-                  ))}
-                </View>
+                <Text style={styles.spreadName}>{readingSpread.name}</Text>
+                <SpreadLayout
+                  spread={readingSpread}
+                  cards={dailyReading.cards}
+                  cardImages={cardImages}
+                  generatingCardIds={generatingCardIds}
+                  onRevealCard={revealCard}
+                />
 
                 {!allCardsRevealed && (
                   <Text style={styles.tapHint}>
@@ -518,6 +464,27 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
                 )}
               </Animated.View>
 
+              {/* Position Insights - larger spreads have no room for text under each card */}
+              {readingSpread.layout.rows > 1 && dailyReading.cards.some(c => c.isRevealed) && (
+                <Animated.View
+                  entering={FadeInUp.delay(200).duration(600)}
+                  style={styles.insightsContainer}
+                >
+                  {readingSpread.positions.map(position => {
+                    const cardReading = dailyReading.cards.find(c => c.position === position.id);
+                    if (!cardReading?.isRevealed) return null;
+                    return (
+                      <View key={position.id} style={styles.insightRow}>
+                        <Text style={styles.insightLabel}>
+                          {position.label} · {getCardDisplayName(cardReading.card, cardReading.isReversed)}
+                        </Text>
+                        <Text style={styles.insightText}>{cardReading.shortDescription}</Text>
+                      </View>
+                    );
+                  })}
+                </Animated.View>
+              )}
+
               {/* Daily Explanation */}
               {allCardsRevealed && (
                 <Animated.View
@@ -539,6 +506,30 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
                 </Animated.View>
               )}
 
+              {/* Mood After */}
+              {allCardsRevealed && (
+                <Animated.View
+                  entering={FadeInUp.delay(450).duration(600)}
+                  style={styles.clarifierContainer}
+                >
+                  <MoodCheckInCard
+                    title="How do you feel now?"
+                    checkIn={dailyReading.moodAfter}
+                    onChange={saveMoodAfter}
+                  />
+                </Animated.View>
+              )}
+
+              {/* Clarifiers */}
+              {allCardsRevealed && (
+                <Animated.View
+                  entering={FadeInUp.delay(500).duration(600)}
+                  style={styles.clarifierContainer}
+                >
+                  <ClarifierPanel reading={dailyReading} onUpdate={updateReading} />
+                </Animated.View>
+              )}
+
               {/* Share Reading Button */}
               {allCardsRevealed && (
                 <Animated.View
@@ -550,6 +541,14 @@ Provide a mystical interpretation in this exact JSON format (no other text, no m
                     onPress={handleShareReading}
                     icon="share-social-outline"
                   />
+                  {readingMode === 'me' && (
+                    <GoldButton
+                      title="Ask the Cards a Question"
+                      variant="outline"
+                      onPress={() => router.push('/ask')}
+                      icon="help-circle-outline"
+                    />
+                  )}
                 </Animated.View>
               )}
             </>
@@ -669,13 +668,71 @@ const styles = StyleSheet.create({
     lineHeight: 28,
     marginBottom: Spacing.xl,
   },
+  moodBeforeContainer: {
+    alignSelf: 'stretch',
+    marginBottom: Spacing.lg,
+  },
+  ritualToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginBottom: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  ritualToggleText: {
+    flex: 1,
+  },
+  ritualToggleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  ritualToggleSubtitle: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   cardsContainer: {
     paddingHorizontal: Spacing.md,
   },
-  cardsRow: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    alignItems: 'flex-start',
+  spreadName: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.md,
+  },
+  insightsContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+    gap: Spacing.md,
+  },
+  insightRow: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  insightLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.xs,
+  },
+  insightText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
   },
   tapHint: {
     textAlign: 'center',
@@ -690,6 +747,10 @@ const styles = StyleSheet.create({
     marginHorizontal: Spacing.md,
     marginBottom: Spacing.lg,
   },
+  clarifierContainer: {
+    marginHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
   explanationGradient: {
     borderRadius: BorderRadius.lg + 4,
     borderWidth: 1,
@@ -718,5 +779,6 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     marginHorizontal: Spacing.xl,
     marginBottom: Spacing.md,
+    gap: Spacing.md,
   },
 });
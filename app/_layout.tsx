@@ -1,6 +1,6 @@
 // Root Layout - Handles navigation and initial routing
-import { useEffect, useCallback } from 'react';
-import { Stack } from 'expo-router';
+import { useEffect, useCallback, useState } from 'react';
+import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { configureNewell } from '@fastshot/ai';
@@ -10,6 +10,8 @@ import * as Font from 'expo-font';
 import { View } from 'react-native';
 import { Colors } from '@/constants/theme';
 import { initHaptics } from '@/utils/haptics';
+import { runStorageMigrations } from '@/utils/storageMigrations';
+import { purgeExpiredDeletedReadings } from '@/utils/storage';
 
 // Prevent splash screen from hiding before fonts are loaded
 SplashScreen.preventAutoHideAsync();
@@ -37,20 +39,39 @@ export default function RootLayout() {
     'SpaceMono-Regular': require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Bring stored data up to the current schema before any screen reads it,
+  // then clear out readings deleted longer ago than the bin keeps them
+  const [storageReady, setStorageReady] = useState(false);
+  useEffect(() => {
+    runStorageMigrations()
+      .then(purgeExpiredDeletedReadings)
+      .finally(() => setStorageReady(true));
+  }, []);
+
   // Initialize haptics preference cache on app start
   useEffect(() => {
     initHaptics();
   }, []);
 
-  // Hide splash screen when fonts are loaded
+  // Open the journal at the reading a tapped check-back follow-up refers to
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
+  useEffect(() => {
+    if (!fontsLoaded || !storageReady || !lastNotificationResponse) return;
+    const data = lastNotificationResponse.notification.request.content.data;
+    if (data?.type === 'check-back' && typeof data.readingId === 'string') {
+      router.push({ pathname: '/journal', params: { readingId: data.readingId } });
+    }
+  }, [fontsLoaded, storageReady, lastNotificationResponse]);
+
+  // Hide splash screen when fonts and storage are ready
   const onLayoutRootView = useCallback(async () => {
-    if (fontsLoaded) {
+    if (fontsLoaded && storageReady) {
       await SplashScreen.hideAsync();
     }
-  }, [fontsLoaded]);
+  }, [fontsLoaded, storageReady]);
 
-  // Wait for fonts to load
-  if (!fontsLoaded) {
+  // Wait for fonts to load and storage to migrate
+  if (!fontsLoaded || !storageReady) {
     return null;
   }
 
@@ -86,6 +107,48 @@ export default function RootLayout() {
             animation: 'slide_from_right',
           }}
         />
+        <Stack.Screen
+          name="ask"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="yes-no"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="forecast"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="insights"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="restore"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="recently-deleted"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="compatibility"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
       </Stack>
       </View>
     </SafeAreaProvider>
@@ -0,0 +1,438 @@
+// Ask the Cards Screen - Question-focused readings saved alongside the daily draw
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Keyboard,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import MysticalInput from '@/components/MysticalInput';
+import SpreadPicker from '@/components/SpreadPicker';
+import SpreadLayout from '@/components/SpreadLayout';
+import GoldButton from '@/components/GoldButton';
+import FormattedText from '@/components/FormattedText';
+import ClarifierPanel from '@/components/ClarifierPanel';
+import MoodCheckInCard from '@/components/MoodCheckInCard';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getSpreadById, DEFAULT_SPREAD_ID } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { getUserProfile, getTodayDateString, saveToHistory } from '@/utils/storage';
+import { formatDateLong } from '@/utils/formatDate';
+import { planCheckBack } from '@/utils/checkBack';
+import { buildReadingPrompt } from '@/services/readingService';
+import { useSpreadReading } from '@/hooks/useSpreadReading';
+import { UserProfile } from '@/types';
+
+const MAX_QUESTION_LENGTH = 200;
+
+export default function AskScreen() {
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [question, setQuestion] = useState('');
+  const [selectedSpreadId, setSelectedSpreadId] = useState(DEFAULT_SPREAD_ID);
+
+  const {
+    reading,
+    setReading,
+    isGenerating,
+    moodBefore,
+    setMoodBefore,
+    cardImages,
+    generatingCardIds,
+    startReading,
+    revealCard,
+    updateReading,
+    saveMoodAfter,
+  } = useSpreadReading({ saveReading: saveToHistory });
+
+  useEffect(() => {
+    getUserProfile().then(setUserProfile);
+  }, []);
+
+  const handleAsk = async () => {
+    const trimmedQuestion = question.trim();
+    if (!trimmedQuestion) {
+      Alert.alert('Question Required', 'Please write the question you wish to ask the cards.');
+      return;
+    }
+    if (!userProfile) return;
+
+    Keyboard.dismiss();
+    await startReading({
+      spread: getSpreadById(selectedSpreadId),
+      buildPrompt: draw =>
+        buildReadingPrompt(draw, {
+          seekerContext: `You are a mystical tarot reader. The seeker is ${userProfile.fullName}, born on ${formatDateLong(userProfile.dateOfBirth)}. They ask the cards: "${trimmedQuestion}"`,
+          occasion: 'To answer their question',
+          guidanceContext: 'into a direct, compassionate answer to their question',
+        }),
+      buildReading: (draw, { cards, mainExplanation }, mood) =>
+        planCheckBack({
+          id: `reading_question_${Date.now()}`,
+          type: 'question',
+          date: getTodayDateString(),
+          question: trimmedQuestion,
+          spreadId: draw.spread.id,
+          cards,
+          mainExplanation,
+          userProfile,
+          shuffle: draw.audit,
+          moodBefore: mood,
+          createdAt: new Date(),
+        }),
+    });
+  };
+
+  const handleAskAnother = () => {
+    setReading(null);
+    setQuestion('');
+    setMoodBefore(undefined);
+  };
+
+  const allCardsRevealed = reading?.cards.every(c => c.isRevealed) ?? false;
+  const readingSpread = getSpreadById(reading?.spreadId);
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Header */}
+            <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => router.back()}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+              </TouchableOpacity>
+              <Text style={styles.title}>Ask the Cards</Text>
+              <View style={styles.headerSpacer} />
+            </Animated.View>
+
+            {!reading ? (
+              <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.askContainer}>
+                <Text style={styles.intro}>
+                  Hold your question in mind,{'\n'}then choose how the cards should answer.
+                </Text>
+                <View style={styles.questionInput}>
+                  <MysticalInput
+                    value={question}
+                    onChangeText={setQuestion}
+                    placeholder="What would you like to know?"
+                    maxLength={MAX_QUESTION_LENGTH}
+                    multiline
+                  />
+                </View>
+                <View style={styles.moodBefore}>
+                  <MoodCheckInCard
+                    title="How are you arriving?"
+                    checkIn={moodBefore}
+                    onChange={setMoodBefore}
+                  />
+                </View>
+                <SpreadPicker
+                  selectedSpreadId={selectedSpreadId}
+                  onSelect={setSelectedSpreadId}
+                />
+                <GoldButton
+                  title="Ask the Cards"
+                  onPress={handleAsk}
+                  loading={isGenerating}
+                  disabled={!question.trim()}
+                />
+              </Animated.View>
+            ) : (
+              <>
+                {/* Question */}
+                <Animated.View entering={FadeIn.duration(600)} style={styles.questionContainer}>
+                  <Text style={styles.questionLabel}>Your Question</Text>
+                  <Text style={styles.questionText}>&ldquo;{reading.question}&rdquo;</Text>
+                </Animated.View>
+
+                {/* Cards Spread */}
+                <Animated.View
+                  entering={FadeInUp.delay(200).duration(600)}
+                  style={styles.cardsContainer}
+                >
+                  <Text style={styles.spreadName}>{readingSpread.name}</Text>
+                  <SpreadLayout
+                    spread={readingSpread}
+                    cards={reading.cards}
+                    cardImages={cardImages}
+                    generatingCardIds={generatingCardIds}
+                    onRevealCard={revealCard}
+                  />
+                  {!allCardsRevealed && (
+                    <Text style={styles.tapHint}>Tap a card to reveal its message.</Text>
+                  )}
+                </Animated.View>
+
+                {/* Position Insights */}
+                {readingSpread.layout.rows > 1 && reading.cards.some(c => c.isRevealed) && (
+                  <View style={styles.insightsContainer}>
+                    {readingSpread.positions.map(position => {
+                      const cardReading = reading.cards.find(c => c.position === position.id);
+                      if (!cardReading?.isRevealed) return null;
+                      return (
+                        <View key={position.id} style={styles.insightRow}>
+                          <Text style={styles.insightLabel}>
+                            {position.label} · {getCardDisplayName(cardReading.card, cardReading.isReversed)}
+                          </Text>
+                          <Text style={styles.insightText}>{cardReading.shortDescription}</Text>
+                        </View>
+                      );
+                    })}
+                  </View>
+                )}
+
+                {/* Answer */}
+                {allCardsRevealed && (
+                  <Animated.View
+                    entering={FadeInUp.delay(400).duration(600)}
+                    style={styles.explanationContainer}
+                  >
+                    <LinearGradient
+                      colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+                      style={styles.explanationGradient}
+                    >
+                      <Text style={styles.explanationTitle}>✨ The Cards Answer ✨</Text>
+                      <FormattedText
+                        text={reading.mainExplanation}
+                        baseStyle={styles.explanationText}
+                      />
+                    </LinearGradient>
+                  </Animated.View>
+                )}
+
+                {allCardsRevealed && (
+                  <Animated.View
+                    entering={FadeInUp.delay(450).duration(600)}
+                    style={styles.clarifierContainer}
+                  >
+                    <MoodCheckInCard
+                      title="How do you feel now?"
+                      checkIn={reading.moodAfter}
+                      onChange={saveMoodAfter}
+                    />
+                  </Animated.View>
+                )}
+
+                {allCardsRevealed && (
+                  <Animated.View
+                    entering={FadeInUp.delay(500).duration(600)}
+                    style={styles.clarifierContainer}
+                  >
+                    <ClarifierPanel reading={reading} onUpdate={updateReading} />
+                  </Animated.View>
+                )}
+
+                {allCardsRevealed && (
+                  <Animated.View
+                    entering={FadeInUp.delay(600).duration(600)}
+                    style={styles.actions}
+                  >
+                    <GoldButton
+                      title="Ask Another Question"
+                      onPress={handleAskAnother}
+                      icon="help-circle-outline"
+                    />
+                    <GoldButton
+                      title="View in Journal"
+                      variant="outline"
+                      onPress={() => router.push('/(tabs)/journal')}
+                      icon="book-outline"
+                    />
+                  </Animated.View>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  askContainer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.lg,
+  },
+  intro: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 26,
+  },
+  questionInput: {
+    marginVertical: Spacing.lg,
+  },
+  moodBefore: {
+    marginBottom: Spacing.lg,
+  },
+  questionContainer: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    alignItems: 'center',
+  },
+  questionLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.xs,
+  },
+  questionText: {
+    fontSize: 18,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.heading,
+    textAlign: 'center',
+    lineHeight: 26,
+  },
+  cardsContainer: {
+    paddingHorizontal: Spacing.md,
+  },
+  spreadName: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.md,
+  },
+  tapHint: {
+    textAlign: 'center',
+    color: Colors.moonlightGray,
+    fontSize: 14,
+    fontFamily: 'System',
+    marginTop: Spacing.xl,
+    fontStyle: 'italic',
+  },
+  insightsContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+    gap: Spacing.md,
+  },
+  insightRow: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  insightLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.xs,
+  },
+  insightText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
+  explanationContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+  },
+  clarifierContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+  },
+  explanationGradient: {
+    borderRadius: BorderRadius.lg + 4,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.25)',
+    paddingVertical: Spacing.xl,
+    paddingHorizontal: Spacing.lg + 4,
+  },
+  explanationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Fonts.body,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
+    letterSpacing: 0.5,
+  },
+  explanationText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 26,
+    textAlign: 'left',
+    letterSpacing: 0.2,
+  },
+  actions: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.xl,
+    gap: Spacing.md,
+  },
+});
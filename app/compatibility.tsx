@@ -0,0 +1,455 @@
+// Compatibility Screen - Synastry and numerology comparison with a partner
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, useFocusEffect } from 'expo-router';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import { useTextGeneration } from '@fastshot/ai';
+import GradientBackground from '@/components/GradientBackground';
+import GoldButton from '@/components/GoldButton';
+import FormattedText from '@/components/FormattedText';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import {
+  getUserProfile,
+  getPartnerProfile,
+  getCompatibilityAnalysis,
+  saveCompatibilityAnalysis,
+} from '@/utils/storage';
+import { calculateCompatibility, getCompatibilityPairKey } from '@/utils/compatibility';
+import { formatBirthDetails } from '@/services/readingService';
+import { UserProfile, PartnerProfile, CompatibilityReport } from '@/types';
+
+export default function CompatibilityScreen() {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [partner, setPartner] = useState<PartnerProfile | null>(null);
+  const [report, setReport] = useState<CompatibilityReport | null>(null);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Pair the narrative is being generated for (avoids stale closure)
+  const pendingPairKeyRef = useRef<string | null>(null);
+
+  const { generateText } = useTextGeneration({
+    onSuccess: async (text) => {
+      const trimmed = text?.trim();
+      const pairKey = pendingPairKeyRef.current;
+      if (trimmed && pairKey) {
+        setNarrative(trimmed);
+        await saveCompatibilityAnalysis({
+          pairKey,
+          narrative: trimmed,
+          createdAt: new Date(),
+        });
+      }
+      setIsGenerating(false);
+    },
+    onError: (error) => {
+      console.error('Compatibility narrative failed:', error);
+      setIsGenerating(false);
+    },
+  });
+
+  // Reload on focus so partner changes made on the profile screen show up
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const loadData = async () => {
+    try {
+      const [userProfile, partnerProfile, storedAnalysis] = await Promise.all([
+        getUserProfile(),
+        getPartnerProfile(),
+        getCompatibilityAnalysis(),
+      ]);
+      setProfile(userProfile);
+      setPartner(partnerProfile);
+
+      if (userProfile && partnerProfile) {
+        setReport(calculateCompatibility(userProfile, partnerProfile));
+
+        // Only reuse a narrative written for this exact pair
+        const pairKey = getCompatibilityPairKey(userProfile, partnerProfile);
+        setNarrative(storedAnalysis?.pairKey === pairKey ? storedAnalysis.narrative : null);
+      } else {
+        setReport(null);
+      }
+    } catch (error) {
+      console.error('Error loading compatibility data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateNarrative = () => {
+    if (!profile || !partner || !report) return;
+    setIsGenerating(true);
+    pendingPairKeyRef.current = getCompatibilityPairKey(profile, partner);
+
+    const [personA, personB] = report.people;
+    const factorLines = report.factors
+      .map(factor => `- ${factor.label} (${factor.pairing}): ${factor.score}/100 - ${factor.summary}`)
+      .join('\n');
+
+    const prompt = `You are a mystical astrologer and numerologist. Write a compatibility reading for two partners.
+
+${personA.name}, ${formatBirthDetails(profile)}: Sun in ${personA.sunSign} (${personA.element}, ${personA.modality}), Life Path ${personA.lifePath}, Destiny ${personA.destiny}
+${personB.name}, ${formatBirthDetails(partner)}: Sun in ${personB.sunSign} (${personB.element}, ${personB.modality}), Life Path ${personB.lifePath}, Destiny ${personB.destiny}
+
+Score breakdown (overall ${report.overallScore}/100, "${report.label}"):
+${factorLines}
+
+Write 180-250 words of warm, honest prose addressed to ${personA.name.split(' ')[0]}. Cover where they naturally harmonise, where friction may arise, and practical guidance for growing together. Use proper paragraphs separated by newlines. Plain text only - no JSON, no headings, no markdown code blocks.`;
+
+    generateText(prompt);
+  };
+
+  const renderHeader = () => (
+    <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+      </TouchableOpacity>
+      <Text style={styles.title}>Compatibility</Text>
+      <View style={styles.headerSpacer} />
+    </Animated.View>
+  );
+
+  if (isLoading) {
+    return (
+      <GradientBackground>
+        <SafeAreaView style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.celestialGold} />
+        </SafeAreaView>
+      </GradientBackground>
+    );
+  }
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {renderHeader()}
+
+          {!report ? (
+            <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.emptyContainer}>
+              <Ionicons name="heart-half-outline" size={64} color={Colors.moonlightGray} />
+              <Text style={styles.emptyText}>
+                Add your partner&apos;s birth details on your profile{'\n'}to reveal how your stars align.
+              </Text>
+              <GoldButton
+                title="Add Your Partner"
+                onPress={() => router.push('/profile')}
+                icon="person-add-outline"
+              />
+            </Animated.View>
+          ) : (
+            <>
+              {/* Overall Score */}
+              <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.section}>
+                <LinearGradient
+                  colors={['rgba(221, 133, 216, 0.2)', 'rgba(221, 133, 216, 0.05)']}
+                  style={styles.scoreCard}
+                >
+                  <View style={styles.peopleRow}>
+                    {report.people.map((person, index) => (
+                      <React.Fragment key={person.name + index}>
+                        {index === 1 && (
+                          <Ionicons name="heart" size={20} color={Colors.celestialGold} />
+                        )}
+                        <View style={styles.person}>
+                          <Text style={styles.personName} numberOfLines={1}>
+                            {person.name.split(' ')[0]}
+                          </Text>
+                          <Text style={styles.personSign}>{person.sunSign}</Text>
+                        </View>
+                      </React.Fragment>
+                    ))}
+                  </View>
+                  <Text style={styles.scoreValue}>{report.overallScore}%</Text>
+                  <Text style={styles.scoreLabel}>{report.label}</Text>
+                </LinearGradient>
+              </Animated.View>
+
+              {/* Score Breakdown */}
+              <Animated.View entering={FadeInUp.delay(400).duration(600)} style={styles.section}>
+                <Text style={styles.sectionTitle}>Score Breakdown</Text>
+                {report.factors.map(factor => (
+                  <View key={factor.id} style={styles.factorCard}>
+                    <View style={styles.factorHeader}>
+                      <Text style={styles.factorLabel}>{factor.label}</Text>
+                      <Text style={styles.factorScore}>{factor.score}</Text>
+                    </View>
+                    <Text style={styles.factorPairing}>{factor.pairing}</Text>
+                    <View style={styles.progressBar}>
+                      <View style={[styles.progressFill, { width: `${factor.score}%` }]} />
+                    </View>
+                    <Text style={styles.factorSummary}>{factor.summary}</Text>
+                  </View>
+                ))}
+              </Animated.View>
+
+              {/* AI Narrative */}
+              <Animated.View entering={FadeInUp.delay(600).duration(600)} style={styles.section}>
+                <Text style={styles.sectionTitle}>Your Story in the Stars</Text>
+                {narrative ? (
+                  <>
+                    <LinearGradient
+                      colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+                      style={styles.narrativeContainer}
+                    >
+                      <FormattedText text={narrative} baseStyle={styles.narrativeText} />
+                    </LinearGradient>
+                    <TouchableOpacity
+                      style={styles.regenerateButton}
+                      onPress={handleGenerateNarrative}
+                      disabled={isGenerating}
+                      activeOpacity={0.7}
+                    >
+                      {isGenerating ? (
+                        <ActivityIndicator size="small" color={Colors.moonlightGray} />
+                      ) : (
+                        <>
+                          <Ionicons name="refresh" size={16} color={Colors.moonlightGray} />
+                          <Text style={styles.regenerateButtonText}>Regenerate Reading</Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <View style={styles.generateContainer}>
+                    <Text style={styles.generateText}>
+                      Let the oracle read the story your charts tell together.
+                    </Text>
+                    <GoldButton
+                      title="Reveal Our Reading"
+                      onPress={handleGenerateNarrative}
+                      loading={isGenerating}
+                    />
+                  </View>
+                )}
+              </Animated.View>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.xxl,
+    gap: Spacing.lg,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 24,
+  },
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.md,
+  },
+  scoreCard: {
+    alignItems: 'center',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.3)',
+  },
+  peopleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  person: {
+    alignItems: 'center',
+    maxWidth: 120,
+  },
+  personName: {
+    fontSize: 18,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+  },
+  personSign: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    marginTop: 2,
+  },
+  scoreValue: {
+    fontSize: 48,
+    fontWeight: '700',
+    fontFamily: Fonts.heading,
+    color: Colors.celestialGold,
+  },
+  scoreLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    fontFamily: Fonts.body,
+  },
+  factorCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  factorLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  factorScore: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.mono,
+  },
+  factorPairing: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    marginTop: 2,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: 'rgba(221, 133, 216, 0.2)',
+    borderRadius: 2,
+    overflow: 'hidden',
+    marginVertical: Spacing.sm,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.celestialGold,
+    borderRadius: 2,
+  },
+  factorSummary: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
+  narrativeContainer: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.25)',
+  },
+  narrativeText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 24,
+  },
+  regenerateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  regenerateButtonText: {
+    fontSize: 14,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+  },
+  generateContainer: {
+    alignItems: 'center',
+    gap: Spacing.lg,
+  },
+  generateText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,459 @@
+// Forecast Screen - Week, month and year ahead readings drawn once per period
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import SpreadLayout from '@/components/SpreadLayout';
+import GoldButton from '@/components/GoldButton';
+import FormattedText from '@/components/FormattedText';
+import ClarifierPanel from '@/components/ClarifierPanel';
+import MoodCheckInCard from '@/components/MoodCheckInCard';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { forecastSpreads, getSpreadById } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import {
+  getUserProfile,
+  getTodayDateString,
+  getForecastReading,
+  saveToHistory,
+} from '@/utils/storage';
+import { FORECAST_LABELS, getForecastPeriod, formatForecastPeriod } from '@/utils/forecast';
+import { buildReadingPrompt, buildForecastPromptOptions } from '@/services/readingService';
+import { useSpreadReading } from '@/hooks/useSpreadReading';
+import { UserProfile, ForecastType } from '@/types';
+
+const FORECAST_TABS: { value: ForecastType; label: string }[] = [
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+  { value: 'yearly', label: 'Year' },
+];
+
+export default function ForecastScreen() {
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [forecastType, setForecastType] = useState<ForecastType>('weekly');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const {
+    reading,
+    setReading,
+    isGenerating,
+    moodBefore,
+    setMoodBefore,
+    cardImages,
+    generatingCardIds,
+    loadCardImages,
+    startReading,
+    revealCard,
+    updateReading,
+    saveMoodAfter,
+  } = useSpreadReading({ saveReading: saveToHistory });
+
+  const period = getForecastPeriod(forecastType);
+
+  useEffect(() => {
+    getUserProfile().then(setUserProfile);
+  }, []);
+
+  // Show the forecast already drawn for the current period, if there is one
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+
+    getForecastReading(forecastType, getForecastPeriod(forecastType).key).then(async existing => {
+      if (!isActive) return;
+      setReading(existing);
+      await loadCardImages(existing?.cards ?? []);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [forecastType, setReading, loadCardImages]);
+
+  const handleDrawForecast = async () => {
+    if (!userProfile) return;
+
+    await startReading({
+      spread: forecastSpreads[forecastType],
+      buildPrompt: draw =>
+        buildReadingPrompt(draw, buildForecastPromptOptions(forecastType, period, userProfile)),
+      buildReading: (draw, { cards, mainExplanation }, mood) => ({
+        id: `reading_${forecastType}_${period.key}`,
+        type: forecastType,
+        date: getTodayDateString(),
+        period,
+        spreadId: draw.spread.id,
+        cards,
+        mainExplanation,
+        userProfile,
+        shuffle: draw.audit,
+        moodBefore: mood,
+        createdAt: new Date(),
+      }),
+    });
+  };
+
+  const allCardsRevealed = reading?.cards.every(c => c.isRevealed) ?? false;
+  const readingSpread = reading ? getSpreadById(reading.spreadId) : forecastSpreads[forecastType];
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Forecasts</Text>
+            <View style={styles.headerSpacer} />
+          </Animated.View>
+
+          {/* Period Tabs */}
+          <View style={styles.tabRow}>
+            {FORECAST_TABS.map(tab => (
+              <TouchableOpacity
+                key={tab.value}
+                style={[styles.tab, forecastType === tab.value && styles.tabActive]}
+                onPress={() => setForecastType(tab.value)}
+                disabled={isGenerating}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.tabText, forecastType === tab.value && styles.tabTextActive]}>
+                  {tab.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.periodContainer}>
+            <Text style={styles.periodLabel}>{FORECAST_LABELS[forecastType]}</Text>
+            <Text style={styles.periodText}>{formatForecastPeriod(forecastType, period)}</Text>
+          </View>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={Colors.celestialGold} />
+            </View>
+          ) : !reading ? (
+            <Animated.View entering={FadeInUp.duration(600)} style={styles.drawContainer}>
+              <Text style={styles.spreadName}>{readingSpread.name}</Text>
+              <Text style={styles.intro}>{readingSpread.description}</Text>
+              <Text style={styles.introNote}>
+                Your forecast is drawn once and stays with you until the period ends.
+              </Text>
+              <View style={styles.moodBefore}>
+                <MoodCheckInCard
+                  title="How are you arriving?"
+                  checkIn={moodBefore}
+                  onChange={setMoodBefore}
+                />
+              </View>
+              <GoldButton
+                title={`Draw My ${FORECAST_LABELS[forecastType]}`}
+                onPress={handleDrawForecast}
+                loading={isGenerating}
+                disabled={!userProfile}
+              />
+            </Animated.View>
+          ) : (
+            <>
+              {/* Cards Spread */}
+              <Animated.View
+                entering={FadeInUp.duration(600)}
+                style={styles.cardsContainer}
+              >
+                <Text style={styles.spreadName}>{readingSpread.name}</Text>
+                <SpreadLayout
+                  spread={readingSpread}
+                  cards={reading.cards}
+                  cardImages={cardImages}
+                  generatingCardIds={generatingCardIds}
+                  onRevealCard={revealCard}
+                />
+                {!allCardsRevealed && (
+                  <Text style={styles.tapHint}>Tap a card to reveal its message.</Text>
+                )}
+              </Animated.View>
+
+              {/* Position Insights */}
+              {readingSpread.layout.rows > 1 && reading.cards.some(c => c.isRevealed) && (
+                <View style={styles.insightsContainer}>
+                  {readingSpread.positions.map(position => {
+                    const cardReading = reading.cards.find(c => c.position === position.id);
+                    if (!cardReading?.isRevealed) return null;
+                    return (
+                      <View key={position.id} style={styles.insightRow}>
+                        <Text style={styles.insightLabel}>
+                          {position.label} · {getCardDisplayName(cardReading.card, cardReading.isReversed)}
+                        </Text>
+                        <Text style={styles.insightText}>{cardReading.shortDescription}</Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+
+              {/* Forecast Message */}
+              {allCardsRevealed && (
+                <Animated.View
+                  entering={FadeInUp.delay(400).duration(600)}
+                  style={styles.explanationContainer}
+                >
+                  <LinearGradient
+                    colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+                    style={styles.explanationGradient}
+                  >
+                    <Text style={styles.explanationTitle}>
+                      ✨ Your {FORECAST_LABELS[forecastType]} ✨
+                    </Text>
+                    <FormattedText
+                      text={reading.mainExplanation}
+                      baseStyle={styles.explanationText}
+                    />
+                  </LinearGradient>
+                </Animated.View>
+              )}
+
+              {/* Mood After */}
+              {allCardsRevealed && (
+                <Animated.View
+                  entering={FadeInUp.delay(450).duration(600)}
+                  style={styles.clarifierContainer}
+                >
+                  <MoodCheckInCard
+                    title="How do you feel now?"
+                    checkIn={reading.moodAfter}
+                    onChange={saveMoodAfter}
+                  />
+                </Animated.View>
+              )}
+
+              {/* Clarifiers */}
+              {allCardsRevealed && (
+                <Animated.View
+                  entering={FadeInUp.delay(500).duration(600)}
+                  style={styles.clarifierContainer}
+                >
+                  <ClarifierPanel reading={reading} onUpdate={updateReading} />
+                </Animated.View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  tabRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  tab: {
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  tabActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  tabText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  tabTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+  periodContainer: {
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  periodLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.xs,
+  },
+  periodText: {
+    fontSize: 18,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.heading,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    paddingVertical: Spacing.xxl,
+    alignItems: 'center',
+  },
+  drawContainer: {
+    paddingHorizontal: Spacing.xl,
+  },
+  intro: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 26,
+  },
+  introNote: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  moodBefore: {
+    marginBottom: Spacing.lg,
+  },
+  cardsContainer: {
+    paddingHorizontal: Spacing.md,
+  },
+  spreadName: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.md,
+  },
+  tapHint: {
+    textAlign: 'center',
+    color: Colors.moonlightGray,
+    fontSize: 14,
+    fontFamily: 'System',
+    marginTop: Spacing.xl,
+    fontStyle: 'italic',
+  },
+  insightsContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+    gap: Spacing.md,
+  },
+  insightRow: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  insightLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.xs,
+  },
+  insightText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
+  explanationContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+  },
+  clarifierContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.md,
+  },
+  explanationGradient: {
+    borderRadius: BorderRadius.lg + 4,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.25)',
+    paddingVertical: Spacing.xl,
+    paddingHorizontal: Spacing.lg + 4,
+  },
+  explanationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Fonts.body,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
+    letterSpacing: 0.5,
+  },
+  explanationText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 26,
+    textAlign: 'left',
+    letterSpacing: 0.2,
+  },
+});
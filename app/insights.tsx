@@ -0,0 +1,275 @@
+// Insights Screen - Patterns across the journal: frequent cards, suit and element balance
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import DistributionChart from '@/components/DistributionChart';
+import ArcanaRing from '@/components/ArcanaRing';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { tarotDeck } from '@/data/tarotDeck';
+import { getReadingHistory } from '@/utils/storage';
+import { ELEMENTS } from '@/utils/readingCalendar';
+import {
+  DistributionEntry,
+  getCardFrequencies,
+  getSuitDistribution,
+  getElementDistribution,
+  getArcanaDistribution,
+  getTotalCardsDrawn,
+  isSuitBalanceSkewed,
+  findRecurringCards,
+  formatRecurringCard,
+  RECURRENCE_WINDOW_DAYS,
+} from '@/utils/insights';
+import { DailyReading } from '@/types';
+
+// Cards shown in the most-frequent chart
+const TOP_CARD_COUNT = 8;
+
+const ELEMENT_COLORS: Record<string, string> = Object.fromEntries(
+  ELEMENTS.map(({ element, color }) => [element.toLowerCase(), color])
+);
+
+// Each suit shares the colour of the element it rules
+const SUIT_COLORS: Record<string, string> = Object.fromEntries(
+  ELEMENTS.map(({ suit, color }) => [suit.toLowerCase(), color])
+);
+
+export default function InsightsScreen() {
+  const [history, setHistory] = useState<DailyReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getReadingHistory()
+      .then(setHistory)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const totalCards = getTotalCardsDrawn(history);
+  const recurringCards = findRecurringCards(history);
+  const suitDistribution = getSuitDistribution(history);
+  const isSkewed = isSuitBalanceSkewed(suitDistribution);
+  const [majorEntry] = getArcanaDistribution(history);
+
+  const topCards: DistributionEntry[] = getCardFrequencies(history)
+    .slice(0, TOP_CARD_COUNT)
+    .map(({ card, count }) => ({
+      key: card.id.toString(),
+      label: card.name,
+      count,
+      observed: count / totalCards,
+      expected: 1 / tarotDeck.length,
+    }));
+
+  const getBalanceSummary = (): string => {
+    if (isSkewed === null) {
+      return 'Keep drawing - a few more readings are needed before the balance means much.';
+    }
+    return isSkewed
+      ? 'Your suits lean further from a fair deck than chance alone would explain.'
+      : 'Your suits sit within the normal variation of a fair, well-shuffled deck.';
+  };
+
+  const renderSection = (title: string, delay: number, children: React.ReactNode) => (
+    <Animated.View entering={FadeInUp.delay(delay).duration(600)} style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.sectionContent}>{children}</View>
+    </Animated.View>
+  );
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Insights</Text>
+            <View style={styles.headerSpacer} />
+          </Animated.View>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color={Colors.celestialGold} style={styles.loader} />
+          ) : totalCards === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="analytics-outline" size={64} color={Colors.moonlightGray} />
+              <Text style={styles.emptyText}>
+                Patterns appear as your journal grows.{'\n'}Draw a few readings to see them here.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <Text style={styles.summary}>
+                {history.length} reading{history.length === 1 ? '' : 's'} · {totalCards} cards drawn
+              </Text>
+
+              {renderSection(
+                'Recurring Cards',
+                100,
+                recurringCards.length > 0 ? (
+                  recurringCards.map(recurring => (
+                    <View key={recurring.card.id} style={styles.recurringRow}>
+                      <Ionicons name="repeat" size={16} color={Colors.celestialGold} />
+                      <Text style={styles.recurringText}>{formatRecurringCard(recurring)}</Text>
+                    </View>
+                  ))
+                ) : (
+                  <Text style={styles.hint}>
+                    No card has returned three times within {RECURRENCE_WINDOW_DAYS} days yet.
+                  </Text>
+                )
+              )}
+
+              {renderSection(
+                'Most Frequent Cards',
+                200,
+                <DistributionChart entries={topCards} showCounts />
+              )}
+
+              {renderSection(
+                'Suits',
+                300,
+                <>
+                  <DistributionChart entries={suitDistribution} colors={SUIT_COLORS} />
+                  <Text style={styles.hint}>{getBalanceSummary()}</Text>
+                </>
+              )}
+
+              {renderSection(
+                'Elements',
+                400,
+                <DistributionChart
+                  entries={getElementDistribution(history)}
+                  colors={ELEMENT_COLORS}
+                />
+              )}
+
+              {renderSection(
+                'Major vs Minor',
+                500,
+                <ArcanaRing majorShare={majorEntry.observed} expectedShare={majorEntry.expected} />
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  loader: {
+    marginTop: Spacing.xxl,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: Spacing.xxl,
+    paddingHorizontal: Spacing.lg,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+    lineHeight: 24,
+  },
+  summary: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
+  },
+  section: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  recurringRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  recurringText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+});
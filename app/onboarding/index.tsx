@@ -30,9 +30,10 @@ import TimeWheelPicker from '@/components/TimeWheelPicker';
 import GoldButton from '@/components/GoldButton';
 import TarotCard from '@/components/TarotCard';
 import { Colors, Spacing, Fonts } from '@/constants/theme';
-import { saveUserProfile, setOnboardingComplete } from '@/utils/storage';
+import { saveUserProfile, saveOnboardingFeelings, setOnboardingComplete } from '@/utils/storage';
+import { FEELING_OPTIONS } from '@/utils/moodTracking';
 import { registerForNotifications, scheduleDailyReminder } from '@/utils/notifications';
-import { UserProfile, OnboardingState } from '@/types';
+import { UserProfile, OnboardingState, Feeling } from '@/types';
 import { getCardById } from '@/data/tarotDeck';
 import { useCardImage } from '@/hooks/useCardImages';
 
@@ -102,13 +103,6 @@ const INTENT_OPTIONS = [
   { id: 'charts', label: 'Astrology & charts' },
 ];
 
-const FEELING_OPTIONS = [
-  { id: 'clarity', label: 'I want clarity' },
-  { id: 'confused', label: 'I feel confused' },
-  { id: 'stuck', label: 'I feel stuck' },
-  { id: 'hopeful', label: 'I feel hopeful' },
-];
-
 export default function OnboardingScreen() {
   const [state, setState] = useState<OnboardingState>({
     currentStep: 1,
@@ -164,6 +158,7 @@ export default function OnboardingScreen() {
           createdAt: new Date(),
         };
         await saveUserProfile(profile);
+        await saveOnboardingFeelings(state.feelings);
         await setOnboardingComplete(true);
 
         // Request notification permissions at the end of onboarding
@@ -199,7 +194,7 @@ export default function OnboardingScreen() {
     setState(prev => ({ ...prev, intent: intentId }));
   }, []);
 
-  const handleFeelingToggle = useCallback((feelingId: string) => {
+  const handleFeelingToggle = useCallback((feelingId: Feeling) => {
     setState(prev => {
       const isSelected = prev.feelings.includes(feelingId);
       if (isSelected) {
@@ -224,6 +219,7 @@ export default function OnboardingScreen() {
           createdAt: new Date(),
         };
         await saveUserProfile(profile);
+        await saveOnboardingFeelings(state.feelings);
         await setOnboardingComplete(true);
 
         const permissionGranted = await registerForNotifications();
@@ -546,7 +542,7 @@ export default function OnboardingScreen() {
               >
                 <TarotCard
                   card={highPriestessCard}
-                  position="present"
+                  positionLabel="Present"
                   isRevealed={true}
                   onPress={() => {}}
                   imageUri={highPriestessImageUri}
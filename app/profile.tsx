@@ -22,11 +22,19 @@ import GradientBackground from '@/components/GradientBackground';
 import MysticalInput from '@/components/MysticalInput';
 import DateWheelPicker from '@/components/DateWheelPicker';
 import TimeWheelPicker from '@/components/TimeWheelPicker';
+import PartnerProfileSection from '@/components/PartnerProfileSection';
+import BirthCardsSection from '@/components/BirthCardsSection';
 import { Colors, Spacing, BorderRadius, Shadows, Fonts } from '@/constants/theme';
-import { getUserProfile, saveUserProfile } from '@/utils/storage';
+import {
+  getUserProfile,
+  saveUserProfile,
+  getPartnerProfile,
+  savePartnerProfile,
+  removePartnerProfile,
+} from '@/utils/storage';
 import { getGenerationStats } from '@/utils/imageStorage';
 import { formatDateLong, getZodiacSign } from '@/utils/formatDate';
-import { UserProfile } from '@/types';
+import { UserProfile, PartnerProfile } from '@/types';
 
 const zodiacEmojis: Record<string, string> = {
   Aries: '\u2648',
@@ -45,6 +53,7 @@ const zodiacEmojis: Record<string, string> = {
 
 export default function ProfileScreen() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [partner, setPartner] = useState<PartnerProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -68,8 +77,12 @@ export default function ProfileScreen() {
 
   const loadProfile = async () => {
     try {
-      const userProfile = await getUserProfile();
+      const [userProfile, partnerProfile] = await Promise.all([
+        getUserProfile(),
+        getPartnerProfile(),
+      ]);
       setProfile(userProfile);
+      setPartner(partnerProfile);
       if (userProfile) {
         initializeEditState(userProfile);
       }
@@ -144,6 +157,16 @@ export default function ProfileScreen() {
     }
   }, [editName, editDateOfBirth, editTimeOfBirth, editPlaceOfBirth, profile]);
 
+  const handleSavePartner = async (updatedPartner: PartnerProfile) => {
+    await savePartnerProfile(updatedPartner);
+    setPartner(updatedPartner);
+  };
+
+  const handleRemovePartner = async () => {
+    await removePartnerProfile();
+    setPartner(null);
+  };
+
   const navigateToDeckGallery = () => {
     router.push('/deck-gallery');
   };
@@ -433,6 +456,28 @@ export default function ProfileScreen() {
                 </Animated.View>
               )}
 
+              {/* Partner Section - Only show when not editing */}
+              {!isEditing && (
+                <Animated.View entering={FadeInUp.delay(450).duration(600)}>
+                  <PartnerProfileSection
+                    partner={partner}
+                    onSave={handleSavePartner}
+                    onRemove={handleRemovePartner}
+                  />
+                </Animated.View>
+              )}
+
+              {/* Birth Cards Section - Only show when not editing */}
+              {!isEditing && profile && (
+                <Animated.View
+                  entering={FadeInUp.delay(475).duration(600)}
+                  style={styles.birthCardsSection}
+                >
+                  <Text style={styles.birthCardsTitle}>Your Tarot Cards</Text>
+                  <BirthCardsSection dateOfBirth={profile.dateOfBirth} />
+                </Animated.View>
+              )}
+
               {/* Deck of Destiny Section - Only show when not editing */}
               {!isEditing && (
                 <Animated.View
@@ -668,6 +713,18 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(221, 133, 216, 0.2)',
   },
+  birthCardsSection: {
+    paddingHorizontal: Spacing.lg,
+    marginTop: Spacing.lg,
+  },
+  birthCardsTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
   deckSection: {
     paddingHorizontal: Spacing.lg,
     marginTop: Spacing.md,
@@ -0,0 +1,333 @@
+// Recently Deleted Screen - Restore or permanently remove readings deleted from the journal
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import GoldButton from '@/components/GoldButton';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getSpreadById } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { formatDateLong } from '@/utils/formatDate';
+import { parseDateString } from '@/utils/forecast';
+import { rescheduleCheckBack } from '@/utils/checkBack';
+import {
+  DELETED_RETENTION_DAYS,
+  getDeletedReadings,
+  restoreReading,
+  deleteReadingPermanently,
+  emptyDeletedReadings,
+} from '@/utils/storage';
+import { DailyReading, DeletedReading } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysLeft = (deletedAt: string): number => {
+  const elapsedDays = Math.floor((Date.now() - new Date(deletedAt).getTime()) / DAY_MS);
+  return Math.max(0, DELETED_RETENTION_DAYS - elapsedDays);
+};
+
+export default function RecentlyDeletedScreen() {
+  const [deleted, setDeleted] = useState<DeletedReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadDeleted = async () => {
+    setDeleted(await getDeletedReadings());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadDeleted();
+  }, []);
+
+  const handleRestore = async (reading: DailyReading) => {
+    setBusyId(reading.id);
+    try {
+      await restoreReading(reading.id);
+      await rescheduleCheckBack(reading);
+      setDeleted(prev => prev.filter(d => d.reading.id !== reading.id));
+    } catch (error) {
+      console.error('Error restoring reading:', error);
+      Alert.alert('Restore Failed', 'Unable to restore this reading. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = (readingId: string) => {
+    Alert.alert(
+      'Delete Forever',
+      'This reading and your reflections on it will be gone for good.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(readingId);
+            try {
+              await deleteReadingPermanently(readingId);
+              setDeleted(prev => prev.filter(d => d.reading.id !== readingId));
+            } catch (error) {
+              console.error('Error deleting reading:', error);
+              Alert.alert('Delete Failed', 'Unable to delete this reading. Please try again.');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    Alert.alert(
+      'Empty Recently Deleted',
+      `All ${deleted.length} reading${deleted.length === 1 ? '' : 's'} will be gone for good.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyDeletedReadings();
+              setDeleted([]);
+            } catch (error) {
+              console.error('Error emptying deleted readings:', error);
+              Alert.alert('Delete Failed', 'Unable to empty the bin. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDeleted = ({ reading, deletedAt }: DeletedReading, index: number) => {
+    const daysLeft = getDaysLeft(deletedAt);
+    const isBusy = busyId === reading.id;
+    return (
+      <Animated.View
+        key={reading.id}
+        entering={FadeInUp.delay(100 + index * 50).duration(400)}
+        style={styles.itemCard}
+      >
+        <Text style={styles.itemDate}>{formatDateLong(parseDateString(reading.date))}</Text>
+        <Text style={styles.itemSpread}>{getSpreadById(reading.spreadId).name}</Text>
+        {reading.question && (
+          <Text style={styles.itemQuestion} numberOfLines={2}>
+            &ldquo;{reading.question}&rdquo;
+          </Text>
+        )}
+        <Text style={styles.itemCards} numberOfLines={2}>
+          {reading.cards.map(c => getCardDisplayName(c.card, c.isReversed)).join(' · ')}
+        </Text>
+        <Text style={styles.itemExpiry}>
+          {daysLeft === 0
+            ? 'Removed at the next purge'
+            : `Removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+        </Text>
+
+        <View style={styles.itemActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRestore(reading)}
+            disabled={isBusy}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="arrow-undo-outline" size={16} color={Colors.celestialGold} />
+            <Text style={styles.actionText}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDeleteForever(reading.id)}
+            disabled={isBusy}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="trash-outline" size={16} color={Colors.moonlightGray} />
+            <Text style={styles.actionTextMuted}>Delete Forever</Text>
+          </TouchableOpacity>
+        </View>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Recently Deleted</Text>
+            <View style={styles.headerSpacer} />
+          </Animated.View>
+
+          <Text style={styles.subtitle}>
+            Deleted readings are kept for {DELETED_RETENTION_DAYS} days before they are removed.
+          </Text>
+
+          {!isLoading && deleted.length === 0 && (
+            <Animated.View entering={FadeIn.duration(600)} style={styles.emptyContainer}>
+              <Ionicons name="trash-outline" size={48} color={Colors.moonlightGray} />
+              <Text style={styles.emptyText}>Nothing has been deleted recently.</Text>
+            </Animated.View>
+          )}
+
+          <View style={styles.section}>{deleted.map(renderDeleted)}</View>
+
+          {deleted.length > 0 && (
+            <View style={styles.section}>
+              <GoldButton title="Empty Now" variant="outline" icon="trash-outline" onPress={handleEmpty} />
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.sm,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+    marginHorizontal: Spacing.xl,
+    marginBottom: Spacing.lg,
+  },
+  section: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    gap: Spacing.md,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xxl,
+    gap: Spacing.md,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  itemCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  itemDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  itemSpread: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginTop: 2,
+  },
+  itemQuestion: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+  itemCards: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.sm,
+  },
+  itemExpiry: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.sm,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  actionText: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  actionTextMuted: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+  },
+});
@@ -0,0 +1,439 @@
+// Restore Screen - Validate a journal backup and merge it into this device's journal
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp, FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import GoldButton from '@/components/GoldButton';
+import MysticalInput from '@/components/MysticalInput';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { formatDateLong } from '@/utils/formatDate';
+import {
+  BackupValidation,
+  IMPORT_STRATEGIES,
+  SavedBackup,
+  validateBackup,
+  importBackup,
+  listSavedBackups,
+  readBackupFile,
+  pickBackupFile,
+} from '@/utils/journalImport';
+import { ImportStrategy } from '@/types';
+
+// Invalid records listed before the rest are summarised as a count
+const MAX_LISTED_INVALID = 5;
+
+export default function RestoreScreen() {
+  const [savedBackups, setSavedBackups] = useState<SavedBackup[]>([]);
+  const [pastedBackup, setPastedBackup] = useState('');
+  const [validation, setValidation] = useState<BackupValidation | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('keep-existing');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    listSavedBackups().then(setSavedBackups);
+  }, []);
+
+  const handleSelectFile = async (backup: SavedBackup) => {
+    try {
+      setValidation(validateBackup(await readBackupFile(backup.uri)));
+    } catch (error) {
+      console.error('Error reading backup file:', error);
+      Alert.alert('Unable to Read', 'This backup file could not be opened.');
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const contents = await pickBackupFile();
+      if (contents !== null) {
+        setValidation(validateBackup(contents));
+      }
+    } catch (error) {
+      console.error('Error picking backup file:', error);
+      Alert.alert('Unable to Read', 'This backup file could not be opened.');
+    }
+  };
+
+  const handleCheckPasted = () => {
+    if (!pastedBackup.trim()) return;
+    setValidation(validateBackup(pastedBackup.trim()));
+  };
+
+  const handleImport = async () => {
+    if (!validation?.backup) return;
+    setIsImporting(true);
+    try {
+      const summary = await importBackup(validation, strategy);
+      const lines = [
+        `${summary.added} reading${summary.added === 1 ? '' : 's'} added`,
+        summary.replaced > 0 ? `${summary.replaced} replaced` : null,
+        summary.skipped > 0 ? `${summary.skipped} already in your journal` : null,
+        summary.invalid > 0 ? `${summary.invalid} could not be read` : null,
+        summary.restoredProfile ? 'Profile restored' : null,
+      ].filter(Boolean);
+      Alert.alert('Backup Restored', lines.join('\n'), [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      Alert.alert('Restore Failed', 'Unable to restore this backup. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderValidation = () => {
+    if (!validation) return null;
+
+    if (!validation.backup) {
+      return (
+        <Animated.View entering={FadeInDown.duration(300)} style={styles.resultCard}>
+          <View style={styles.resultHeader}>
+            <Ionicons name="alert-circle" size={20} color={Colors.celestialGold} />
+            <Text style={styles.resultTitle}>Cannot Restore</Text>
+          </View>
+          {validation.errors.map(error => (
+            <Text key={error} style={styles.resultText}>{error}</Text>
+          ))}
+        </Animated.View>
+      );
+    }
+
+    const { backup, invalidRecords } = validation;
+    return (
+      <Animated.View entering={FadeInDown.duration(300)} style={styles.resultCard}>
+        <View style={styles.resultHeader}>
+          <Ionicons name="checkmark-circle" size={20} color={Colors.celestialGold} />
+          <Text style={styles.resultTitle}>Backup Checked</Text>
+        </View>
+        <Text style={styles.resultText}>
+          {backup.readings.length} reading{backup.readings.length === 1 ? '' : 's'} ready to restore
+          {backup.exportedAt ? ` · exported ${formatDateLong(new Date(backup.exportedAt))}` : ''}
+        </Text>
+        {backup.userProfile && (
+          <Text style={styles.resultText}>Includes the profile of {backup.userProfile.fullName}</Text>
+        )}
+
+        {invalidRecords.length > 0 && (
+          <View style={styles.invalidList}>
+            <Text style={styles.invalidTitle}>
+              {invalidRecords.length} record{invalidRecords.length === 1 ? '' : 's'} will be skipped
+            </Text>
+            {invalidRecords.slice(0, MAX_LISTED_INVALID).map(record => (
+              <Text key={record.index} style={styles.invalidText}>
+                #{record.index + 1}{record.id ? ` (${record.id})` : ''}: {record.reason}
+              </Text>
+            ))}
+            {invalidRecords.length > MAX_LISTED_INVALID && (
+              <Text style={styles.invalidText}>
+                and {invalidRecords.length - MAX_LISTED_INVALID} more
+              </Text>
+            )}
+          </View>
+        )}
+
+        <Text style={styles.label}>When a reading is already in your journal</Text>
+        {IMPORT_STRATEGIES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.strategyRow, strategy === option.value && styles.strategyRowActive]}
+            onPress={() => setStrategy(option.value)}
+            activeOpacity={0.8}
+          >
+            <Ionicons
+              name={strategy === option.value ? 'radio-button-on' : 'radio-button-off'}
+              size={18}
+              color={Colors.celestialGold}
+            />
+            <View style={styles.strategyContent}>
+              <Text style={styles.strategyLabel}>{option.label}</Text>
+              <Text style={styles.strategyDescription}>{option.description}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.actions}>
+          <GoldButton
+            title="Restore Backup"
+            onPress={handleImport}
+            loading={isImporting}
+            disabled={backup.readings.length === 0 && !backup.userProfile}
+            icon="cloud-download-outline"
+          />
+        </View>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Header */}
+          <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Restore</Text>
+            <View style={styles.headerSpacer} />
+          </Animated.View>
+
+          {/* Backup File */}
+          <Animated.View entering={FadeInUp.delay(100).duration(600)} style={styles.section}>
+            <Text style={styles.sectionTitle}>Backup File</Text>
+            <View style={styles.sectionContent}>
+              <Text style={styles.hint}>
+                Choose a JSON export from your files, wherever you kept it.
+              </Text>
+              <View style={styles.actions}>
+                <GoldButton
+                  title="Choose Backup File"
+                  onPress={handlePickFile}
+                  icon="folder-open-outline"
+                />
+              </View>
+            </View>
+          </Animated.View>
+
+          {/* Saved Backups */}
+          <Animated.View entering={FadeInUp.delay(150).duration(600)} style={styles.section}>
+            <Text style={styles.sectionTitle}>Saved Backups</Text>
+            <View style={styles.sectionContent}>
+              {savedBackups.length === 0 ? (
+                <Text style={styles.hint}>
+                  JSON exports made on this device will appear here.
+                </Text>
+              ) : (
+                savedBackups.map(backup => (
+                  <TouchableOpacity
+                    key={backup.uri}
+                    style={styles.fileRow}
+                    onPress={() => handleSelectFile(backup)}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="document-text-outline" size={20} color={Colors.celestialGold} />
+                    <View style={styles.fileInfo}>
+                      <Text style={styles.fileName} numberOfLines={1}>{backup.name}</Text>
+                      {backup.modifiedAt && (
+                        <Text style={styles.fileDate}>{formatDateLong(backup.modifiedAt)}</Text>
+                      )}
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={Colors.moonlightGray} />
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          </Animated.View>
+
+          {/* Pasted Backup */}
+          <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.section}>
+            <Text style={styles.sectionTitle}>Paste a Backup</Text>
+            <View style={styles.sectionContent}>
+              <MysticalInput
+                value={pastedBackup}
+                onChangeText={setPastedBackup}
+                placeholder="Paste the contents of a JSON export"
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <View style={styles.actions}>
+                <GoldButton
+                  title="Check Backup"
+                  variant="outline"
+                  onPress={handleCheckPasted}
+                  disabled={!pastedBackup.trim()}
+                />
+              </View>
+            </View>
+          </Animated.View>
+
+          <View style={styles.section}>{renderValidation()}</View>
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  section: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.sm,
+  },
+  sectionContent: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  fileDate: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  actions: {
+    marginTop: Spacing.md,
+  },
+  resultCard: {
+    backgroundColor: 'rgba(221, 133, 216, 0.08)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.25)',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  resultText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 22,
+  },
+  invalidList: {
+    marginTop: Spacing.md,
+    paddingLeft: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  invalidTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    marginBottom: Spacing.xs,
+  },
+  invalidText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 18,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  strategyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    marginBottom: Spacing.xs,
+  },
+  strategyRowActive: {
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+    backgroundColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  strategyContent: {
+    flex: 1,
+  },
+  strategyLabel: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  strategyDescription: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+});
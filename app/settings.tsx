@@ -29,6 +29,29 @@ import {
   saveHapticPreference,
   triggerHaptic,
 } from '@/utils/haptics';
+import {
+  DEFAULT_REVERSAL_PREFERENCE,
+  getReversalPreference,
+  saveReversalPreference,
+  getReversalProbability,
+} from '@/utils/reversals';
+import {
+  CHECK_BACK_DAY_OPTIONS,
+  DEFAULT_CHECK_BACK_DAYS,
+  getCheckBackDays,
+  saveCheckBackDays,
+} from '@/utils/checkBack';
+import { EXPORT_FORMATS, exportJournal } from '@/utils/journalExport';
+import { ReversalMode, ReversalPreference, ExportFormat } from '@/types';
+
+const REVERSAL_OPTIONS: { mode: ReversalMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'classic', label: 'Classic 50%' },
+  { mode: 'custom', label: 'Custom' },
+];
+
+// Step used by the custom reversal probability controls
+const REVERSAL_STEP = 0.05;
 
 interface SettingItemProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -82,13 +105,48 @@ export default function SettingsScreen() {
   const [isTogglingNotifications, setIsTogglingNotifications] = useState(false);
   const [isLoadingHaptics, setIsLoadingHaptics] = useState(true);
   const [isSendingTest, setIsSendingTest] = useState(false);
+  const [reversals, setReversals] = useState<ReversalPreference>(DEFAULT_REVERSAL_PREFERENCE);
+  const [checkBackDays, setCheckBackDays] = useState(DEFAULT_CHECK_BACK_DAYS);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
 
   // Check notification and haptic status on mount
   useEffect(() => {
     checkInitialNotificationStatus();
     checkInitialHapticStatus();
+    getReversalPreference().then(setReversals);
+    getCheckBackDays().then(setCheckBackDays);
   }, []);
 
+  const handleReversalChange = useCallback(async (preference: ReversalPreference) => {
+    setReversals(preference);
+    await saveReversalPreference(preference);
+  }, []);
+
+  const handleCheckBackDaysChange = useCallback(async (days: number) => {
+    setCheckBackDays(days);
+    await saveCheckBackDays(days);
+  }, []);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      await exportJournal(format);
+    } catch (error) {
+      console.error('Error exporting journal:', error);
+      Alert.alert('Export Failed', 'Unable to export your journal. Please try again.');
+    } finally {
+      setExportingFormat(null);
+    }
+  }, []);
+
+  const adjustCustomReversal = (delta: number) => {
+    const next = Math.round((reversals.customProbability + delta) * 100) / 100;
+    handleReversalChange({
+      ...reversals,
+      customProbability: Math.min(1, Math.max(0, next)),
+    });
+  };
+
   const checkInitialHapticStatus = async () => {
     setIsLoadingHaptics(true);
     try {
@@ -377,6 +435,136 @@ export default function SettingsScreen() {
                   )
                 }
               />
+              <SettingItem
+                icon="swap-vertical"
+                title="Reversed Cards"
+                subtitle={
+                  reversals.mode === 'off'
+                    ? 'All cards are drawn upright'
+                    : `${Math.round(getReversalProbability(reversals) * 100)}% chance each card is reversed`
+                }
+                showArrow={false}
+              />
+              <View style={styles.optionRow}>
+                {REVERSAL_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.mode}
+                    style={[
+                      styles.optionChip,
+                      reversals.mode === option.mode && styles.optionChipActive,
+                    ]}
+                    onPress={() => handleReversalChange({ ...reversals, mode: option.mode })}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        reversals.mode === option.mode && styles.optionChipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {reversals.mode === 'custom' && (
+                <View style={styles.reversalStepper}>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => adjustCustomReversal(-REVERSAL_STEP)}
+                    disabled={reversals.customProbability <= 0}
+                  >
+                    <Ionicons name="remove" size={18} color={Colors.celestialGold} />
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {Math.round(reversals.customProbability * 100)}%
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => adjustCustomReversal(REVERSAL_STEP)}
+                    disabled={reversals.customProbability >= 1}
+                  >
+                    <Ionicons name="add" size={18} color={Colors.celestialGold} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              <SettingItem
+                icon="time-outline"
+                title="Check Back"
+                subtitle={
+                  checkBackDays === 0
+                    ? 'No follow-ups after readings'
+                    : `Ask whether the future card played out after ${checkBackDays} days`
+                }
+                showArrow={false}
+              />
+              <View style={styles.optionRow}>
+                {CHECK_BACK_DAY_OPTIONS.map(days => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[
+                      styles.optionChip,
+                      checkBackDays === days && styles.optionChipActive,
+                    ]}
+                    onPress={() => handleCheckBackDaysChange(days)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        checkBackDays === days && styles.optionChipTextActive,
+                      ]}
+                    >
+                      {days === 0 ? 'Off' : `${days}d`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </Animated.View>
+
+          {/* Journal Data Section */}
+          <Animated.View
+            entering={FadeInUp.delay(350).duration(600)}
+            style={styles.section}
+          >
+            <Text style={styles.sectionTitle}>Journal Data</Text>
+            <View style={styles.sectionContent}>
+              <SettingItem
+                icon="download-outline"
+                title="Export Journal"
+                subtitle="Readings, notes and reflections as a file"
+                showArrow={false}
+              />
+              <View style={styles.optionRow}>
+                {EXPORT_FORMATS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={styles.optionChip}
+                    onPress={() => handleExport(option.value)}
+                    disabled={exportingFormat !== null}
+                    activeOpacity={0.7}
+                  >
+                    {exportingFormat === option.value ? (
+                      <ActivityIndicator size="small" color={Colors.celestialGold} />
+                    ) : (
+                      <Text style={styles.optionChipText}>{option.label}</Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <SettingItem
+                icon="cloud-upload-outline"
+                title="Restore Backup"
+                subtitle="Bring back readings from a JSON export"
+                onPress={() => router.push('/restore')}
+              />
+              <SettingItem
+                icon="trash-outline"
+                title="Recently Deleted"
+                subtitle="Restore readings removed from your journal"
+                onPress={() => router.push('/recently-deleted')}
+              />
             </View>
           </Animated.View>
 
@@ -562,6 +750,54 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginLeft: Spacing.xs,
   },
+  optionRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  optionChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  optionChipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  optionChipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+  reversalStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(221, 133, 216, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 18,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.mono,
+    minWidth: 56,
+    textAlign: 'center',
+  },
   footer: {
     alignItems: 'center',
     paddingVertical: Spacing.xl,
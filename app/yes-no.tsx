@@ -0,0 +1,415 @@
+// Yes / No Oracle Screen - One card answers a simple question
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Keyboard,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import Animated, { FadeIn, FadeInUp, ZoomIn } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import GradientBackground from '@/components/GradientBackground';
+import MysticalInput from '@/components/MysticalInput';
+import TarotCard from '@/components/TarotCard';
+import GoldButton from '@/components/GoldButton';
+import MoodCheckInCard from '@/components/MoodCheckInCard';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { yesNoSpread } from '@/data/spreads';
+import { getYesNoAnswer, yesNoLabels } from '@/data/tarotDeck';
+import {
+  getUserProfile,
+  getTodayDateString,
+  saveToHistory,
+  saveMoodCheckIn,
+} from '@/utils/storage';
+import { getCardImageUri } from '@/utils/imageStorage';
+import { hapticSuccess } from '@/utils/haptics';
+import { trackReadingCompletion } from '@/utils/rating';
+import { generateCardImage } from '@/services/cardImageService';
+import { drawSpread, explainYesNo } from '@/services/readingService';
+import { UserProfile, DailyReading, MoodCheckIn } from '@/types';
+
+const MAX_QUESTION_LENGTH = 200;
+
+export default function YesNoScreen() {
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [question, setQuestion] = useState('');
+  const [reading, setReading] = useState<DailyReading | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [cardImage, setCardImage] = useState<string | null>(null);
+  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [moodBefore, setMoodBefore] = useState<MoodCheckIn | undefined>();
+
+  useEffect(() => {
+    getUserProfile().then(setUserProfile);
+  }, []);
+
+  const handleDraw = async () => {
+    const trimmedQuestion = question.trim();
+    if (!trimmedQuestion) {
+      Alert.alert('Question Required', 'Please write a yes or no question for the cards.');
+      return;
+    }
+    if (!userProfile) return;
+
+    Keyboard.dismiss();
+    setIsDrawing(true);
+    try {
+      const draw = await drawSpread(yesNoSpread);
+      const { card, isReversed } = draw.cards[0];
+      const verdict = getYesNoAnswer(card, isReversed);
+      const rationale = explainYesNo(card, isReversed, verdict);
+
+      const newReading: DailyReading = {
+        id: `reading_yesno_${Date.now()}`,
+        type: 'yes-no',
+        date: getTodayDateString(),
+        question: trimmedQuestion,
+        verdict,
+        spreadId: yesNoSpread.id,
+        cards: [{
+          card,
+          position: yesNoSpread.positions[0].id,
+          isReversed,
+          isRevealed: false,
+          shortDescription: rationale,
+        }],
+        mainExplanation: rationale,
+        userProfile,
+        shuffle: draw.audit,
+        moodBefore,
+        createdAt: new Date(),
+      };
+
+      await saveToHistory(newReading);
+      await trackReadingCompletion();
+      setCardImage(await getCardImageUri(card.id));
+      setReading(newReading);
+    } catch (error) {
+      console.error('Error drawing yes/no card:', error);
+      Alert.alert('Draw Failed', 'The cards could not be drawn. Please try again.');
+    } finally {
+      setIsDrawing(false);
+    }
+  };
+
+  const revealCard = async () => {
+    if (!reading) return;
+
+    const updatedReading = {
+      ...reading,
+      cards: [{ ...reading.cards[0], isRevealed: true }],
+    };
+    setReading(updatedReading);
+    hapticSuccess();
+
+    try {
+      await saveToHistory(updatedReading);
+    } catch (error) {
+      console.error('Error saving revealed card:', error);
+      Alert.alert('Save Failed', 'Unable to save this reading to your journal. Please try again.');
+    }
+
+    // Generate the card's artwork if it has not been created yet
+    if (!cardImage) {
+      setIsGeneratingImage(true);
+      try {
+        const uri = await generateCardImage(updatedReading.cards[0].card);
+        if (uri) setCardImage(uri);
+      } catch (error) {
+        console.error('Error generating yes/no card image:', error);
+      } finally {
+        setIsGeneratingImage(false);
+      }
+    }
+  };
+
+  // Check in once the answer has been taken in; changes are saved as they're made
+  const handleMoodAfter = async (checkIn: MoodCheckIn | undefined) => {
+    if (!reading) return;
+    setReading({ ...reading, moodAfter: checkIn });
+    try {
+      await saveMoodCheckIn(reading.id, 'after', checkIn);
+    } catch (error) {
+      console.error('Error saving mood check-in:', error);
+      Alert.alert('Save Failed', 'Unable to save your check-in. Please try again.');
+    }
+  };
+
+  const handleAskAnother = () => {
+    setReading(null);
+    setQuestion('');
+    setMoodBefore(undefined);
+    setCardImage(null);
+  };
+
+  const cardReading = reading?.cards[0];
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Header */}
+            <Animated.View entering={FadeIn.duration(600)} style={styles.header}>
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => router.back()}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="chevron-back" size={28} color={Colors.celestialGold} />
+              </TouchableOpacity>
+              <Text style={styles.title}>Yes or No</Text>
+              <View style={styles.headerSpacer} />
+            </Animated.View>
+
+            {!reading || !cardReading ? (
+              <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.askContainer}>
+                <Text style={styles.intro}>
+                  Ask a question the cards can answer{'\n'}with a simple yes or no.
+                </Text>
+                <View style={styles.questionInput}>
+                  <MysticalInput
+                    value={question}
+                    onChangeText={setQuestion}
+                    placeholder="Will I...?"
+                    maxLength={MAX_QUESTION_LENGTH}
+                    multiline
+                  />
+                </View>
+                <View style={styles.moodBefore}>
+                  <MoodCheckInCard
+                    title="How are you arriving?"
+                    checkIn={moodBefore}
+                    onChange={setMoodBefore}
+                  />
+                </View>
+                <GoldButton
+                  title="Draw a Card"
+                  onPress={handleDraw}
+                  loading={isDrawing}
+                  disabled={!question.trim()}
+                />
+              </Animated.View>
+            ) : (
+              <>
+                {/* Question */}
+                <Animated.View entering={FadeIn.duration(600)} style={styles.questionContainer}>
+                  <Text style={styles.questionLabel}>Your Question</Text>
+                  <Text style={styles.questionText}>&ldquo;{reading.question}&rdquo;</Text>
+                </Animated.View>
+
+                {/* Card */}
+                <Animated.View entering={FadeInUp.delay(200).duration(600)} style={styles.cardContainer}>
+                  <TarotCard
+                    card={cardReading.card}
+                    isRevealed={cardReading.isRevealed}
+                    isReversed={cardReading.isReversed}
+                    onPress={revealCard}
+                    imageUri={cardImage}
+                    isGenerating={isGeneratingImage}
+                  />
+                  {!cardReading.isRevealed && (
+                    <Text style={styles.tapHint}>Tap the card to receive your answer.</Text>
+                  )}
+                </Animated.View>
+
+                {/* Verdict */}
+                {cardReading.isRevealed && reading.verdict && (
+                  <Animated.View entering={ZoomIn.delay(300).duration(500)} style={styles.verdictContainer}>
+                    <LinearGradient
+                      colors={['rgba(221, 133, 216, 0.2)', 'rgba(221, 133, 216, 0.05)']}
+                      style={styles.verdictGradient}
+                    >
+                      <Text style={styles.verdictLabel}>The cards say</Text>
+                      <Text style={styles.verdictText}>{yesNoLabels[reading.verdict]}</Text>
+                      <Text style={styles.rationaleText}>{reading.mainExplanation}</Text>
+                    </LinearGradient>
+                  </Animated.View>
+                )}
+
+                {cardReading.isRevealed && (
+                  <Animated.View entering={FadeInUp.delay(450).duration(600)} style={styles.moodAfter}>
+                    <MoodCheckInCard
+                      title="How do you feel now?"
+                      checkIn={reading.moodAfter}
+                      onChange={handleMoodAfter}
+                    />
+                  </Animated.View>
+                )}
+
+                {cardReading.isRevealed && (
+                  <Animated.View entering={FadeInUp.delay(600).duration(600)} style={styles.actions}>
+                    <GoldButton
+                      title="Ask Another Question"
+                      onPress={handleAskAnother}
+                      icon="help-circle-outline"
+                    />
+                    <GoldButton
+                      title="View in Journal"
+                      variant="outline"
+                      onPress={() => router.push('/(tabs)/journal')}
+                      icon="book-outline"
+                    />
+                  </Animated.View>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: Spacing.xxl,
+  },
+  header: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: Spacing.lg,
+  },
+  backButton: {
+    position: 'absolute',
+    left: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    position: 'absolute',
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+  },
+  askContainer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.lg,
+  },
+  intro: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 26,
+  },
+  questionInput: {
+    marginVertical: Spacing.lg,
+  },
+  moodBefore: {
+    marginBottom: Spacing.lg,
+  },
+  questionContainer: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    alignItems: 'center',
+  },
+  questionLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.xs,
+  },
+  questionText: {
+    fontSize: 18,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.heading,
+    textAlign: 'center',
+    lineHeight: 26,
+  },
+  cardContainer: {
+    alignItems: 'center',
+  },
+  tapHint: {
+    textAlign: 'center',
+    color: Colors.moonlightGray,
+    fontSize: 14,
+    fontFamily: 'System',
+    marginTop: Spacing.xl,
+    fontStyle: 'italic',
+  },
+  verdictContainer: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.lg,
+  },
+  moodAfter: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.lg,
+  },
+  verdictGradient: {
+    alignItems: 'center',
+    borderRadius: BorderRadius.lg + 4,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.3)',
+    paddingVertical: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+  verdictLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  verdictText: {
+    fontSize: 48,
+    fontWeight: '700',
+    fontFamily: Fonts.heading,
+    color: Colors.celestialGold,
+    marginVertical: Spacing.sm,
+  },
+  rationaleText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 22,
+    textAlign: 'center',
+  },
+  actions: {
+    marginTop: Spacing.xl,
+    marginHorizontal: Spacing.xl,
+    gap: Spacing.md,
+  },
+});
@@ -0,0 +1,125 @@
+// Arcana Ring - Donut showing the share of major arcana among drawn cards
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import Svg, { Circle, Line } from 'react-native-svg';
+import { Colors, Spacing, Fonts } from '@/constants/theme';
+
+const SIZE = 120;
+const STROKE = 14;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface Props {
+  majorShare: number; // 0-1
+  expectedShare: number; // 0-1, from a fair deck
+}
+
+export default function ArcanaRing({ majorShare, expectedShare }: Props) {
+  // Point on the ring where a fair deck's share would end, measured clockwise from the top
+  const angle = expectedShare * 2 * Math.PI - Math.PI / 2;
+  const markerInner = RADIUS - STROKE / 2;
+  const markerOuter = RADIUS + STROKE / 2;
+  const center = SIZE / 2;
+
+  return (
+    <View style={styles.container}>
+      <View>
+        <Svg width={SIZE} height={SIZE}>
+          <Circle
+            cx={center}
+            cy={center}
+            r={RADIUS}
+            stroke="rgba(192, 192, 192, 0.25)"
+            strokeWidth={STROKE}
+            fill="none"
+          />
+          <Circle
+            cx={center}
+            cy={center}
+            r={RADIUS}
+            stroke={Colors.celestialGold}
+            strokeWidth={STROKE}
+            strokeDasharray={`${majorShare * CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+            fill="none"
+            transform={`rotate(-90 ${center} ${center})`}
+          />
+          <Line
+            x1={center + markerInner * Math.cos(angle)}
+            y1={center + markerInner * Math.sin(angle)}
+            x2={center + markerOuter * Math.cos(angle)}
+            y2={center + markerOuter * Math.sin(angle)}
+            stroke={Colors.textPrimary}
+            strokeWidth={2}
+          />
+        </Svg>
+        <View style={styles.centerLabel}>
+          <Text style={styles.percent}>{Math.round(majorShare * 100)}%</Text>
+          <Text style={styles.caption}>Major</Text>
+        </View>
+      </View>
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>
+          <Text style={styles.legendMajor}>Major Arcana </Text>
+          {Math.round(majorShare * 100)}%
+        </Text>
+        <Text style={styles.legendText}>
+          <Text style={styles.legendMinor}>Minor Arcana </Text>
+          {Math.round((1 - majorShare) * 100)}%
+        </Text>
+        <Text style={styles.legendHint}>
+          A fair deck gives {Math.round(expectedShare * 100)}% major (white mark).
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.lg,
+  },
+  centerLabel: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  percent: {
+    fontSize: 22,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.heading,
+  },
+  caption: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  legend: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  legendText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  legendMajor: {
+    color: Colors.celestialGold,
+  },
+  legendMinor: {
+    color: Colors.stardustSilver,
+  },
+  legendHint: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,163 @@
+// Birth Cards Section - The seeker's tarot birth cards and personal year card
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { Image } from 'expo-image';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getCardImageUri, resolveCardImageSource } from '@/utils/imageStorage';
+import { getBirthCards, getPersonalYearCard } from '@/utils/birthCards';
+import { calculateBirthCardNumbers, calculatePersonalYearCardNumber } from '@/utils/numerology';
+import { TarotCard } from '@/types';
+
+const CARD_IMAGE_WIDTH = 64;
+
+interface Props {
+  dateOfBirth: Date;
+}
+
+export default function BirthCardsSection({ dateOfBirth }: Props) {
+  const [cardImages, setCardImages] = useState<Record<number, string | null>>({});
+
+  const year = new Date().getFullYear();
+  const birthNumbers = calculateBirthCardNumbers(dateOfBirth);
+  const birthCards = getBirthCards(dateOfBirth);
+  const yearNumber = calculatePersonalYearCardNumber(dateOfBirth, year);
+  const yearCard = getPersonalYearCard(dateOfBirth, year);
+
+  const birthTime = dateOfBirth.getTime();
+
+  useEffect(() => {
+    let isActive = true;
+    const loadImages = async () => {
+      const birthDate = new Date(birthTime);
+      const cards = [...getBirthCards(birthDate), getPersonalYearCard(birthDate, year)];
+      const images: Record<number, string | null> = {};
+      for (const card of cards) {
+        images[card.id] = await getCardImageUri(card.id);
+      }
+      if (isActive) setCardImages(images);
+    };
+    loadImages();
+    return () => {
+      isActive = false;
+    };
+  }, [birthTime, year]);
+
+  const renderCard = (card: TarotCard, number: number, key: string) => {
+    const imageSource = resolveCardImageSource(card.id, cardImages[card.id] ?? null);
+    return (
+      <View key={key} style={styles.cardItem}>
+        <View style={styles.cardFrame}>
+          {imageSource ? (
+            <Image source={imageSource} style={styles.cardImage} contentFit="cover" />
+          ) : (
+            <View style={styles.cardPlaceholder}>
+              <Text style={styles.cardSymbol}>{'\u2605'}</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.cardNumber}>{number}</Text>
+        <Text style={styles.cardName} numberOfLines={2}>{card.name}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+      style={styles.container}
+    >
+      <Text style={styles.groupLabel}>Birth Cards</Text>
+      <View style={styles.cardsRow}>
+        {birthCards.map((card, index) => renderCard(card, birthNumbers[index], `birth-${index}`))}
+      </View>
+      <Text style={styles.groupHint}>
+        The archetypes you carry through life, from outer personality to inner soul.
+      </Text>
+
+      <View style={styles.divider} />
+
+      <Text style={styles.groupLabel}>Personal Year Card · {year}</Text>
+      <View style={styles.cardsRow}>
+        {renderCard(yearCard, yearNumber, 'year')}
+      </View>
+      <Text style={styles.groupHint}>
+        The lesson this year holds for you.
+      </Text>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  groupLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  cardsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.lg,
+  },
+  cardItem: {
+    width: CARD_IMAGE_WIDTH + Spacing.md,
+    alignItems: 'center',
+  },
+  cardFrame: {
+    width: CARD_IMAGE_WIDTH,
+    height: CARD_IMAGE_WIDTH * 1.6,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  cardImage: {
+    width: '100%',
+    height: '100%',
+  },
+  cardPlaceholder: {
+    flex: 1,
+    backgroundColor: 'rgba(221, 133, 216, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardSymbol: {
+    fontSize: 22,
+    color: Colors.celestialGold,
+  },
+  cardNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.heading,
+    marginTop: Spacing.sm,
+  },
+  cardName: {
+    fontSize: 12,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+  },
+  groupHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: Spacing.md,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+    marginVertical: Spacing.lg,
+  },
+});
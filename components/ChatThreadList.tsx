@@ -0,0 +1,225 @@
+// Chat Thread List - Saved conversations with The Oracle, opened, renamed or deleted in place
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import GoldButton from '@/components/GoldButton';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { formatDateShort } from '@/utils/formatDate';
+import { ChatThreadSummary } from '@/types';
+
+const MAX_TITLE_LENGTH = 60;
+
+interface Props {
+  threads: ChatThreadSummary[];
+  activeThreadId?: string;
+  onSelect: (threadId: string) => void;
+  onNewThread: () => void;
+  onRename: (threadId: string, title: string) => Promise<void>;
+  onDelete: (threadId: string) => Promise<void>;
+}
+
+export default function ChatThreadList({
+  threads,
+  activeThreadId,
+  onSelect,
+  onNewThread,
+  onRename,
+  onDelete,
+}: Props) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (thread: ChatThreadSummary) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    if (title) {
+      try {
+        await onRename(editingId, title);
+      } catch {
+        Alert.alert('Rename Failed', 'Unable to rename this conversation. Please try again.');
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (thread: ChatThreadSummary) => {
+    Alert.alert(
+      'Delete Conversation',
+      `"${thread.title}" will be gone for good.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onDelete(thread.id);
+            } catch {
+              Alert.alert('Delete Failed', 'Unable to delete this conversation. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderThread = (thread: ChatThreadSummary) => {
+    const isActive = thread.id === activeThreadId;
+    const isEditing = thread.id === editingId;
+
+    return (
+      <View key={thread.id} style={[styles.threadCard, isActive && styles.threadCardActive]}>
+        {isEditing ? (
+          <TextInput
+            style={styles.titleInput}
+            value={draftTitle}
+            onChangeText={setDraftTitle}
+            onBlur={handleRename} // Submitting blurs the input, so this also saves on done
+            maxLength={MAX_TITLE_LENGTH}
+            returnKeyType="done"
+            autoFocus
+          />
+        ) : (
+          <TouchableOpacity
+            style={styles.threadBody}
+            onPress={() => onSelect(thread.id)}
+            activeOpacity={0.8}
+          >
+            <View style={styles.titleRow}>
+              {thread.readingId && (
+                <Ionicons name="layers-outline" size={14} color={Colors.celestialGold} />
+              )}
+              <Text style={styles.threadTitle} numberOfLines={1}>{thread.title}</Text>
+            </View>
+            {thread.preview && (
+              <Text style={styles.threadPreview} numberOfLines={2}>{thread.preview}</Text>
+            )}
+            <Text style={styles.threadMeta}>
+              {formatDateShort(new Date(thread.updatedAt))} · {thread.messageCount} message
+              {thread.messageCount === 1 ? '' : 's'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {!isEditing && (
+          <View style={styles.threadActions}>
+            <TouchableOpacity
+              onPress={() => startRename(thread)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="pencil-outline" size={16} color={Colors.moonlightGray} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(thread)}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="trash-outline" size={16} color={Colors.moonlightGray} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <GoldButton title="New Conversation" icon="add-circle-outline" onPress={onNewThread} />
+
+      {threads.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="chatbubbles-outline" size={48} color={Colors.moonlightGray} />
+          <Text style={styles.emptyText}>Your conversations with The Oracle will appear here.</Text>
+        </View>
+      ) : (
+        <View style={styles.list}>{threads.map(renderThread)}</View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+  },
+  list: {
+    marginTop: Spacing.lg,
+    gap: Spacing.md,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xxl,
+    gap: Spacing.md,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+  },
+  threadCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.sm,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  threadCardActive: {
+    borderColor: Colors.celestialGold,
+  },
+  threadBody: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  threadTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  threadPreview: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.xs,
+  },
+  threadMeta: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.xs,
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  threadActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    paddingTop: 2,
+  },
+});
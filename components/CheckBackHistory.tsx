@@ -0,0 +1,132 @@
+// Check-Back History - How often each card and spread played out and resonated
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import {
+  OutcomeStats,
+  OutcomeTally,
+  summarizeOutcomes,
+  getTallyScore,
+  getTallyTotal,
+} from '@/utils/checkBack';
+import { DailyReading } from '@/types';
+
+// Cards beyond this many are hidden to keep the list short
+const MAX_CARD_ROWS = 8;
+
+interface Props {
+  history: DailyReading[];
+}
+
+const formatTally = (label: string, tally: OutcomeTally): string | null => {
+  const score = getTallyScore(tally);
+  if (score === null) return null;
+  return `${label} ${Math.round(score * 100)}% (${getTallyTotal(tally)})`;
+};
+
+export default function CheckBackHistory({ history }: Props) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { byCard, bySpread } = summarizeOutcomes(history);
+  if (byCard.length === 0 && bySpread.length === 0) return null;
+
+  const renderRow = (stats: OutcomeStats) => {
+    const summary = [
+      formatTally('Played out', stats.playedOut),
+      formatTally('Resonated', stats.resonated),
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <View key={stats.id} style={styles.row}>
+        <Text style={styles.rowLabel} numberOfLines={1}>{stats.label}</Text>
+        <Text style={styles.rowSummary}>{summary}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+      style={styles.container}
+    >
+      <TouchableOpacity
+        style={styles.headerRow}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="analytics-outline" size={18} color={Colors.celestialGold} />
+        <Text style={styles.title}>How the Cards Played Out</Text>
+        <Ionicons
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={Colors.moonlightGray}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <>
+          {bySpread.length > 0 && (
+            <>
+              <Text style={styles.groupLabel}>By Spread</Text>
+              {bySpread.map(renderRow)}
+            </>
+          )}
+          {byCard.length > 0 && (
+            <>
+              <Text style={styles.groupLabel}>By Card</Text>
+              {byCard.slice(0, MAX_CARD_ROWS).map(renderRow)}
+            </>
+          )}
+        </>
+      )}
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    marginBottom: Spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Fonts.body,
+    color: Colors.celestialGold,
+  },
+  groupLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  rowSummary: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+});
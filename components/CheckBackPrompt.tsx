@@ -0,0 +1,135 @@
+// Check-Back Prompt - Asks whether a reading's future card played out
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getSpreadById, getPositionLabel } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { CHECK_BACK_OUTCOMES, isCheckBackDue } from '@/utils/checkBack';
+import { parseDateString } from '@/utils/forecast';
+import { formatDateLong } from '@/utils/formatDate';
+import { hapticLight } from '@/utils/haptics';
+import { DailyReading, Resonance } from '@/types';
+
+interface Props {
+  reading: DailyReading;
+  onAnswer: (outcome: Resonance) => Promise<boolean>; // False when the save failed and was reported
+}
+
+export default function CheckBackPrompt({ reading, onAnswer }: Props) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const checkBack = reading.checkBack;
+  const cardReading = checkBack && reading.cards.find(c => c.position === checkBack.position);
+  if (!checkBack || !cardReading) return null;
+
+  const spread = getSpreadById(reading.spreadId);
+  const cardName = getCardDisplayName(cardReading.card, cardReading.isReversed);
+  const isOpen = !!checkBack.outcome || isCheckBackDue(reading);
+
+  const handleAnswer = async (outcome: Resonance) => {
+    if (isSaving || outcome === checkBack.outcome) return;
+    hapticLight();
+    setIsSaving(true);
+    await onAnswer(outcome);
+    setIsSaving(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Ionicons name="time-outline" size={16} color={Colors.celestialGold} />
+        <Text style={styles.title}>Check Back</Text>
+      </View>
+      <Text style={styles.question}>
+        Did {cardName} in the {getPositionLabel(spread, checkBack.position)} position play out?
+      </Text>
+
+      {isOpen ? (
+        <View style={styles.chipRow}>
+          {CHECK_BACK_OUTCOMES.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, checkBack.outcome === option.value && styles.chipActive]}
+              onPress={() => handleAnswer(option.value)}
+              disabled={isSaving}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.chipText, checkBack.outcome === option.value && styles.chipTextActive]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.pending}>
+          Come back on {formatDateLong(parseDateString(checkBack.dueDate))} to see how it unfolded.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  question: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    lineHeight: 22,
+    marginTop: Spacing.sm,
+  },
+  pending: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  chip: {
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  chipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,228 @@
+// Clarifier Panel - Draw extra cards to shed light on any position of a revealed reading
+import React, { useState, useRef, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import { useTextGeneration } from '@fastshot/ai';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getSpreadById } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { hapticLight } from '@/utils/haptics';
+import {
+  drawClarifier,
+  buildClarifierPrompt,
+  interpretClarifier,
+  addClarifier,
+} from '@/services/readingService';
+import { DailyReading, DrawnCard } from '@/types';
+
+interface Props {
+  reading: DailyReading;
+  onUpdate: (reading: DailyReading) => void;
+}
+
+interface PendingClarifier {
+  positionId: string;
+  drawn: DrawnCard;
+}
+
+export default function ClarifierPanel({ reading, onUpdate }: Props) {
+  const [drawingPositionId, setDrawingPositionId] = useState<string | null>(null);
+
+  // Refs used by the AI callbacks (avoids stale closures)
+  const pendingRef = useRef<PendingClarifier | null>(null);
+  const readingRef = useRef(reading);
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    readingRef.current = reading;
+    onUpdateRef.current = onUpdate;
+  }, [reading, onUpdate]);
+
+  const finalizeClarifier = (aiResponse: string | null) => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setDrawingPositionId(null);
+    if (!pending) return;
+
+    const clarifier = interpretClarifier(pending.drawn, aiResponse);
+    onUpdateRef.current(addClarifier(readingRef.current, pending.positionId, clarifier));
+  };
+
+  const { generateText } = useTextGeneration({
+    onSuccess: (response) => finalizeClarifier(response),
+    onError: (error) => {
+      console.error('AI error:', error);
+      // Still keep the clarifier, explained by its card meaning
+      finalizeClarifier(null);
+    },
+  });
+
+  const handleDrawClarifier = async (positionId: string) => {
+    if (drawingPositionId) return;
+
+    hapticLight();
+    setDrawingPositionId(positionId);
+    try {
+      const drawn = await drawClarifier(reading);
+      if (!drawn) {
+        setDrawingPositionId(null);
+        Alert.alert('Deck Exhausted', 'There are no cards left in the deck to draw.');
+        return;
+      }
+      pendingRef.current = { positionId, drawn };
+      await generateText(buildClarifierPrompt(reading, positionId, drawn));
+    } catch (error) {
+      console.error('Error drawing clarifier:', error);
+      finalizeClarifier(null);
+    }
+  };
+
+  const spread = getSpreadById(reading.spreadId);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Clarify a Card</Text>
+      <Text style={styles.hint}>
+        Unsure what a card is telling you? Draw a clarifier from the rest of the deck.
+      </Text>
+
+      {spread.positions.map(position => {
+        const cardReading = reading.cards.find(c => c.position === position.id);
+        if (!cardReading) return null;
+        const isDrawing = drawingPositionId === position.id;
+
+        return (
+          <View key={position.id} style={styles.positionBlock}>
+            <View style={styles.positionRow}>
+              <View style={styles.positionInfo}>
+                <Text style={styles.positionLabel}>{position.label}</Text>
+                <Text style={styles.positionCard}>
+                  {getCardDisplayName(cardReading.card, cardReading.isReversed)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.drawButton, drawingPositionId !== null && styles.drawButtonDisabled]}
+                onPress={() => handleDrawClarifier(position.id)}
+                disabled={drawingPositionId !== null}
+                activeOpacity={0.8}
+              >
+                {isDrawing ? (
+                  <ActivityIndicator size="small" color={Colors.celestialGold} />
+                ) : (
+                  <>
+                    <Ionicons name="add" size={16} color={Colors.celestialGold} />
+                    <Text style={styles.drawButtonText}>Clarify</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {cardReading.clarifiers?.map((clarifier, index) => (
+              <Animated.View
+                key={`${clarifier.card.id}-${index}`}
+                entering={FadeInDown.duration(400)}
+                style={styles.clarifierRow}
+              >
+                <Text style={styles.clarifierName}>
+                  {getCardDisplayName(clarifier.card, clarifier.isReversed)}
+                </Text>
+                <Text style={styles.clarifierText}>{clarifier.interpretation}</Text>
+              </Animated.View>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Fonts.body,
+    color: Colors.celestialGold,
+    textAlign: 'center',
+    letterSpacing: 0.5,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  positionBlock: {
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  positionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  positionInfo: {
+    flex: 1,
+  },
+  positionLabel: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  positionCard: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+  drawButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    minWidth: 84,
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  drawButtonDisabled: {
+    opacity: 0.5,
+  },
+  drawButtonText: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  clarifierRow: {
+    marginTop: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderLeftWidth: 2,
+    borderLeftColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  clarifierName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    marginBottom: 2,
+  },
+  clarifierText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,96 @@
+// Distribution Chart - Observed share of draws per group, marked against a fair deck
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import Svg, { Rect, Line } from 'react-native-svg';
+import { Colors, Spacing, Fonts } from '@/constants/theme';
+import { DistributionEntry } from '@/utils/insights';
+
+const BAR_HEIGHT = 12;
+
+interface Props {
+  entries: DistributionEntry[];
+  colors?: Record<string, string>; // Bar colour per entry key
+  showCounts?: boolean; // Label bars with raw counts instead of percentages
+}
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+export default function DistributionChart({ entries, colors, showCounts = false }: Props) {
+  // Scale to the largest bar or marker so both always fit
+  const scale = Math.max(...entries.map(entry => Math.max(entry.observed, entry.expected)), 0.01);
+
+  return (
+    <View>
+      {entries.map(entry => (
+        <View key={entry.key} style={styles.row}>
+          <View style={styles.labelRow}>
+            <Text style={styles.label} numberOfLines={1}>{entry.label}</Text>
+            <Text style={styles.value}>
+              {showCounts ? `${entry.count}×` : formatPercent(entry.observed)}
+              <Text style={styles.expected}> · fair {formatPercent(entry.expected)}</Text>
+            </Text>
+          </View>
+          <Svg width="100%" height={BAR_HEIGHT}>
+            <Rect
+              x={0}
+              y={0}
+              width="100%"
+              height={BAR_HEIGHT}
+              rx={BAR_HEIGHT / 2}
+              fill="rgba(255, 255, 255, 0.06)"
+            />
+            <Rect
+              x={0}
+              y={0}
+              width={`${(entry.observed / scale) * 100}%`}
+              height={BAR_HEIGHT}
+              rx={BAR_HEIGHT / 2}
+              fill={colors?.[entry.key] ?? Colors.celestialGold}
+            />
+            <Line
+              x1={`${(entry.expected / scale) * 100}%`}
+              x2={`${(entry.expected / scale) * 100}%`}
+              y1={0}
+              y2={BAR_HEIGHT}
+              stroke={Colors.textPrimary}
+              strokeWidth={2}
+            />
+          </Svg>
+        </View>
+      ))}
+      <Text style={styles.legend}>White marks show what a fair 78-card deck would give.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: Spacing.sm + 2,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  value: {
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  expected: {
+    color: Colors.moonlightGray,
+  },
+  legend: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,332 @@
+// Journal Calendar - Month grid of readings coloured by each day's dominant element
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { getSpreadById } from '@/data/spreads';
+import { MONTH_NAMES, parseDateString, toDateString } from '@/utils/forecast';
+import { formatDateLong } from '@/utils/formatDate';
+import {
+  ELEMENTS,
+  WEEKDAY_LABELS,
+  groupReadingsByDate,
+  getDominantElement,
+  getElementColor,
+  getMonthGrid,
+  getStreakStats,
+  isStreakDay,
+} from '@/utils/readingCalendar';
+import { DailyReading } from '@/types';
+
+interface Props {
+  readings: DailyReading[];
+  onSelectReading: (reading: DailyReading) => void;
+}
+
+const formatDays = (days: number): string => `${days} day${days === 1 ? '' : 's'}`;
+
+export default function JournalCalendar({ readings, onSelectReading }: Props) {
+  const today = new Date();
+  const [visibleMonth, setVisibleMonth] = useState({
+    year: today.getFullYear(),
+    month: today.getMonth(),
+  });
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const byDate = groupReadingsByDate(readings);
+  const readingDates = new Set(byDate.keys());
+  const streaks = getStreakStats([...readingDates], today);
+  const todayString = toDateString(today);
+  const selectedReadings = selectedDate ? byDate.get(selectedDate) ?? [] : [];
+
+  const changeMonth = (delta: number) => {
+    const next = new Date(visibleMonth.year, visibleMonth.month + delta, 1);
+    setVisibleMonth({ year: next.getFullYear(), month: next.getMonth() });
+    setSelectedDate(null);
+  };
+
+  const handleDayPress = (date: string) => {
+    const dayReadings = byDate.get(date) ?? [];
+    if (dayReadings.length === 1) {
+      onSelectReading(dayReadings[0]);
+      setSelectedDate(null);
+    } else {
+      setSelectedDate(selectedDate === date ? null : date);
+    }
+  };
+
+  const renderDay = (date: string | null, index: number) => {
+    if (!date) return <View key={`blank-${index}`} style={styles.dayCell} />;
+
+    const dayReadings = byDate.get(date);
+    const element = dayReadings ? getDominantElement(dayReadings) : null;
+    const color = element ? getElementColor(element) : Colors.celestialGold;
+
+    return (
+      <TouchableOpacity
+        key={date}
+        style={styles.dayCell}
+        onPress={() => handleDayPress(date)}
+        disabled={!dayReadings}
+        activeOpacity={0.7}
+      >
+        <View
+          style={[
+            styles.dayInner,
+            dayReadings && { backgroundColor: `${color}55`, borderColor: color },
+            date === todayString && styles.dayToday,
+            date === selectedDate && styles.daySelected,
+          ]}
+        >
+          <Text style={[styles.dayNumber, !dayReadings && styles.dayNumberEmpty]}>
+            {parseDateString(date).getDate()}
+          </Text>
+          {dayReadings && dayReadings.length > 1 && (
+            <Text style={styles.dayCount}>{dayReadings.length}</Text>
+          )}
+        </View>
+        {isStreakDay(date, readingDates) && <View style={styles.streakBar} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Month Navigation */}
+      <View style={styles.monthHeader}>
+        <TouchableOpacity
+          onPress={() => changeMonth(-1)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="chevron-back" size={22} color={Colors.celestialGold} />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {MONTH_NAMES[visibleMonth.month]} {visibleMonth.year}
+        </Text>
+        <TouchableOpacity
+          onPress={() => changeMonth(1)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="chevron-forward" size={22} color={Colors.celestialGold} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Grid */}
+      <View style={styles.weekRow}>
+        {WEEKDAY_LABELS.map(label => (
+          <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+        ))}
+      </View>
+      {getMonthGrid(visibleMonth.year, visibleMonth.month).map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.weekRow}>
+          {week.map((date, dayIndex) => renderDay(date, weekIndex * 7 + dayIndex))}
+        </View>
+      ))}
+
+      {/* Legend */}
+      <View style={styles.legendRow}>
+        {ELEMENTS.map(({ element, suit, color }) => (
+          <View key={element} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: color }]} />
+            <Text style={styles.legendText}>{element} · {suit}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Day with several readings */}
+      {selectedDate && selectedReadings.length > 0 && (
+        <Animated.View entering={FadeInDown.duration(300)} style={styles.dayReadings}>
+          <Text style={styles.dayReadingsTitle}>
+            {formatDateLong(parseDateString(selectedDate))}
+          </Text>
+          {selectedReadings.map(reading => (
+            <TouchableOpacity
+              key={reading.id}
+              style={styles.dayReadingRow}
+              onPress={() => onSelectReading(reading)}
+              activeOpacity={0.8}
+            >
+              <View style={styles.dayReadingInfo}>
+                <Text style={styles.dayReadingSpread}>{getSpreadById(reading.spreadId).name}</Text>
+                <Text style={styles.dayReadingCards} numberOfLines={1}>
+                  {reading.question ?? reading.cards.map(c => c.card.name).join(', ')}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={Colors.moonlightGray} />
+            </TouchableOpacity>
+          ))}
+        </Animated.View>
+      )}
+
+      {/* Streaks and Gaps */}
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{formatDays(streaks.current)}</Text>
+          <Text style={styles.statLabel}>Current Streak</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{formatDays(streaks.longest)}</Text>
+          <Text style={styles.statLabel}>Longest Streak</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{formatDays(streaks.longestGap)}</Text>
+          <Text style={styles.statLabel}>Longest Gap</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.md,
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontFamily: Fonts.heading,
+    color: Colors.celestialGold,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    textAlign: 'center',
+    textTransform: 'uppercase',
+    marginBottom: Spacing.xs,
+  },
+  dayCell: {
+    flex: 1,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  dayInner: {
+    flex: 1,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayToday: {
+    borderColor: Colors.textPrimary,
+  },
+  daySelected: {
+    borderWidth: 2,
+    borderColor: Colors.celestialGold,
+  },
+  dayNumber: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  dayNumberEmpty: {
+    color: Colors.moonlightGray,
+  },
+  dayCount: {
+    position: 'absolute',
+    top: 1,
+    right: 3,
+    fontSize: 9,
+    color: Colors.textPrimary,
+  },
+  streakBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 2,
+    backgroundColor: Colors.celestialGold,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 11,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  dayReadings: {
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  dayReadingsTitle: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.xs,
+  },
+  dayReadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+  dayReadingInfo: {
+    flex: 1,
+  },
+  dayReadingSpread: {
+    fontSize: 14,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  dayReadingCards: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: Spacing.md,
+    paddingTop: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 2,
+  },
+});
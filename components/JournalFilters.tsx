@@ -0,0 +1,236 @@
+// Journal Filters - Narrow the journal by reading type, subject, cards and date
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import DateWheelPicker from '@/components/DateWheelPicker';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { parseDateString, toDateString } from '@/utils/forecast';
+import { formatDateLong } from '@/utils/formatDate';
+import {
+  JournalQuery,
+  TYPE_FILTERS,
+  SUBJECT_FILTERS,
+  ARCANA_FILTERS,
+  SUIT_FILTERS,
+  DATE_RANGE_FILTERS,
+  countActiveFilters,
+  createJournalQuery,
+} from '@/utils/journalSearch';
+import { TarotCard } from '@/types';
+
+interface Props {
+  query: JournalQuery;
+  cards: TarotCard[]; // Cards that appear in the journal
+  onChange: (query: JournalQuery) => void;
+}
+
+type DateBound = 'dateFrom' | 'dateTo';
+
+export default function JournalFilters({ query, cards, onChange }: Props) {
+  const [editingBound, setEditingBound] = useState<DateBound | null>(null);
+
+  const update = (changes: Partial<JournalQuery>) => onChange({ ...query, ...changes });
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, selected === option.value && styles.chipActive]}
+          onPress={() => onSelect(option.value)}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.chipText, selected === option.value && styles.chipTextActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderDateBound = (bound: DateBound, label: string) => (
+    <View>
+      <TouchableOpacity
+        style={styles.dateRow}
+        onPress={() => setEditingBound(editingBound === bound ? null : bound)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.dateLabel}>{label}</Text>
+        <Text style={styles.dateValue}>{formatDateLong(parseDateString(query[bound]))}</Text>
+        <Ionicons
+          name={editingBound === bound ? 'chevron-up' : 'chevron-down'}
+          size={16}
+          color={Colors.moonlightGray}
+        />
+      </TouchableOpacity>
+      {editingBound === bound && (
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <DateWheelPicker
+            value={parseDateString(query[bound])}
+            onChange={date =>
+              update(bound === 'dateFrom'
+                ? { dateFrom: toDateString(date) }
+                : { dateTo: toDateString(date) })
+            }
+          />
+        </Animated.View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Reading Type</Text>
+      {renderChips(TYPE_FILTERS, query.type, type => update({ type }))}
+
+      <Text style={styles.label}>Drawn For</Text>
+      {renderChips(SUBJECT_FILTERS, query.subject, subject => update({ subject }))}
+
+      <Text style={styles.label}>Arcana</Text>
+      {renderChips(ARCANA_FILTERS, query.arcana, arcana =>
+        // Suits only exist in the minor arcana
+        update(arcana === 'major' ? { arcana, suit: 'all' } : { arcana })
+      )}
+
+      <Text style={styles.label}>Suit</Text>
+      {renderChips(SUIT_FILTERS, query.suit, suit =>
+        update(suit === 'all' ? { suit } : { suit, arcana: 'minor' })
+      )}
+
+      <Text style={styles.label}>Card</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.cardScroll}
+      >
+        <TouchableOpacity
+          style={[styles.chip, query.cardId === null && styles.chipActive]}
+          onPress={() => update({ cardId: null })}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.chipText, query.cardId === null && styles.chipTextActive]}>
+            Any
+          </Text>
+        </TouchableOpacity>
+        {cards.map(card => (
+          <TouchableOpacity
+            key={card.id}
+            style={[styles.chip, query.cardId === card.id && styles.chipActive]}
+            onPress={() => update({ cardId: query.cardId === card.id ? null : card.id })}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.chipText, query.cardId === card.id && styles.chipTextActive]}>
+              {card.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.label}>Date</Text>
+      {renderChips(DATE_RANGE_FILTERS, query.dateRange, dateRange => update({ dateRange }))}
+      {query.dateRange === 'custom' && (
+        <View style={styles.dateBounds}>
+          {renderDateBound('dateFrom', 'From')}
+          {renderDateBound('dateTo', 'To')}
+        </View>
+      )}
+
+      {countActiveFilters(query) > 0 && (
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => onChange({ ...createJournalQuery(), text: query.text })}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="refresh" size={14} color={Colors.celestialGold} />
+          <Text style={styles.resetText}>Reset Filters</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  cardScroll: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  chipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+  dateBounds: {
+    marginTop: Spacing.sm,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  dateLabel: {
+    width: 48,
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+  },
+  dateValue: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  resetText: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+});
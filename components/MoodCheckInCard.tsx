@@ -0,0 +1,151 @@
+// Mood Check-In Card - A quick read of how the seeker feels, taken before and after a reading
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { hapticLight } from '@/utils/haptics';
+import { FEELING_OPTIONS, MOOD_SCALE, createMoodCheckIn } from '@/utils/moodTracking';
+import { Feeling, MoodCheckIn, MoodScore } from '@/types';
+
+interface Props {
+  title: string; // e.g. "How are you arriving?"
+  checkIn?: MoodCheckIn;
+  onChange: (checkIn: MoodCheckIn | undefined) => void;
+}
+
+export default function MoodCheckInCard({ title, checkIn, onChange }: Props) {
+  const feelings = checkIn?.feelings ?? [];
+
+  const handleScore = (score: MoodScore) => {
+    hapticLight();
+    // Tapping the chosen mood again clears the check-in
+    onChange(checkIn?.score === score ? undefined : createMoodCheckIn(score, feelings));
+  };
+
+  const handleFeeling = (feeling: Feeling) => {
+    if (!checkIn) return;
+    const updated = feelings.includes(feeling)
+      ? feelings.filter(f => f !== feeling)
+      : [...feelings, feeling];
+    onChange(createMoodCheckIn(checkIn.score, updated));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <View style={styles.scaleRow}>
+        {MOOD_SCALE.map(entry => {
+          const isSelected = checkIn?.score === entry.score;
+          return (
+            <TouchableOpacity
+              key={entry.score}
+              style={[styles.scaleButton, isSelected && styles.scaleButtonActive]}
+              onPress={() => handleScore(entry.score)}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.scaleEmoji}>{entry.emoji}</Text>
+              <Text style={[styles.scaleLabel, isSelected && styles.scaleLabelActive]}>
+                {entry.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {checkIn && (
+        <Animated.View entering={FadeInDown.duration(300)} style={styles.chipRow}>
+          {FEELING_OPTIONS.map(option => {
+            const isSelected = feelings.includes(option.id);
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, isSelected && styles.chipActive]}
+                onPress={() => handleFeeling(option.id)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </Animated.View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: Spacing.xs,
+  },
+  scaleButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  scaleButtonActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  scaleEmoji: {
+    fontSize: 24,
+  },
+  scaleLabel: {
+    fontSize: 11,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+  scaleLabelActive: {
+    color: Colors.celestialGold,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  chip: {
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  chipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,244 @@
+// Mood Trend Chart - Check-ins before and after each reading over time, and the cards drawn alongside
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, LayoutChangeEvent } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import {
+  CardMoodShift,
+  MOOD_SCALE,
+  getMoodPoints,
+  getAverageMoodShift,
+  getCardMoodShifts,
+  getFeelingLabel,
+  formatMoodShift,
+} from '@/utils/moodTracking';
+import { getOnboardingFeelings } from '@/utils/storage';
+import { DailyReading, Feeling, MoodScore } from '@/types';
+
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+// Only the most recent check-ins are plotted so points stay readable
+const MAX_CHART_POINTS = 20;
+const MAX_CARD_ROWS = 3;
+
+const BEFORE_COLOR = Colors.moonlightGray;
+const AFTER_COLOR = Colors.celestialGold;
+
+interface Props {
+  history: DailyReading[];
+}
+
+export default function MoodTrendChart({ history }: Props) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [chartWidth, setChartWidth] = useState(0);
+  const [baseline, setBaseline] = useState<Feeling[]>([]);
+
+  useEffect(() => {
+    getOnboardingFeelings().then(setBaseline);
+  }, []);
+
+  const points = getMoodPoints(history);
+  if (points.length === 0) return null;
+
+  const recent = points.slice(-MAX_CHART_POINTS);
+  const averageShift = getAverageMoodShift(points);
+  const cardShifts = getCardMoodShifts(points);
+  const lifted = cardShifts.filter(entry => entry.shift > 0).slice(0, MAX_CARD_ROWS);
+  const weighed = cardShifts.filter(entry => entry.shift < 0).reverse().slice(0, MAX_CARD_ROWS);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setChartWidth(event.nativeEvent.layout.width);
+  };
+
+  // Map a point index and score onto the chart area
+  const getX = (index: number) => {
+    const usable = chartWidth - CHART_PADDING * 2;
+    return recent.length === 1 ? chartWidth / 2 : CHART_PADDING + (index / (recent.length - 1)) * usable;
+  };
+  const getY = (score: MoodScore) => {
+    const usable = CHART_HEIGHT - CHART_PADDING * 2;
+    return CHART_PADDING + ((MOOD_SCALE.length - score) / (MOOD_SCALE.length - 1)) * usable;
+  };
+
+  const buildLine = (key: 'before' | 'after') =>
+    recent
+      .map((point, index) => {
+        const score = point[key];
+        return score === undefined ? null : `${getX(index)},${getY(score)}`;
+      })
+      .filter(Boolean)
+      .join(' ');
+
+  const renderCardRow = (entry: CardMoodShift) => (
+    <View key={entry.card.id} style={styles.row}>
+      <Text style={styles.rowLabel} numberOfLines={1}>{entry.card.name}</Text>
+      <Text style={styles.rowSummary}>
+        {formatMoodShift(entry.shift)} across {entry.count} readings
+      </Text>
+    </View>
+  );
+
+  return (
+    <LinearGradient
+      colors={['rgba(221, 133, 216, 0.12)', 'rgba(221, 133, 216, 0.04)']}
+      style={styles.container}
+    >
+      <TouchableOpacity
+        style={styles.headerRow}
+        onPress={() => setIsExpanded(!isExpanded)}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="pulse-outline" size={18} color={Colors.celestialGold} />
+        <Text style={styles.title}>Mood Over Time</Text>
+        <Ionicons
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={Colors.moonlightGray}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <>
+          {averageShift !== null && (
+            <Text style={styles.summary}>
+              On average a reading moves your mood {formatMoodShift(averageShift)} on a five-point scale.
+            </Text>
+          )}
+          {baseline.length > 0 && (
+            <Text style={styles.baseline}>
+              When you began: {baseline.map(getFeelingLabel).join(' · ')}
+            </Text>
+          )}
+
+          <View style={styles.chart} onLayout={handleLayout}>
+            {chartWidth > 0 && (
+              <Svg width={chartWidth} height={CHART_HEIGHT}>
+                {MOOD_SCALE.map(entry => (
+                  <Line
+                    key={entry.score}
+                    x1={0}
+                    x2={chartWidth}
+                    y1={getY(entry.score)}
+                    y2={getY(entry.score)}
+                    stroke="rgba(255, 255, 255, 0.06)"
+                    strokeWidth={1}
+                  />
+                ))}
+                <Polyline
+                  points={buildLine('before')}
+                  fill="none"
+                  stroke={BEFORE_COLOR}
+                  strokeWidth={2}
+                  strokeDasharray="4,4"
+                />
+                <Polyline points={buildLine('after')} fill="none" stroke={AFTER_COLOR} strokeWidth={2} />
+                {recent.map((point, index) => (
+                  <React.Fragment key={point.reading.id}>
+                    {point.before !== undefined && (
+                      <Circle cx={getX(index)} cy={getY(point.before)} r={3} fill={BEFORE_COLOR} />
+                    )}
+                    {point.after !== undefined && (
+                      <Circle cx={getX(index)} cy={getY(point.after)} r={3.5} fill={AFTER_COLOR} />
+                    )}
+                  </React.Fragment>
+                ))}
+              </Svg>
+            )}
+          </View>
+          <View style={styles.legendRow}>
+            <Text style={[styles.legend, { color: BEFORE_COLOR }]}>- - Before</Text>
+            <Text style={[styles.legend, { color: AFTER_COLOR }]}>—— After</Text>
+          </View>
+
+          {lifted.length > 0 && (
+            <>
+              <Text style={styles.groupLabel}>Cards That Lifted You</Text>
+              {lifted.map(renderCardRow)}
+            </>
+          )}
+          {weighed.length > 0 && (
+            <>
+              <Text style={styles.groupLabel}>Cards That Weighed on You</Text>
+              {weighed.map(renderCardRow)}
+            </>
+          )}
+        </>
+      )}
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    marginBottom: Spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Fonts.body,
+    color: Colors.celestialGold,
+  },
+  summary: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    marginTop: Spacing.md,
+  },
+  baseline: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    marginTop: Spacing.md,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  legend: {
+    fontSize: 11,
+    fontFamily: Fonts.body,
+  },
+  groupLabel: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  rowSummary: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,384 @@
+// Partner Profile Section - View and edit the partner used for partner readings
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Alert } from 'react-native';
+import { router } from 'expo-router';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import MysticalInput from '@/components/MysticalInput';
+import DateWheelPicker from '@/components/DateWheelPicker';
+import TimeWheelPicker from '@/components/TimeWheelPicker';
+import GoldButton from '@/components/GoldButton';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { formatDateLong, getZodiacSign } from '@/utils/formatDate';
+import { PartnerProfile } from '@/types';
+
+interface Props {
+  partner: PartnerProfile | null;
+  onSave: (partner: PartnerProfile) => Promise<void>;
+  onRemove: () => Promise<void>;
+}
+
+export default function PartnerProfileSection({ partner, onSave, onRemove }: Props) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Edit mode state
+  const [editName, setEditName] = useState('');
+  const [editDateOfBirth, setEditDateOfBirth] = useState<Date>(new Date());
+  const [editTimeOfBirth, setEditTimeOfBirth] = useState('');
+  const [editPlaceOfBirth, setEditPlaceOfBirth] = useState('');
+
+  // Collapsible sections for pickers
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  const handleStartEdit = () => {
+    setEditName(partner?.fullName || '');
+    setEditDateOfBirth(partner?.dateOfBirth || new Date());
+    setEditTimeOfBirth(partner?.timeOfBirth || '');
+    setEditPlaceOfBirth(partner?.placeOfBirth || '');
+    setShowDatePicker(false);
+    setShowTimePicker(false);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!editName.trim()) {
+      Alert.alert('Name Required', "Please enter your partner's name.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        fullName: editName.trim(),
+        dateOfBirth: editDateOfBirth,
+        timeOfBirth: editTimeOfBirth,
+        placeOfBirth: editPlaceOfBirth,
+        createdAt: partner?.createdAt || new Date(),
+      });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving partner profile:', error);
+      Alert.alert('Save Failed', "Unable to save your partner's details. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!partner) return;
+    Alert.alert(
+      'Remove Partner',
+      `Remove ${partner.fullName}? Past partner readings stay in your journal.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onRemove();
+            } catch (error) {
+              console.error('Error removing partner profile:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <Animated.View entering={FadeInDown.duration(400)} style={styles.section}>
+        <Text style={styles.sectionTitle}>{partner ? 'Edit Partner' : 'Add Partner'}</Text>
+
+        <View style={styles.editCard}>
+          <Text style={styles.label}>Name</Text>
+          <MysticalInput
+            value={editName}
+            onChangeText={setEditName}
+            placeholder="Your partner's name"
+            autoCapitalize="words"
+          />
+        </View>
+
+        {/* Date of Birth */}
+        <TouchableOpacity
+          style={styles.editCard}
+          onPress={() => {
+            setShowDatePicker(!showDatePicker);
+            setShowTimePicker(false);
+          }}
+          activeOpacity={0.7}
+        >
+          <View style={styles.row}>
+            <View style={styles.rowContent}>
+              <Text style={styles.label}>Date of Birth</Text>
+              <Text style={styles.value}>{formatDateLong(editDateOfBirth)}</Text>
+            </View>
+            <Ionicons
+              name={showDatePicker ? 'chevron-up' : 'chevron-down'}
+              size={20}
+              color={Colors.celestialGold}
+            />
+          </View>
+        </TouchableOpacity>
+
+        {showDatePicker && (
+          <Animated.View entering={FadeInDown.duration(300)} style={styles.pickerContainer}>
+            <DateWheelPicker value={editDateOfBirth} onChange={setEditDateOfBirth} />
+          </Animated.View>
+        )}
+
+        {/* Time of Birth */}
+        <TouchableOpacity
+          style={styles.editCard}
+          onPress={() => {
+            setShowTimePicker(!showTimePicker);
+            setShowDatePicker(false);
+          }}
+          activeOpacity={0.7}
+        >
+          <View style={styles.row}>
+            <View style={styles.rowContent}>
+              <Text style={styles.label}>Time of Birth</Text>
+              <Text style={styles.value}>{editTimeOfBirth || 'Tap to set'}</Text>
+            </View>
+            <Ionicons
+              name={showTimePicker ? 'chevron-up' : 'chevron-down'}
+              size={20}
+              color={Colors.celestialGold}
+            />
+          </View>
+        </TouchableOpacity>
+
+        {showTimePicker && (
+          <Animated.View entering={FadeInDown.duration(300)} style={styles.pickerContainer}>
+            <TimeWheelPicker value={editTimeOfBirth} onChange={setEditTimeOfBirth} />
+          </Animated.View>
+        )}
+
+        {/* Place of Birth */}
+        <View style={styles.editCard}>
+          <Text style={styles.label}>Place of Birth</Text>
+          <MysticalInput
+            value={editPlaceOfBirth}
+            onChangeText={setEditPlaceOfBirth}
+            placeholder="e.g., Los Angeles, CA"
+            autoCapitalize="words"
+          />
+        </View>
+
+        <View style={styles.actions}>
+          <GoldButton title="Save Partner" onPress={handleSave} loading={isSaving} />
+          <GoldButton
+            title="Cancel"
+            variant="outline"
+            onPress={() => setIsEditing(false)}
+            disabled={isSaving}
+          />
+        </View>
+      </Animated.View>
+    );
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Your Partner</Text>
+
+      {partner ? (
+        <View style={styles.partnerCard}>
+          <View style={styles.row}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="heart" size={24} color={Colors.celestialGold} />
+            </View>
+            <View style={styles.rowContent}>
+              <Text style={styles.partnerName}>{partner.fullName}</Text>
+              <Text style={styles.partnerSign}>{getZodiacSign(partner.dateOfBirth)}</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={handleStartEdit}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="pencil" size={18} color={Colors.celestialGold} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={handleRemove}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="trash-outline" size={18} color={Colors.moonlightGray} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.details}>
+            <Text style={styles.detailText}>
+              Born {formatDateLong(partner.dateOfBirth)}
+              {partner.timeOfBirth ? ` at ${partner.timeOfBirth}` : ''}
+            </Text>
+            {partner.placeOfBirth ? (
+              <Text style={styles.detailText}>{partner.placeOfBirth}</Text>
+            ) : null}
+          </View>
+          <TouchableOpacity
+            style={styles.compatibilityLink}
+            onPress={() => router.push('/compatibility')}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="sparkles" size={16} color={Colors.celestialGold} />
+            <Text style={styles.compatibilityLinkText}>View Compatibility</Text>
+            <Ionicons name="arrow-forward" size={16} color={Colors.moonlightGray} />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addCard} onPress={handleStartEdit} activeOpacity={0.8}>
+          <Ionicons name="person-add-outline" size={24} color={Colors.celestialGold} />
+          <View style={styles.rowContent}>
+            <Text style={styles.addTitle}>Add your partner</Text>
+            <Text style={styles.addSubtitle}>
+              Their birth details personalise partner readings
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={Colors.celestialGold} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginTop: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.xs,
+  },
+  partnerCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(221, 133, 216, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.md,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: Spacing.xs,
+  },
+  partnerName: {
+    fontSize: 18,
+    fontWeight: '600',
+    fontFamily: Fonts.heading,
+    color: Colors.textPrimary,
+  },
+  partnerSign: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    marginTop: 2,
+  },
+  details: {
+    marginTop: Spacing.sm,
+    paddingLeft: 48 + Spacing.md,
+  },
+  detailText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+  },
+  compatibilityLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(221, 133, 216, 0.1)',
+  },
+  compatibilityLinkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  addCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  addTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  addSubtitle: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  editCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.3)',
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  value: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+    fontFamily: 'System',
+  },
+  pickerContainer: {
+    marginTop: -Spacing.sm,
+    marginBottom: Spacing.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  actions: {
+    gap: Spacing.md,
+  },
+});
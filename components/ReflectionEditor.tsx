@@ -0,0 +1,260 @@
+// Reflection Editor - The seeker's notes, mood and resonance rating for a reading or card
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import MysticalInput from '@/components/MysticalInput';
+import GoldButton from '@/components/GoldButton';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import {
+  MOOD_OPTIONS,
+  RESONANCE_OPTIONS,
+  getMoodOption,
+  getResonanceLabel,
+  hasReflection,
+} from '@/utils/reflections';
+import { Reflection, ReflectionMood, Resonance } from '@/types';
+
+const MAX_NOTE_LENGTH = 1000;
+
+interface Props {
+  title: string; // e.g. "This reading" or "Present · The Star"
+  reflection?: Reflection;
+  onSave: (reflection: Reflection | undefined) => Promise<boolean>; // False when the save failed and was reported
+}
+
+export default function ReflectionEditor({ title, reflection, onSave }: Props) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Edit mode state
+  const [editNote, setEditNote] = useState('');
+  const [editMood, setEditMood] = useState<ReflectionMood | undefined>();
+  const [editResonance, setEditResonance] = useState<Resonance | undefined>();
+
+  const handleStartEdit = () => {
+    setEditNote(reflection?.note ?? '');
+    setEditMood(reflection?.mood);
+    setEditResonance(reflection?.resonance);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const updated: Reflection = {
+      note: editNote.trim(),
+      mood: editMood,
+      resonance: editResonance,
+      updatedAt: new Date().toISOString(),
+    };
+
+    setIsSaving(true);
+    // Clearing every field removes the reflection entirely; a failed save keeps the draft open
+    if (await onSave(hasReflection(updated) ? updated : undefined)) setIsEditing(false);
+    setIsSaving(false);
+  };
+
+  if (isEditing) {
+    return (
+      <Animated.View entering={FadeInDown.duration(300)} style={styles.container}>
+        <Text style={styles.title}>{title}</Text>
+
+        <Text style={styles.label}>Did this resonate?</Text>
+        <View style={styles.chipRow}>
+          {RESONANCE_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, editResonance === option.value && styles.chipActive]}
+              onPress={() =>
+                setEditResonance(editResonance === option.value ? undefined : option.value)
+              }
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.chipText, editResonance === option.value && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Mood</Text>
+        <View style={styles.chipRow}>
+          {MOOD_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, editMood === option.value && styles.chipActive]}
+              onPress={() => setEditMood(editMood === option.value ? undefined : option.value)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.chipText, editMood === option.value && styles.chipTextActive]}>
+                {option.emoji} {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Notes</Text>
+        <MysticalInput
+          value={editNote}
+          onChangeText={setEditNote}
+          placeholder="What does this bring up for you?"
+          maxLength={MAX_NOTE_LENGTH}
+          multiline
+        />
+
+        <View style={styles.actions}>
+          <GoldButton title="Save Reflection" onPress={handleSave} loading={isSaving} />
+          <GoldButton
+            title="Cancel"
+            variant="outline"
+            onPress={() => setIsEditing(false)}
+            disabled={isSaving}
+          />
+        </View>
+      </Animated.View>
+    );
+  }
+
+  if (!hasReflection(reflection)) {
+    return (
+      <TouchableOpacity style={styles.addRow} onPress={handleStartEdit} activeOpacity={0.8}>
+        <Ionicons name="create-outline" size={18} color={Colors.celestialGold} />
+        <View style={styles.addContent}>
+          <Text style={styles.addTitle}>{title}</Text>
+          <Text style={styles.addSubtitle}>Add a reflection</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  const mood = reflection.mood ? getMoodOption(reflection.mood) : undefined;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>{title}</Text>
+        <TouchableOpacity
+          onPress={handleStartEdit}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="pencil" size={16} color={Colors.celestialGold} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.chipRow}>
+        {reflection.resonance && (
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>
+              Resonated: {getResonanceLabel(reflection.resonance)}
+            </Text>
+          </View>
+        )}
+        {mood && (
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{mood.emoji} {mood.label}</Text>
+          </View>
+        )}
+      </View>
+      {reflection.note ? <Text style={styles.note}>{reflection.note}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs + 2,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+  },
+  chipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+  badge: {
+    marginTop: Spacing.sm,
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  badgeText: {
+    fontSize: 12,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  note: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontFamily: Fonts.body,
+    lineHeight: 22,
+    marginTop: Spacing.sm,
+  },
+  actions: {
+    marginTop: Spacing.md,
+    gap: Spacing.md,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  addContent: {
+    flex: 1,
+  },
+  addTitle: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+  },
+  addSubtitle: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,439 @@
+// Ritual Deck Component - Shuffle, cut and hand-pick cards from a fanned deck
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Pressable,
+  PanResponder,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from 'react-native';
+import Animated, {
+  FadeIn,
+  FadeInUp,
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+  withSpring,
+  withRepeat,
+  withSequence,
+} from 'react-native-reanimated';
+import TarotCard from '@/components/TarotCard';
+import GoldButton from '@/components/GoldButton';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { shuffleDeck, cutDeck } from '@/data/tarotDeck';
+import { hapticMedium, hapticSuccess } from '@/utils/haptics';
+import { RitualDraw, TarotCard as TarotCardType } from '@/types';
+
+type RitualPhase = 'shuffle' | 'cut' | 'pick';
+
+const PILE_CARD_WIDTH = 80;
+const FAN_CARD_WIDTH = 56;
+const FAN_STEP = 20; // Visible sliver of each card in the fan
+const FAN_MAX_ANGLE = 18; // Degrees at either end of the fan
+const FAN_ARC_DEPTH = 24; // How far the ends of the fan dip
+const DRAG_PICK_THRESHOLD = 60; // Upward drag distance that picks a card
+const SHUFFLE_DURATION = 1500;
+
+interface Props {
+  positionLabels: string[]; // One per card to pick, in pick order
+  onComplete: (ritual: { deck: TarotCardType[]; draw: RitualDraw }) => void;
+  onCancel: () => void;
+}
+
+interface FanCardProps {
+  card: TarotCardType;
+  index: number;
+  total: number;
+  isPicked: boolean;
+  onPick: (index: number) => void;
+}
+
+// A single face-down card in the fan - tap it, or drag it upwards, to pick it
+function FanCard({ card, index, total, isPicked, onPick }: FanCardProps) {
+  const dragY = useSharedValue(0);
+
+  // Spread the cards along a shallow arc
+  const offset = total > 1 ? (index / (total - 1)) * 2 - 1 : 0;
+  const angle = offset * FAN_MAX_ANGLE;
+  const dip = offset * offset * FAN_ARC_DEPTH;
+
+  const panResponder = useMemo(() => PanResponder.create({
+    // Only claim clearly upward drags so horizontal scrolling still works
+    onMoveShouldSetPanResponder: (_, gesture) =>
+      gesture.dy < -10 && Math.abs(gesture.dy) > Math.abs(gesture.dx),
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderMove: (_, gesture) => {
+      dragY.value = Math.min(0, gesture.dy);
+    },
+    onPanResponderRelease: (_, gesture) => {
+      if (gesture.dy < -DRAG_PICK_THRESHOLD) {
+        onPick(index);
+      }
+      dragY.value = withSpring(0);
+    },
+    onPanResponderTerminate: () => {
+      dragY.value = withSpring(0);
+    },
+  }), [dragY, index, onPick]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateY: dip + dragY.value },
+      { rotate: `${angle}deg` },
+    ],
+  }));
+
+  return (
+    <Animated.View
+      {...panResponder.panHandlers}
+      style={[
+        styles.fanCard,
+        { marginLeft: index === 0 ? 0 : FAN_STEP - FAN_CARD_WIDTH - Spacing.xs * 2 },
+        isPicked && styles.fanCardPicked,
+        animatedStyle,
+      ]}
+      pointerEvents={isPicked ? 'none' : 'auto'}
+    >
+      <TarotCard
+        card={card}
+        isRevealed={false}
+        onPress={() => onPick(index)}
+        cardWidth={FAN_CARD_WIDTH}
+      />
+    </Animated.View>
+  );
+}
+
+export default function RitualDeck({ positionLabels, onComplete, onCancel }: Props) {
+  const [phase, setPhase] = useState<RitualPhase>('shuffle');
+  const [deck, setDeck] = useState(() => shuffleDeck());
+  const [hasShuffled, setHasShuffled] = useState(false);
+  const [isShuffling, setIsShuffling] = useState(false);
+  const [cut, setCut] = useState<number | null>(null);
+  const [picks, setPicks] = useState<number[]>([]);
+  const [stripWidth, setStripWidth] = useState(0);
+
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const leftPileX = useSharedValue(0);
+  const rightPileX = useSharedValue(0);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const fannedDeck = useMemo(() => (cut === null ? deck : cutDeck(deck, cut)), [deck, cut]);
+
+  const leftPileStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: leftPileX.value }],
+  }));
+  const rightPileStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: rightPileX.value }],
+  }));
+
+  const later = (callback: () => void, delay: number) => {
+    timersRef.current.push(setTimeout(callback, delay));
+  };
+
+  // Each shuffle riffles the two halves together and lays out a freshly shuffled deck
+  const handleShuffle = () => {
+    if (isShuffling) return;
+    hapticMedium();
+    setIsShuffling(true);
+
+    const pass = SHUFFLE_DURATION / 6;
+    leftPileX.value = withRepeat(
+      withSequence(withTiming(-PILE_CARD_WIDTH / 2, { duration: pass }), withTiming(0, { duration: pass })),
+      3
+    );
+    rightPileX.value = withRepeat(
+      withSequence(withTiming(PILE_CARD_WIDTH / 2, { duration: pass }), withTiming(0, { duration: pass })),
+      3
+    );
+
+    later(() => {
+      setDeck(shuffleDeck());
+      setHasShuffled(true);
+      setIsShuffling(false);
+    }, SHUFFLE_DURATION);
+  };
+
+  // The position tapped along the deck's edge decides how many cards are lifted
+  const handleCut = (event: GestureResponderEvent) => {
+    if (cut !== null || stripWidth === 0) return;
+    const ratio = Math.min(1, Math.max(0, event.nativeEvent.locationX / stripWidth));
+    const cutIndex = Math.min(deck.length - 1, Math.max(1, Math.round(ratio * deck.length)));
+    hapticMedium();
+    setCut(cutIndex);
+
+    // Swap the two piles, then lay the deck out in a fan
+    leftPileX.value = withSequence(
+      withTiming(PILE_CARD_WIDTH, { duration: 400 }),
+      withTiming(0, { duration: 400 })
+    );
+    rightPileX.value = withSequence(
+      withTiming(-PILE_CARD_WIDTH, { duration: 400 }),
+      withTiming(0, { duration: 400 })
+    );
+    later(() => setPhase('pick'), 900);
+  };
+
+  const handlePick = (index: number) => {
+    if (cut === null || picks.includes(index) || picks.length >= positionLabels.length) return;
+    const nextPicks = [...picks, index];
+    setPicks(nextPicks);
+
+    if (nextPicks.length === positionLabels.length) {
+      hapticSuccess();
+      later(() => onComplete({ deck, draw: { cut, picks: nextPicks } }), 600);
+    }
+  };
+
+  const handleStripLayout = (event: LayoutChangeEvent) => {
+    setStripWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderPiles = () => (
+    <View style={styles.piles}>
+      <Animated.View style={[styles.pile, leftPileStyle]}>
+        <TarotCard
+          card={deck[0]}
+          isRevealed={false}
+          onPress={phase === 'shuffle' ? handleShuffle : () => {}}
+          cardWidth={PILE_CARD_WIDTH}
+        />
+      </Animated.View>
+      <Animated.View style={[styles.pile, styles.pileRight, rightPileStyle]}>
+        <TarotCard
+          card={deck[deck.length - 1]}
+          isRevealed={false}
+          onPress={phase === 'shuffle' ? handleShuffle : () => {}}
+          cardWidth={PILE_CARD_WIDTH}
+        />
+      </Animated.View>
+    </View>
+  );
+
+  if (phase === 'shuffle') {
+    return (
+      <Animated.View entering={FadeIn.duration(400)} style={styles.container}>
+        <Text style={styles.instruction}>
+          Hold your intention in mind and shuffle{'\n'}until the deck feels ready.
+        </Text>
+        {renderPiles()}
+        <View style={styles.actions}>
+          <GoldButton
+            title={hasShuffled ? 'Shuffle Again' : 'Shuffle the Deck'}
+            onPress={handleShuffle}
+            loading={isShuffling}
+            variant={hasShuffled ? 'outline' : 'filled'}
+          />
+          {hasShuffled && (
+            <GoldButton
+              title="Cut the Deck"
+              onPress={() => setPhase('cut')}
+              disabled={isShuffling}
+            />
+          )}
+        </View>
+        <TouchableOpacity onPress={onCancel} style={styles.cancelButton}>
+          <Text style={styles.cancelText}>Return to the spreads</Text>
+        </TouchableOpacity>
+      </Animated.View>
+    );
+  }
+
+  if (phase === 'cut') {
+    return (
+      <Animated.View entering={FadeIn.duration(400)} style={styles.container}>
+        <Text style={styles.instruction}>
+          {cut === null
+            ? 'Tap the edge of the deck where you wish to cut it.'
+            : `Cut at card ${cut}.`}
+        </Text>
+        {renderPiles()}
+        <Pressable
+          style={styles.deckEdge}
+          onPress={handleCut}
+          onLayout={handleStripLayout}
+          disabled={cut !== null}
+        >
+          {deck.map((card, index) => (
+            <View
+              key={card.id}
+              style={[
+                styles.deckEdgeSliver,
+                cut !== null && index === cut && styles.deckEdgeCut,
+              ]}
+            />
+          ))}
+        </Pressable>
+      </Animated.View>
+    );
+  }
+
+  const nextLabel = positionLabels[picks.length];
+
+  return (
+    <Animated.View entering={FadeIn.duration(400)} style={styles.container}>
+      <Text style={styles.instruction}>
+        {nextLabel
+          ? `Choose your ${nextLabel} card (${picks.length + 1} of ${positionLabels.length})`
+          : 'Your cards are chosen.'}
+      </Text>
+      <Text style={styles.hint}>Tap a card or drag it up from the fan.</Text>
+
+      {/* Chosen cards, in spread order */}
+      <View style={styles.chosenRow}>
+        {positionLabels.map((label, slot) => (
+          <View key={label + slot} style={styles.chosenSlot}>
+            {picks[slot] !== undefined ? (
+              <Animated.View entering={FadeInUp.duration(300)}>
+                <TarotCard
+                  card={fannedDeck[picks[slot]]}
+                  isRevealed={false}
+                  onPress={() => {}}
+                  cardWidth={FAN_CARD_WIDTH * 0.8}
+                />
+              </Animated.View>
+            ) : (
+              <View style={styles.emptySlot} />
+            )}
+            <Text style={styles.slotLabel} numberOfLines={1}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.fan}
+        contentContainerStyle={styles.fanContent}
+      >
+        {fannedDeck.map((card, index) => (
+          <FanCard
+            key={card.id}
+            card={card}
+            index={index}
+            total={fannedDeck.length}
+            isPicked={picks.includes(index)}
+            onPick={handlePick}
+          />
+        ))}
+      </ScrollView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  instruction: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 24,
+    marginBottom: Spacing.lg,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.moonlightGray,
+    fontStyle: 'italic',
+    marginTop: -Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  piles: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: Spacing.xl,
+  },
+  pile: {
+    zIndex: 2,
+  },
+  pileRight: {
+    marginLeft: -PILE_CARD_WIDTH / 2,
+    zIndex: 1,
+  },
+  actions: {
+    alignSelf: 'stretch',
+    gap: Spacing.md,
+  },
+  cancelButton: {
+    marginTop: Spacing.lg,
+    padding: Spacing.sm,
+  },
+  cancelText: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    fontFamily: Fonts.body,
+    textDecorationLine: 'underline',
+  },
+  deckEdge: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    height: 56,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+    backgroundColor: 'rgba(221, 133, 216, 0.08)',
+  },
+  deckEdgeSliver: {
+    flex: 1,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderRightColor: 'rgba(221, 133, 216, 0.35)',
+  },
+  deckEdgeCut: {
+    backgroundColor: Colors.celestialGold,
+  },
+  chosenRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  chosenSlot: {
+    alignItems: 'center',
+    width: FAN_CARD_WIDTH,
+  },
+  emptySlot: {
+    width: FAN_CARD_WIDTH * 0.8,
+    height: FAN_CARD_WIDTH * 0.8 * 1.6,
+    marginHorizontal: Spacing.xs,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+  },
+  slotLabel: {
+    fontSize: 10,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  fan: {
+    alignSelf: 'stretch',
+    marginHorizontal: -Spacing.xl,
+    flexGrow: 0,
+  },
+  fanContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: DRAG_PICK_THRESHOLD,
+    paddingBottom: FAN_ARC_DEPTH + Spacing.lg,
+  },
+  fanCard: {
+    zIndex: 1,
+  },
+  fanCardPicked: {
+    opacity: 0,
+  },
+});
@@ -0,0 +1,106 @@
+// Spread Layout Component - Positions cards according to a spread definition
+import React, { useState } from 'react';
+import { StyleSheet, View, LayoutChangeEvent } from 'react-native';
+import TarotCard, { CARD_WIDTH, CARD_ASPECT_RATIO } from '@/components/TarotCard';
+import { Spacing } from '@/constants/theme';
+import { getSpreadPosition } from '@/data/spreads';
+import { CardReading, SpreadDefinition } from '@/types';
+
+// Vertical room reserved under each card for its position label
+const LABEL_HEIGHT = 24;
+
+interface Props {
+  spread: SpreadDefinition;
+  cards: CardReading[];
+  cardImages: Record<number, string | null>;
+  generatingCardIds: Set<number>;
+  onRevealCard: (index: number) => void;
+}
+
+export default function SpreadLayout({
+  spread,
+  cards,
+  cardImages,
+  generatingCardIds,
+  onRevealCard,
+}: Props) {
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setContainerWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderCard = (cardReading: CardReading, index: number, cardWidth?: number) => {
+    const position = getSpreadPosition(spread, cardReading.position);
+    return (
+      <TarotCard
+        key={cardReading.card.id}
+        card={cardReading.card}
+        positionLabel={position?.rotated ? undefined : position?.label}
+        isRevealed={cardReading.isRevealed}
+        isReversed={cardReading.isReversed}
+        onPress={() => onRevealCard(index)}
+        shortDescription={cardWidth ? undefined : cardReading.shortDescription}
+        imageUri={cardImages[cardReading.card.id] || null}
+        isGenerating={generatingCardIds.has(cardReading.card.id)}
+        cardWidth={cardWidth}
+        rotated={position?.rotated}
+      />
+    );
+  };
+
+  // Single-row spreads keep the flowing layout with descriptions under each card
+  if (spread.layout.rows === 1) {
+    return (
+      <View style={styles.row}>
+        {cards.map((cardReading, index) => renderCard(cardReading, index))}
+      </View>
+    );
+  }
+
+  const cellWidth = containerWidth / spread.layout.columns;
+  const cardWidth = Math.min(cellWidth - Spacing.sm, CARD_WIDTH);
+  const cellHeight = cardWidth * CARD_ASPECT_RATIO + LABEL_HEIGHT;
+
+  return (
+    <View
+      style={[styles.canvas, { height: cellHeight * spread.layout.rows }]}
+      onLayout={handleLayout}
+    >
+      {containerWidth > 0 && cards.map((cardReading, index) => {
+        const position = getSpreadPosition(spread, cardReading.position);
+        if (!position) return null;
+        return (
+          <View
+            key={cardReading.card.id}
+            style={[
+              styles.slot,
+              {
+                left: position.x * cellWidth + (cellWidth - cardWidth) / 2,
+                top: position.y * cellHeight,
+                zIndex: position.rotated ? 2 : 1,
+              },
+            ]}
+          >
+            {renderCard(cardReading, index, cardWidth)}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  canvas: {
+    position: 'relative',
+    width: '100%',
+  },
+  slot: {
+    position: 'absolute',
+  },
+});
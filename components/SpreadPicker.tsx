@@ -0,0 +1,96 @@
+// Spread Picker Component - Horizontal chips for choosing a tarot spread
+import React from 'react';
+import { StyleSheet, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+import { spreads, getSpreadById } from '@/data/spreads';
+import { hapticSelection } from '@/utils/haptics';
+
+interface Props {
+  selectedSpreadId: string;
+  onSelect: (spreadId: string) => void;
+}
+
+export default function SpreadPicker({ selectedSpreadId, onSelect }: Props) {
+  const selectedSpread = getSpreadById(selectedSpreadId);
+
+  const handleSelect = (spreadId: string) => {
+    hapticSelection();
+    onSelect(spreadId);
+  };
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.picker}
+        contentContainerStyle={styles.pickerContent}
+      >
+        {spreads.map(spread => (
+          <TouchableOpacity
+            key={spread.id}
+            style={[
+              styles.chip,
+              selectedSpreadId === spread.id && styles.chipActive,
+            ]}
+            onPress={() => handleSelect(spread.id)}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                selectedSpreadId === spread.id && styles.chipTextActive,
+              ]}
+            >
+              {spread.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <Text style={styles.description}>
+        {selectedSpread.description} ({selectedSpread.positions.length} cards)
+      </Text>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  picker: {
+    alignSelf: 'stretch',
+    marginHorizontal: -Spacing.xl,
+    flexGrow: 0,
+  },
+  pickerContent: {
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.3)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(221, 133, 216, 0.25)',
+    borderColor: Colors.celestialGold,
+  },
+  chipText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    fontFamily: Fonts.body,
+  },
+  chipTextActive: {
+    color: Colors.celestialGold,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 13,
+    color: Colors.moonlightGray,
+    textAlign: 'center',
+    fontFamily: Fonts.body,
+    lineHeight: 20,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+});
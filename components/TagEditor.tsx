@@ -0,0 +1,146 @@
+// Tag Editor - The seeker's own labels on a reading, added and removed in place
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius, Fonts } from '@/constants/theme';
+
+const MAX_TAG_LENGTH = 30;
+
+interface Props {
+  tags?: string[];
+  onSave: (tags: string[]) => Promise<boolean>; // False when the save failed and was reported
+}
+
+export default function TagEditor({ tags = [], onSave }: Props) {
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (updated: string[]) => {
+    setIsSaving(true);
+    if (await onSave(updated)) setNewTag('');
+    setIsSaving(false);
+  };
+
+  const handleAdd = () => {
+    const tag = newTag.trim();
+    if (!tag || isSaving) return;
+    if (tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+      setNewTag('');
+      return;
+    }
+    save([...tags, tag]);
+  };
+
+  const handleRemove = (tag: string) => {
+    if (isSaving) return;
+    save(tags.filter(t => t !== tag));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Tags</Text>
+      {tags.length > 0 && (
+        <View style={styles.chipRow}>
+          {tags.map(tag => (
+            <View key={tag} style={styles.chip}>
+              <Text style={styles.chipText}>#{tag}</Text>
+              <TouchableOpacity
+                onPress={() => handleRemove(tag)}
+                hitSlop={{ top: 10, bottom: 10, left: 6, right: 10 }}
+              >
+                <Ionicons name="close" size={14} color={Colors.celestialGold} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={newTag}
+          onChangeText={setNewTag}
+          onSubmitEditing={handleAdd}
+          placeholder="Add a tag, e.g. career"
+          placeholderTextColor={Colors.moonlightGray}
+          maxLength={MAX_TAG_LENGTH}
+          autoCorrect={false}
+          returnKeyType="done"
+          editable={!isSaving}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !newTag.trim() && styles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={!newTag.trim() || isSaving}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="add" size={18} color={Colors.celestialGold} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm + 2,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(221, 133, 216, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.celestialGold,
+    fontFamily: Fonts.body,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textPrimary,
+    fontFamily: Fonts.body,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.2)',
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: 'rgba(221, 133, 216, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -23,28 +23,37 @@ import { hapticLight } from '@/utils/haptics';
 import { getBundledAsset, cardBackAsset } from '@/assets/cards';
 
 const { width } = Dimensions.get('window');
-const CARD_WIDTH = (width - 80) / 3;
-const CARD_HEIGHT = CARD_WIDTH * 1.6;
+export const CARD_WIDTH = (width - 80) / 3;
+export const CARD_ASPECT_RATIO = 1.6;
+const CARD_HEIGHT = CARD_WIDTH * CARD_ASPECT_RATIO;
 
 interface Props {
   card: TarotCardType;
-  position: 'past' | 'present' | 'future';
+  positionLabel?: string;
   isRevealed: boolean;
+  isReversed?: boolean;
   onPress: () => void;
   shortDescription?: string;
   imageUri?: string | null;
   isGenerating?: boolean;
+  cardWidth?: number;
+  rotated?: boolean; // Laid sideways, e.g. the crossing card of a Celtic Cross
 }
 
 export default function TarotCard({
   card,
-  position,
+  positionLabel,
   isRevealed,
+  isReversed = false,
   onPress,
   shortDescription,
   imageUri,
   isGenerating = false,
+  cardWidth = CARD_WIDTH,
+  rotated = false,
 }: Props) {
+  const cardSize = { width: cardWidth, height: cardWidth * CARD_ASPECT_RATIO };
+
   const flipProgress = useSharedValue(isRevealed ? 1 : 0);
 
   React.useEffect(() => {
@@ -76,12 +85,6 @@ export default function TarotCard({
     };
   });
 
-  const positionLabel = {
-    past: 'Past',
-    present: 'Present',
-    future: 'Future',
-  };
-
   // Resolve image source - handles both bundled assets and URI strings
   const resolveImageSource = (uri: string | null | undefined, cardId?: number): ImageSource | null => {
     if (!uri) return null;
@@ -155,25 +158,31 @@ export default function TarotCard({
         activeOpacity={0.9}
         onPress={handlePress}
         disabled={isRevealed}
-        style={styles.cardContainer}
+        style={[styles.cardContainer, cardSize, rotated && styles.rotated]}
       >
         {/* Card Back (Face Down) */}
-        <Animated.View style={[styles.card, styles.cardBack, frontAnimatedStyle]}>
+        <Animated.View style={[styles.card, cardSize, styles.cardBack, frontAnimatedStyle]}>
           {renderCardBackContent()}
         </Animated.View>
 
         {/* Card Front (Face Up) */}
-        <Animated.View style={[styles.card, styles.cardFront, backAnimatedStyle]}>
+        <Animated.View style={[styles.card, cardSize, styles.cardFront, backAnimatedStyle]}>
           <LinearGradient
             colors={['#2D2418', '#1A1408', '#2D2418']}
             style={styles.cardFrontGradient}
           >
             <View style={styles.cardFrontBorder}>
-              {renderCardFrontContent()}
+              {/* Reversed cards show their artwork upside down */}
+              <View style={[styles.cardFrontContent, isReversed && styles.upsideDown]}>
+                {renderCardFrontContent()}
+              </View>
               <View style={styles.cardNameContainer}>
                 <Text style={styles.cardName} numberOfLines={2}>
                   {card.name}
                 </Text>
+                {isReversed && (
+                  <Text style={styles.reversedTag}>Reversed</Text>
+                )}
               </View>
             </View>
           </LinearGradient>
@@ -181,11 +190,18 @@ export default function TarotCard({
       </TouchableOpacity>
 
       {/* Position Label */}
-      <Text style={styles.positionLabel}>{positionLabel[position]}</Text>
+      {positionLabel && (
+        <Text
+          style={[styles.positionLabel, cardWidth < CARD_WIDTH && styles.positionLabelCompact]}
+          numberOfLines={1}
+        >
+          {positionLabel}
+        </Text>
+      )}
 
       {/* Description (shown when revealed) */}
       {isRevealed && shortDescription && (
-        <Text style={styles.description} numberOfLines={6}>
+        <Text style={[styles.description, { maxWidth: cardWidth + 30 }]} numberOfLines={6}>
           {shortDescription}
         </Text>
       )}
@@ -216,6 +232,15 @@ const styles = StyleSheet.create({
   cardFront: {
     zIndex: 1,
   },
+  rotated: {
+    transform: [{ rotate: '90deg' }],
+  },
+  cardFrontContent: {
+    flex: 1,
+  },
+  upsideDown: {
+    transform: [{ rotate: '180deg' }],
+  },
   cardBackImage: {
     flex: 1,
     borderRadius: BorderRadius.lg,
@@ -267,6 +292,14 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '600',
   },
+  reversedTag: {
+    color: Colors.moonlightGray,
+    fontSize: 8,
+    fontFamily: Fonts.body,
+    textAlign: 'center',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
   positionLabel: {
     color: Colors.textSecondary,
     fontSize: 16,
@@ -275,6 +308,11 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 1,
   },
+  positionLabelCompact: {
+    fontSize: 11,
+    marginTop: Spacing.xs,
+    letterSpacing: 0.5,
+  },
   description: {
     color: Colors.textSecondary,
     fontSize: 10,
@@ -283,6 +321,5 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 2,
     lineHeight: 14,
-    maxWidth: CARD_WIDTH + 30,
   },
 });
@@ -0,0 +1,163 @@
+// Tarot Spread Definitions
+import { ForecastType, SpreadDefinition, SpreadPosition } from '@/types';
+
+export const DEFAULT_SPREAD_ID = 'three-card';
+
+// Built-in spreads. Position coordinates are grid cells within each layout.
+export const spreads: SpreadDefinition[] = [
+  {
+    id: 'three-card',
+    name: 'Past, Present, Future',
+    description: 'The classic triad tracing where you have been and where you are heading.',
+    layout: { columns: 3, rows: 1 },
+    positions: [
+      { id: 'past', label: 'Past', meaning: 'Influences from the past that shaped this moment', x: 0, y: 0 },
+      { id: 'present', label: 'Present', meaning: 'The energy surrounding you right now', x: 1, y: 0 },
+      { id: 'future', label: 'Future', meaning: 'Where the current path is leading', x: 2, y: 0, isFuture: true },
+    ],
+  },
+  {
+    id: 'celtic-cross',
+    name: 'Celtic Cross',
+    description: 'A deep ten-card look at a situation, its roots and its likely outcome.',
+    layout: { columns: 4, rows: 4 },
+    positions: [
+      { id: 'present', label: 'Present', meaning: 'The heart of the matter', x: 1, y: 1.5 },
+      { id: 'challenge', label: 'Challenge', meaning: 'What crosses you or stands in the way', x: 1, y: 1.5, rotated: true },
+      { id: 'foundation', label: 'Foundation', meaning: 'The root cause beneath the situation', x: 1, y: 2.5 },
+      { id: 'recent-past', label: 'Recent Past', meaning: 'What is passing out of your life', x: 0, y: 1.5 },
+      { id: 'crown', label: 'Crown', meaning: 'Your conscious goal or best possible outcome', x: 1, y: 0.5 },
+      { id: 'near-future', label: 'Near Future', meaning: 'What is coming into your life soon', x: 2, y: 1.5 },
+      { id: 'self', label: 'Self', meaning: 'Your attitude and how you see yourself', x: 3, y: 3 },
+      { id: 'environment', label: 'Environment', meaning: 'The people and forces around you', x: 3, y: 2 },
+      { id: 'hopes-fears', label: 'Hopes & Fears', meaning: 'What you hope for and what you dread', x: 3, y: 1 },
+      { id: 'outcome', label: 'Outcome', meaning: 'Where this path ultimately leads', x: 3, y: 0, isFuture: true },
+    ],
+  },
+  {
+    id: 'horseshoe',
+    name: 'Horseshoe',
+    description: 'Seven cards arched like a horseshoe, offering practical guidance on a problem.',
+    layout: { columns: 5, rows: 3 },
+    positions: [
+      { id: 'past', label: 'Past', meaning: 'Past events affecting the question', x: 0, y: 0 },
+      { id: 'present', label: 'Present', meaning: 'Your current circumstances', x: 0.5, y: 1 },
+      { id: 'hidden', label: 'Hidden', meaning: 'Influences you are not yet aware of', x: 1, y: 2 },
+      { id: 'obstacles', label: 'Obstacles', meaning: 'What stands in your way', x: 2, y: 2 },
+      { id: 'others', label: 'Others', meaning: 'How the people around you affect things', x: 3, y: 2 },
+      { id: 'advice', label: 'Advice', meaning: 'The best course of action', x: 3.5, y: 1 },
+      { id: 'outcome', label: 'Outcome', meaning: 'The likely result', x: 4, y: 0, isFuture: true },
+    ],
+  },
+  {
+    id: 'relationship-cross',
+    name: 'Relationship Cross',
+    description: 'Five cards exploring two people and the bond between them.',
+    layout: { columns: 3, rows: 3 },
+    positions: [
+      { id: 'you', label: 'You', meaning: 'What you bring to the relationship', x: 0, y: 1 },
+      { id: 'partner', label: 'Partner', meaning: 'What they bring to the relationship', x: 2, y: 1 },
+      { id: 'connection', label: 'Connection', meaning: 'The current state of the bond', x: 1, y: 1 },
+      { id: 'foundation', label: 'Foundation', meaning: 'What the relationship rests upon', x: 1, y: 2 },
+      { id: 'potential', label: 'Potential', meaning: 'Where the relationship can grow', x: 1, y: 0, isFuture: true },
+    ],
+  },
+  {
+    id: 'five-card-decision',
+    name: 'Five-Card Decision',
+    description: 'Weigh two paths side by side before making a choice.',
+    layout: { columns: 4, rows: 2 },
+    positions: [
+      { id: 'situation', label: 'Situation', meaning: 'The decision you are facing', x: 1.5, y: 0.5 },
+      { id: 'path-a', label: 'Path A', meaning: 'The nature of the first option', x: 0, y: 0 },
+      { id: 'outcome-a', label: 'Outcome A', meaning: 'Where the first option leads', x: 0, y: 1 },
+      { id: 'path-b', label: 'Path B', meaning: 'The nature of the second option', x: 3, y: 0 },
+      { id: 'outcome-b', label: 'Outcome B', meaning: 'Where the second option leads', x: 3, y: 1 },
+    ],
+  },
+];
+
+// Single card drawn by the yes/no oracle - not offered in the spread picker
+export const yesNoSpread: SpreadDefinition = {
+  id: 'yes-no',
+  name: 'Yes / No Oracle',
+  description: 'One card answers a simple question.',
+  layout: { columns: 1, rows: 1 },
+  positions: [
+    { id: 'answer', label: 'Answer', meaning: 'The answer to the question asked', x: 0, y: 0 },
+  ],
+};
+
+// Spreads drawn once per period by forecast readings - not offered in the spread picker
+export const forecastSpreads: Record<ForecastType, SpreadDefinition> = {
+  weekly: {
+    id: 'card-of-the-week',
+    name: 'Card of the Week',
+    description: 'One card to carry with you through the week ahead.',
+    layout: { columns: 1, rows: 1 },
+    positions: [
+      { id: 'week', label: 'This Week', meaning: 'The energy guiding the week ahead', x: 0, y: 0 },
+    ],
+  },
+  monthly: {
+    id: 'month-ahead',
+    name: 'Month Ahead',
+    description: 'A theme for the month and a card for each of its weeks.',
+    layout: { columns: 4, rows: 2 },
+    positions: [
+      { id: 'theme', label: 'Theme', meaning: 'The overall theme of the month', x: 1.5, y: 0 },
+      { id: 'week-1', label: 'Week 1', meaning: 'What the first week brings', x: 0, y: 1 },
+      { id: 'week-2', label: 'Week 2', meaning: 'What the second week brings', x: 1, y: 1 },
+      { id: 'week-3', label: 'Week 3', meaning: 'What the third week brings', x: 2, y: 1 },
+      { id: 'week-4', label: 'Week 4', meaning: 'What the closing weeks bring', x: 3, y: 1 },
+    ],
+  },
+  yearly: {
+    id: 'year-ahead',
+    name: 'Year Ahead',
+    description: 'Twelve cards, one for each month of the year.',
+    layout: { columns: 4, rows: 3 },
+    positions: [
+      { id: 'january', label: 'January', meaning: 'The energy shaping January', x: 0, y: 0 },
+      { id: 'february', label: 'February', meaning: 'The energy shaping February', x: 1, y: 0 },
+      { id: 'march', label: 'March', meaning: 'The energy shaping March', x: 2, y: 0 },
+      { id: 'april', label: 'April', meaning: 'The energy shaping April', x: 3, y: 0 },
+      { id: 'may', label: 'May', meaning: 'The energy shaping May', x: 0, y: 1 },
+      { id: 'june', label: 'June', meaning: 'The energy shaping June', x: 1, y: 1 },
+      { id: 'july', label: 'July', meaning: 'The energy shaping July', x: 2, y: 1 },
+      { id: 'august', label: 'August', meaning: 'The energy shaping August', x: 3, y: 1 },
+      { id: 'september', label: 'September', meaning: 'The energy shaping September', x: 0, y: 2 },
+      { id: 'october', label: 'October', meaning: 'The energy shaping October', x: 1, y: 2 },
+      { id: 'november', label: 'November', meaning: 'The energy shaping November', x: 2, y: 2 },
+      { id: 'december', label: 'December', meaning: 'The energy shaping December', x: 3, y: 2 },
+    ],
+  },
+};
+
+const hiddenSpreads: SpreadDefinition[] = [yesNoSpread, ...Object.values(forecastSpreads)];
+
+// Helper functions
+export const getSpreadById = (id: string | undefined): SpreadDefinition => {
+  return spreads.find(spread => spread.id === id)
+    ?? hiddenSpreads.find(spread => spread.id === id)
+    ?? spreads.find(spread => spread.id === DEFAULT_SPREAD_ID)!;
+};
+
+export const getSpreadPosition = (
+  spread: SpreadDefinition,
+  positionId: string
+): SpreadPosition | undefined => {
+  return spread.positions.find(position => position.id === positionId);
+};
+
+// Falls back to a title-cased id for positions that are no longer defined
+export const getPositionLabel = (spread: SpreadDefinition, positionId: string): string => {
+  const position = getSpreadPosition(spread, positionId);
+  if (position) return position.label;
+  return positionId.charAt(0).toUpperCase() + positionId.slice(1);
+};
+
+// The position a check-back follow-up asks about, if the spread looks ahead at all
+export const getFuturePosition = (spread: SpreadDefinition): SpreadPosition | undefined => {
+  return spread.positions.find(position => position.isFuture);
+};
@@ -1,5 +1,12 @@
 // Complete 78-Card Tarot Deck Data
-import { TarotCard } from '@/types';
+import { TarotCard, DrawnCard, RitualDraw, ShuffleAudit, YesNoAnswer } from '@/types';
+import {
+  RandomSource,
+  secureRandom,
+  secureRandomIndex,
+  createSeededRandom,
+  shuffle,
+} from '@/utils/random';
 
 // Major Arcana (22 cards)
 const majorArcana: TarotCard[] = [
@@ -866,18 +873,171 @@ export const tarotDeck: TarotCard[] = [
   ...pentacles,
 ];
 
+// How each card answers a yes/no question when drawn upright, keyed by card id
+const yesNoPolarity: Record<number, YesNoAnswer> = {
+  // Major Arcana
+  0: 'yes', 1: 'yes', 2: 'maybe', 3: 'yes', 4: 'yes', 5: 'yes', 6: 'yes', 7: 'yes',
+  8: 'yes', 9: 'maybe', 10: 'yes', 11: 'maybe', 12: 'maybe', 13: 'no', 14: 'yes',
+  15: 'no', 16: 'no', 17: 'yes', 18: 'no', 19: 'yes', 20: 'yes', 21: 'yes',
+  // Wands
+  22: 'yes', 23: 'maybe', 24: 'yes', 25: 'yes', 26: 'no', 27: 'yes', 28: 'maybe',
+  29: 'yes', 30: 'maybe', 31: 'no', 32: 'yes', 33: 'yes', 34: 'yes', 35: 'yes',
+  // Cups
+  36: 'yes', 37: 'yes', 38: 'yes', 39: 'maybe', 40: 'no', 41: 'yes', 42: 'maybe',
+  43: 'no', 44: 'yes', 45: 'yes', 46: 'yes', 47: 'yes', 48: 'yes', 49: 'yes',
+  // Swords
+  50: 'yes', 51: 'maybe', 52: 'no', 53: 'maybe', 54: 'no', 55: 'maybe', 56: 'no',
+  57: 'no', 58: 'no', 59: 'no', 60: 'maybe', 61: 'maybe', 62: 'maybe', 63: 'maybe',
+  // Pentacles
+  64: 'yes', 65: 'maybe', 66: 'yes', 67: 'maybe', 68: 'no', 69: 'yes', 70: 'maybe',
+  71: 'yes', 72: 'yes', 73: 'yes', 74: 'yes', 75: 'maybe', 76: 'yes', 77: 'yes',
+};
+
+export const yesNoLabels: Record<YesNoAnswer, string> = {
+  yes: 'Yes',
+  no: 'No',
+  maybe: 'Maybe',
+};
+
 // Helper functions
 export const getCardById = (id: number): TarotCard | undefined => {
   return tarotDeck.find(card => card.id === id);
 };
 
-export const getRandomCards = (count: number): TarotCard[] => {
-  const shuffled = [...tarotDeck].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
+export const getRandomCards = (count: number, random?: RandomSource): TarotCard[] => {
+  return shuffle(tarotDeck, random).slice(0, count);
+};
+
+// Deal cards in order, giving each one an orientation from the same source
+const dealCards = (
+  cards: TarotCard[],
+  reversalProbability: number,
+  random: RandomSource
+): DrawnCard[] => {
+  return cards.map(card => ({
+    card,
+    isReversed: random() < reversalProbability,
+  }));
+};
+
+// A freshly shuffled deck, as laid out face down for ritual draws
+export const shuffleDeck = (): TarotCard[] => {
+  return shuffle(tarotDeck);
+};
+
+// Lift `cut` cards off the top and place them underneath
+export const cutDeck = <T>(deck: readonly T[], cut: number): T[] => {
+  const index = ((cut % deck.length) + deck.length) % deck.length;
+  return [...deck.slice(index), ...deck.slice(0, index)];
+};
+
+// The cards dealt from a deck: the top `count`, or the seeker's picks once it is cut
+const chooseCards = <T>(deck: T[], count: number, ritual?: RitualDraw): T[] => {
+  if (!ritual) return deck.slice(0, count);
+  const fannedDeck = cutDeck(deck, ritual.cut);
+  return ritual.picks.map(position => fannedDeck[position]);
+};
+
+/**
+ * Draw cards from a fresh (or given) secure shuffle and record how the draw was dealt.
+ * Without a ritual the top `count` cards are dealt; with one, the deck is cut and
+ * the seeker's picks are dealt instead.
+ */
+export const drawCards = (
+  count: number,
+  reversalProbability: number = 0,
+  deck: TarotCard[] = shuffleDeck(),
+  ritual?: RitualDraw
+): { cards: DrawnCard[]; audit: ShuffleAudit } => {
+  const cards = dealCards(chooseCards(deck, count, ritual), reversalProbability, secureRandom);
+
+  return {
+    cards,
+    audit: {
+      algorithm: 'fisher-yates-secure',
+      reversalProbability,
+      deckOrder: deck.map(card => card.id),
+      reversals: cards.map(drawn => drawn.isReversed),
+      ...(ritual && { ritual }),
+    },
+  };
+};
+
+// Draw a single card from what is left once the `excludedIds` are set aside
+export const drawFromRemaining = (
+  excludedIds: number[],
+  reversalProbability: number = 0,
+  random?: RandomSource
+): DrawnCard | null => {
+  const remaining = tarotDeck.filter(card => !excludedIds.includes(card.id));
+  if (remaining.length === 0) return null;
+
+  const index = random ? Math.floor(random() * remaining.length) : secureRandomIndex(remaining.length);
+  return dealCards([remaining[index]], reversalProbability, random ?? secureRandom)[0];
+};
+
+// Re-deal a recorded draw: older readings replay their seed, newer ones their recorded deck
+export const replayDraw = (audit: ShuffleAudit, count: number): DrawnCard[] => {
+  if (audit.algorithm === 'fisher-yates-mulberry32') {
+    const random = createSeededRandom(audit.seed);
+    const deck = shuffle(tarotDeck, random);
+    return dealCards(chooseCards(deck, count, audit.ritual), audit.reversalProbability, random);
+  }
+
+  const deck = audit.deckOrder.map(id => getCardById(id));
+  return chooseCards(deck, count, audit.ritual).flatMap((card, index) =>
+    card ? [{ card, isReversed: Boolean(audit.reversals[index]) }] : []
+  );
+};
+
+// The recorded deck order must be what the seed shuffles to, or at least one whole deck
+const isDeckOrderValid = (audit: ShuffleAudit): boolean => {
+  if (audit.algorithm === 'fisher-yates-mulberry32') {
+    const deck = shuffle(tarotDeck, createSeededRandom(audit.seed));
+    return deck.every((card, index) => card.id === audit.deckOrder[index]);
+  }
+
+  const ids = new Set(audit.deckOrder);
+  return audit.deckOrder.length === tarotDeck.length &&
+    ids.size === tarotDeck.length &&
+    tarotDeck.every(card => ids.has(card.id));
+};
+
+// Check that a reading's cards are exactly what its recorded shuffle produces
+export const verifyDraw = (
+  audit: ShuffleAudit,
+  drawn: { card: TarotCard; isReversed?: boolean }[]
+): boolean => {
+  const replayed = replayDraw(audit, drawn.length);
+
+  return isDeckOrderValid(audit) && replayed.length === drawn.length && replayed.every((expected, index) =>
+    expected.card.id === drawn[index].card.id &&
+    expected.isReversed === Boolean(drawn[index].isReversed)
+  );
+};
+
+// A reversed card flips a clear yes or no; a maybe stays a maybe
+export const getYesNoAnswer = (card: TarotCard, isReversed: boolean = false): YesNoAnswer => {
+  const polarity = yesNoPolarity[card.id] ?? 'maybe';
+  if (!isReversed || polarity === 'maybe') return polarity;
+  return polarity === 'yes' ? 'no' : 'yes';
+};
+
+export const getCardMeaning = (card: TarotCard, isReversed: boolean = false): string => {
+  return isReversed ? card.reversedMeaning : card.uprightMeaning;
+};
+
+export const getCardDisplayName = (card: TarotCard, isReversed: boolean = false): string => {
+  return isReversed ? `${card.name} (Reversed)` : card.name;
 };
 
 export const getMajorArcana = (): TarotCard[] => majorArcana;
 
+// Numerology counts The Fool as 22 as well as 0
+export const getMajorArcanaByNumber = (num: number): TarotCard | undefined => {
+  return majorArcana.find(card => card.id === num % 22);
+};
+
 export const getMinorArcana = (): TarotCard[] => [...wands, ...cups, ...swords, ...pentacles];
 
 export const getCardsBySuit = (suit: TarotCard['suit']): TarotCard[] => {
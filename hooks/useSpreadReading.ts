@@ -0,0 +1,224 @@
+// Hook for drawing a spread, interpreting it with AI and revealing its cards
+import { useState, useEffect, useCallback, useRef, Dispatch, SetStateAction } from 'react';
+import { Alert } from 'react-native';
+import { useTextGeneration } from '@fastshot/ai';
+import { getCardImageUri } from '@/utils/imageStorage';
+import { saveMoodCheckIn } from '@/utils/storage';
+import { cancelCheckBack } from '@/utils/notifications';
+import { trackReadingCompletion } from '@/utils/rating';
+import { generateCardImage } from '@/services/cardImageService';
+import {
+  ReadingDraw,
+  DrawInterpretation,
+  drawSpread,
+  interpretDraw,
+} from '@/services/readingService';
+import {
+  CardReading,
+  DailyReading,
+  MoodCheckIn,
+  RitualDraw,
+  SpreadDefinition,
+  TarotCard,
+} from '@/types';
+
+// One reading as a screen asks for it
+interface ReadingRequest {
+  spread: SpreadDefinition;
+  ritual?: { deck: TarotCard[]; draw: RitualDraw }; // The seeker's own shuffle, cut and picks
+  buildPrompt: (draw: ReadingDraw) => string;
+  // Turn the draw and its interpretation into the reading to keep
+  buildReading: (
+    draw: ReadingDraw,
+    interpretation: DrawInterpretation,
+    moodBefore: MoodCheckIn | undefined
+  ) => DailyReading | Promise<DailyReading>;
+  trackCompletion?: boolean; // Counts towards the app review prompt; defaults to true
+}
+
+interface UseSpreadReadingOptions {
+  // Persist the reading wherever the screen keeps it, on creation and after every change
+  saveReading: (reading: DailyReading) => Promise<void>;
+}
+
+interface UseSpreadReadingReturn {
+  reading: DailyReading | null;
+  setReading: Dispatch<SetStateAction<DailyReading | null>>;
+  isGenerating: boolean;
+  moodBefore: MoodCheckIn | undefined;
+  setMoodBefore: (checkIn: MoodCheckIn | undefined) => void;
+  cardImages: Record<number, string | null>;
+  generatingCardIds: Set<number>;
+  loadCardImages: (cards: CardReading[]) => Promise<void>;
+  startReading: (request: ReadingRequest) => Promise<void>;
+  revealCard: (index: number) => Promise<void>;
+  updateReading: (reading: DailyReading) => Promise<void>; // e.g. when a clarifier is drawn
+  saveMoodAfter: (checkIn: MoodCheckIn | undefined) => Promise<void>;
+}
+
+// The draw waiting on its AI interpretation, with what is needed to finish it
+interface PendingReading {
+  draw: ReadingDraw;
+  request: ReadingRequest;
+  moodBefore: MoodCheckIn | undefined;
+}
+
+export const useSpreadReading = ({ saveReading }: UseSpreadReadingOptions): UseSpreadReadingReturn => {
+  const [reading, setReading] = useState<DailyReading | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [moodBefore, setMoodBefore] = useState<MoodCheckIn | undefined>();
+  const [cardImages, setCardImages] = useState<Record<number, string | null>>({});
+  const [generatingCardIds, setGeneratingCardIds] = useState<Set<number>>(new Set());
+
+  // The AI callbacks outlive the render that started them, so they read these refs
+  const pendingRef = useRef<PendingReading | null>(null);
+  const saveReadingRef = useRef(saveReading);
+
+  useEffect(() => {
+    saveReadingRef.current = saveReading;
+  }, [saveReading]);
+
+  // Show any images already generated for the cards, replacing those of an earlier reading
+  const loadCardImages = useCallback(async (cards: CardReading[]) => {
+    const images: Record<number, string | null> = {};
+    for (const { card } of cards) {
+      const uri = await getCardImageUri(card.id);
+      if (uri) {
+        images[card.id] = uri;
+      }
+    }
+    setCardImages(images);
+  }, []);
+
+  const finalizeReading = useCallback(async (aiResponse: string | null) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    const { draw, request } = pending;
+    let newReading: DailyReading | undefined;
+    let isSaved = false;
+    try {
+      newReading = await request.buildReading(
+        draw,
+        interpretDraw(draw, aiResponse),
+        pending.moodBefore
+      );
+      await saveReadingRef.current(newReading);
+      isSaved = true;
+      if (request.trackCompletion ?? true) {
+        await trackReadingCompletion();
+      }
+      setReading(newReading);
+      setMoodBefore(undefined);
+      await loadCardImages(newReading.cards);
+    } catch (error) {
+      console.error('Error saving reading:', error);
+      // A reading that was never kept must not leave its check-back reminder behind
+      const notificationId = newReading?.checkBack?.notificationId;
+      if (notificationId && !isSaved) {
+        await cancelCheckBack(notificationId);
+      }
+      Alert.alert('Reading Failed', 'Unable to save your reading. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [loadCardImages]);
+
+  const { generateText } = useTextGeneration({
+    onSuccess: (response) => {
+      finalizeReading(response);
+    },
+    onError: (error) => {
+      console.error('AI error:', error);
+      // Still finalize with defaults on error
+      finalizeReading(null);
+    },
+  });
+
+  const startReading = async (request: ReadingRequest) => {
+    setIsGenerating(true);
+    try {
+      const draw = await drawSpread(request.spread, request.ritual);
+      pendingRef.current = { draw, request, moodBefore };
+      await generateText(request.buildPrompt(draw));
+    } catch (error) {
+      console.error('Error generating reading:', error);
+      if (pendingRef.current) {
+        await finalizeReading(null);
+      } else {
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  // Generate a card's artwork the first time it is revealed
+  const triggerCardImageGeneration = async (cardReading: CardReading) => {
+    const cardId = cardReading.card.id;
+    if (cardImages[cardId] || generatingCardIds.has(cardId)) {
+      return;
+    }
+
+    setGeneratingCardIds(prev => new Set(prev).add(cardId));
+    try {
+      const uri = await generateCardImage(cardReading.card);
+      if (uri) {
+        setCardImages(prev => ({ ...prev, [cardId]: uri }));
+      }
+    } catch (error) {
+      console.error(`Error generating image for card ${cardId}:`, error);
+    } finally {
+      setGeneratingCardIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(cardId);
+        return newSet;
+      });
+    }
+  };
+
+  const updateReading = async (updatedReading: DailyReading) => {
+    setReading(updatedReading);
+    try {
+      await saveReadingRef.current(updatedReading);
+    } catch (error) {
+      console.error('Error saving reading:', error);
+      Alert.alert('Save Failed', 'Unable to save your reading. Please try again.');
+    }
+  };
+
+  const revealCard = async (index: number) => {
+    if (!reading) return;
+
+    const updatedCards = [...reading.cards];
+    updatedCards[index] = { ...updatedCards[index], isRevealed: true };
+    triggerCardImageGeneration(updatedCards[index]);
+    await updateReading({ ...reading, cards: updatedCards });
+  };
+
+  // Check in once the reading has been taken in; changes are saved as they're made
+  const saveMoodAfter = async (checkIn: MoodCheckIn | undefined) => {
+    if (!reading) return;
+    setReading({ ...reading, moodAfter: checkIn });
+    try {
+      await saveMoodCheckIn(reading.id, 'after', checkIn);
+    } catch (error) {
+      console.error('Error saving mood check-in:', error);
+      Alert.alert('Save Failed', 'Unable to save your check-in. Please try again.');
+    }
+  };
+
+  return {
+    reading,
+    setReading,
+    isGenerating,
+    moodBefore,
+    setMoodBefore,
+    cardImages,
+    generatingCardIds,
+    loadCardImages,
+    startReading,
+    revealCard,
+    updateReading,
+    saveMoodAfter,
+  };
+};
@@ -0,0 +1,68 @@
+// Hook for streaming AI text as it is written, with the option to stop early
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { StreamCancelledError, streamTextGeneration } from '@/services/textStreamService';
+
+interface UseTextStreamOptions {
+  onSuccess?: (text: string) => void;
+  onError?: (error: Error) => void;
+  onCancel?: (text: string) => void; // Receives whatever had arrived before the stop
+}
+
+interface UseTextStreamReturn {
+  streamText: (prompt: string) => Promise<void>;
+  cancel: () => void;
+  streamingText: string | null; // Text so far while a stream is in flight
+  isLoading: boolean;
+}
+
+export const useTextStream = (options: UseTextStreamOptions = {}): UseTextStreamReturn => {
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Controller for the stream in flight, so it can be cancelled
+  const controllerRef = useRef<AbortController | null>(null);
+  // Latest callbacks, so a stream started before a re-render reports to the current ones
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  // Stop any stream when the component unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const streamText = useCallback(async (prompt: string) => {
+    // Starting a new stream stops any still in flight
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsLoading(true);
+    setStreamingText('');
+    try {
+      const text = await streamTextGeneration(prompt, {
+        signal: controller.signal,
+        onText: (_delta, textSoFar) => setStreamingText(textSoFar),
+      });
+      optionsRef.current.onSuccess?.(text);
+    } catch (error) {
+      if (error instanceof StreamCancelledError) {
+        optionsRef.current.onCancel?.(error.text);
+      } else {
+        optionsRef.current.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      // A newer stream owns the loading state once it has started
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setStreamingText(null);
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { streamText, cancel, streamingText, isLoading };
+};
@@ -0,0 +1,250 @@
+// Reading Service - Draws spreads and turns AI interpretations into card readings
+import { drawCards, drawFromRemaining, getCardMeaning, getCardDisplayName } from '@/data/tarotDeck';
+import { getSpreadById, getPositionLabel } from '@/data/spreads';
+import { getReversalPreference, getReversalProbability } from '@/utils/reversals';
+import { formatDateLong } from '@/utils/formatDate';
+import { FORECAST_LABELS, MONTH_NAMES, formatForecastPeriod, parseDateString } from '@/utils/forecast';
+import { calculatePersonalYearNumber, calculatePersonalMonthNumber } from '@/utils/numerology';
+import {
+  CardReading,
+  ClarifierCard,
+  DailyReading,
+  DrawnCard,
+  ForecastPeriod,
+  ForecastType,
+  PartnerProfile,
+  RitualDraw,
+  ShuffleAudit,
+  SpreadDefinition,
+  TarotCard,
+  UserProfile,
+  YesNoAnswer,
+} from '@/types';
+
+// Cards drawn for a spread, held while the AI interpretation is generated
+export interface ReadingDraw {
+  spread: SpreadDefinition;
+  cards: DrawnCard[];
+  audit: ShuffleAudit;
+}
+
+// The card readings and closing message made from an AI response, or defaults without one
+export interface DrawInterpretation {
+  cards: CardReading[];
+  mainExplanation: string;
+}
+
+export interface ReadingPromptOptions {
+  seekerContext: string; // Who the reader is speaking to
+  occasion: string; // e.g. "For their daily reading"
+  guidanceContext: string; // What the closing message should focus on
+}
+
+// Join card names into a readable list ("A, B, and C")
+export const formatCardNames = (cards: DrawnCard[]): string => {
+  const names = cards.map(drawn => getCardDisplayName(drawn.card, drawn.isReversed));
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+};
+
+// Describe someone's birth for a prompt ("born on ... at ... in ...")
+export const formatBirthDetails = (profile: UserProfile | PartnerProfile): string => {
+  let details = `born on ${formatDateLong(profile.dateOfBirth)}`;
+  if (profile.timeOfBirth) details += ` at ${profile.timeOfBirth}`;
+  if (profile.placeOfBirth) details += ` in ${profile.placeOfBirth}`;
+  return details;
+};
+
+// Draw one card per spread position, honouring the user's reversal preference.
+// A ritual draw deals the seeker's picks from the deck they shuffled.
+export const drawSpread = async (
+  spread: SpreadDefinition,
+  ritual?: { deck: TarotCard[]; draw: RitualDraw }
+): Promise<ReadingDraw> => {
+  const reversalPreference = await getReversalPreference();
+  const { cards, audit } = drawCards(
+    spread.positions.length,
+    getReversalProbability(reversalPreference),
+    ritual?.deck,
+    ritual?.draw
+  );
+  return { spread, cards, audit };
+};
+
+export const buildReadingPrompt = (
+  { spread, cards }: ReadingDraw,
+  { seekerContext, occasion, guidanceContext }: ReadingPromptOptions
+): string => {
+  const drawnCards = spread.positions.map((position, index) => {
+    const { card, isReversed } = cards[index];
+    return `${index + 1}. ${position.label.toUpperCase()} (${position.meaning}): ${getCardDisplayName(card, isReversed)} - ${getCardMeaning(card, isReversed)}`;
+  }).join('\n');
+
+  const hasReversals = cards.some(drawn => drawn.isReversed);
+
+  const positionFormat = spread.positions.map(position =>
+    `    "${position.id}": "Brief insight for the ${position.label} card (max 15 words)"`
+  ).join(',\n');
+
+  return `${seekerContext}
+
+${occasion} using the ${spread.name} spread, these ${cards.length} cards were drawn:
+${drawnCards}
+${hasReversals ? '\nCards marked (Reversed) were drawn upside down: interpret them with their reversed meaning, as blocked, internalized or delayed energy.\n' : ''}
+Provide a mystical interpretation in this exact JSON format (no other text, no markdown):
+{
+  "positions": {
+${positionFormat}
+  },
+  "dailyMessage": "A paragraph (60-80 words) weaving all ${cards.length} cards together ${guidanceContext}"
+}`;
+};
+
+// Prompt options for a forecast, grounded in the period and the seeker's personal numbers
+export const buildForecastPromptOptions = (
+  type: ForecastType,
+  period: ForecastPeriod,
+  profile: UserProfile
+): ReadingPromptOptions => {
+  const start = parseDateString(period.start);
+  const year = start.getFullYear();
+  const month = start.getMonth() + 1;
+  const personalYear = calculatePersonalYearNumber(profile.dateOfBirth, year);
+  const range = formatForecastPeriod(type, period);
+
+  let numerology = `In numerology, ${year} is their Personal Year ${personalYear}`;
+  if (type !== 'yearly') {
+    const personalMonth = calculatePersonalMonthNumber(profile.dateOfBirth, year, month);
+    numerology += ` and ${MONTH_NAMES[start.getMonth()]} is their Personal Month ${personalMonth}`;
+  }
+
+  return {
+    seekerContext: `You are a mystical tarot reader. The seeker is ${profile.fullName}, ${formatBirthDetails(profile)}. ${numerology}.`,
+    occasion: `For their ${FORECAST_LABELS[type].toLowerCase()} forecast covering ${range} (${period.start} to ${period.end})`,
+    guidanceContext: `into guidance for ${range}, coloured by the themes of their personal numbers`,
+  };
+};
+
+// Build the card readings for a draw, filling gaps in the AI response with card meanings
+export const interpretDraw = (
+  { spread, cards }: ReadingDraw,
+  aiResponse: string | null
+): DrawInterpretation => {
+  const defaultInsights: Record<string, string> = {};
+  spread.positions.forEach((position, index) => {
+    const { card, isReversed } = cards[index];
+    defaultInsights[position.id] = getCardMeaning(card, isReversed);
+  });
+
+  let interpretations = {
+    positions: defaultInsights,
+    dailyMessage: `Today's energies suggest a significant shift. The combination of ${formatCardNames(cards)} speaks to your journey of transformation. Trust in the cosmic flow and embrace the wisdom these cards offer.`,
+  };
+
+  if (aiResponse) {
+    try {
+      // Try to extract JSON from the response (handle markdown code blocks)
+      let jsonStr = aiResponse;
+      const jsonMatch = aiResponse.match(/```(?:json)?\s*([\s\S]*?)```/);
+      if (jsonMatch) {
+        jsonStr = jsonMatch[1].trim();
+      }
+      const parsed = JSON.parse(jsonStr);
+      interpretations = {
+        positions: { ...interpretations.positions, ...parsed.positions },
+        dailyMessage: parsed.dailyMessage || interpretations.dailyMessage,
+      };
+    } catch (parseError) {
+      console.warn('Failed to parse AI response, using defaults:', parseError);
+    }
+  }
+
+  return {
+    cards: spread.positions.map((position, index) => ({
+      card: cards[index].card,
+      position: position.id,
+      isReversed: cards[index].isReversed,
+      isRevealed: false,
+      shortDescription: interpretations.positions[position.id],
+    })),
+    mainExplanation: interpretations.dailyMessage,
+  };
+};
+
+// Draw a clarifier from the cards not already on the table, honouring the reversal preference
+export const drawClarifier = async (reading: DailyReading): Promise<DrawnCard | null> => {
+  const drawnIds = reading.cards.flatMap(cardReading => [
+    cardReading.card.id,
+    ...(cardReading.clarifiers ?? []).map(clarifier => clarifier.card.id),
+  ]);
+  const reversalPreference = await getReversalPreference();
+  return drawFromRemaining(drawnIds, getReversalProbability(reversalPreference));
+};
+
+export const buildClarifierPrompt = (
+  reading: DailyReading,
+  positionId: string,
+  clarifier: DrawnCard
+): string => {
+  const spread = getSpreadById(reading.spreadId);
+  const cardReading = reading.cards.find(c => c.position === positionId);
+  const position = spread.positions.find(p => p.id === positionId);
+  const originalCard = cardReading
+    ? getCardDisplayName(cardReading.card, cardReading.isReversed)
+    : 'an unknown card';
+  const clarifierName = getCardDisplayName(clarifier.card, clarifier.isReversed);
+
+  return `You are a mystical tarot reader. ${reading.userProfile.fullName} drew ${originalCard} in the ${getPositionLabel(spread, positionId).toUpperCase()} position${position ? ` (${position.meaning})` : ''} of a ${spread.name} spread${reading.question ? `, asking "${reading.question}"` : ''}.
+${cardReading?.shortDescription ? `\nThat card was read as: ${cardReading.shortDescription}\n` : ''}
+To understand it better they drew a clarifier: ${clarifierName} - ${getCardMeaning(clarifier.card, clarifier.isReversed)}
+
+In 40-60 words, explain how ${clarifierName} sheds light on ${originalCard} in this position. Reply with plain prose only - no JSON, no markdown, no headings.`;
+};
+
+// Turn the AI reply into a clarifier, falling back to the card's meaning
+export const interpretClarifier = (
+  clarifier: DrawnCard,
+  aiResponse: string | null
+): ClarifierCard => {
+  const interpretation = aiResponse?.trim()
+    || getCardMeaning(clarifier.card, clarifier.isReversed);
+  return {
+    card: clarifier.card,
+    isReversed: clarifier.isReversed,
+    interpretation,
+  };
+};
+
+// Attach a clarifier to the card at a position
+export const addClarifier = (
+  reading: DailyReading,
+  positionId: string,
+  clarifier: ClarifierCard
+): DailyReading => ({
+  ...reading,
+  cards: reading.cards.map(cardReading =>
+    cardReading.position === positionId
+      ? { ...cardReading, clarifiers: [...(cardReading.clarifiers ?? []), clarifier] }
+      : cardReading
+  ),
+});
+
+const VERDICT_GUIDANCE: Record<YesNoAnswer, string> = {
+  yes: 'The cards lean towards yes.',
+  no: 'The cards lean towards no, at least for now.',
+  maybe: 'The outcome is still unfolding - give it time and ask again when things are clearer.',
+};
+
+// Short rationale for a yes/no verdict, drawn from the card's keywords
+export const explainYesNo = (card: TarotCard, isReversed: boolean, verdict: YesNoAnswer): string => {
+  const keywords = card.keywords.slice(0, 3);
+  const keywordList = keywords.length > 1
+    ? `${keywords.slice(0, -1).join(', ')} and ${keywords[keywords.length - 1]}`
+    : keywords[0];
+
+  const energy = isReversed
+    ? `${card.name} appears reversed, holding back its energy of ${keywordList}.`
+    : `${card.name} brings the energy of ${keywordList}.`;
+
+  return `${energy} ${VERDICT_GUIDANCE[verdict]}`;
+};
@@ -0,0 +1,221 @@
+// Text Stream Service - Streams Newell AI text generation as it is written
+import {
+  getGlobalConfig,
+  NewellError,
+  NewellErrorCode,
+  NEWELL_ENDPOINTS,
+  DEFAULT_CONFIG,
+  DEFAULT_MODELS,
+  DEFAULT_PARAMS,
+} from '@fastshot/ai';
+
+// Marker some servers send as the last server-sent event
+const EVENT_STREAM_DONE = '[DONE]';
+
+// Delay before the first retry, doubled for each one after
+const RETRY_BASE_DELAY = 1000;
+
+// Thrown when the caller stops a stream; carries whatever text had arrived
+export class StreamCancelledError extends Error {
+  constructor(public text: string) {
+    super('Stream was cancelled');
+  }
+}
+
+export interface TextStreamOptions {
+  onText?: (delta: string, text: string) => void; // Each new piece, and everything so far
+  signal?: AbortSignal; // Aborting cancels the stream
+}
+
+// Same priority as the SDK's own client: configureNewell, then environment, then defaults
+const getStreamConfig = () => {
+  const config = getGlobalConfig();
+  return {
+    apiUrl: config.apiUrl || process.env.EXPO_PUBLIC_NEWELL_API_URL || DEFAULT_CONFIG.API_URL,
+    projectId: config.projectId || process.env.EXPO_PUBLIC_PROJECT_ID || '',
+    maxRetries: config.maxRetries ?? DEFAULT_CONFIG.MAX_RETRIES,
+    timeout: config.timeout ?? DEFAULT_CONFIG.TIMEOUT,
+  };
+};
+
+// Pull the text out of complete server-sent events, returning any trailing partial event
+const parseEventStream = (buffer: string): { text: string; rest: string } => {
+  const events = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = events.pop() ?? '';
+  let text = '';
+  for (const event of events) {
+    // Multi-line data within one event is joined by newlines
+    const data = event
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data && data !== EVENT_STREAM_DONE) text += data;
+  }
+  return { text, rest };
+};
+
+const createErrorFromStatus = (status: number, body: string): NewellError => {
+  if (status === 403) {
+    return new NewellError(
+      'Project validation failed. Please check your PROJECT_ID.',
+      NewellErrorCode.PROJECT_VALIDATION_FAILED,
+      status
+    );
+  }
+
+  let message = body ? `API error: ${status} - ${body}` : `API error: ${status}`;
+  try {
+    const data = JSON.parse(body);
+    message = data.error ?? data.detail ?? message;
+  } catch {
+    // Not JSON, so the raw body is kept in the message
+  }
+  return new NewellError(message, NewellErrorCode.API_ERROR, status);
+};
+
+/**
+ * POST a request and report the response text as it arrives.
+ * React Native's fetch cannot read a body incrementally, so this uses XMLHttpRequest
+ * progress events. The timeout covers the wait for each chunk rather than the whole
+ * reply, so a long answer that keeps arriving is never cut off.
+ */
+const streamRequest = (
+  url: string,
+  body: object,
+  timeout: number,
+  { onText, signal }: TextStreamOptions
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let text = '';
+    if (signal?.aborted) {
+      reject(new StreamCancelledError(text));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    let consumed = 0; // Characters of responseText already handled
+    let pending = ''; // Incomplete server-sent event
+    let isEventStream = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let isTimedOut = false;
+
+    const abort = () => xhr.abort();
+    const finish = () => {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', abort);
+    };
+    const waitForChunk = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        isTimedOut = true;
+        xhr.abort();
+      }, timeout);
+    };
+    const isSuccess = () => xhr.status >= 200 && xhr.status < 300;
+
+    const consume = (isFinal: boolean) => {
+      const chunk = xhr.responseText.slice(consumed);
+      consumed = xhr.responseText.length;
+      let delta = chunk;
+      if (isEventStream) {
+        const parsed = parseEventStream(pending + chunk + (isFinal ? '\n\n' : ''));
+        pending = parsed.rest;
+        delta = parsed.text;
+      }
+      if (delta) {
+        text += delta;
+        onText?.(delta, text);
+      }
+    };
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Accept', 'text/event-stream, text/plain');
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === xhr.HEADERS_RECEIVED) {
+        isEventStream = xhr.getResponseHeader('content-type')?.includes('text/event-stream') ?? false;
+      }
+    };
+    xhr.onprogress = () => {
+      waitForChunk();
+      if (isSuccess()) consume(false);
+    };
+    xhr.onload = () => {
+      finish();
+      if (!isSuccess()) {
+        reject(createErrorFromStatus(xhr.status, xhr.responseText));
+        return;
+      }
+      consume(true);
+      resolve(text);
+    };
+    xhr.onerror = () => {
+      finish();
+      reject(new NewellError('Network error. Please check your connection.', NewellErrorCode.NETWORK_ERROR));
+    };
+    xhr.onabort = () => {
+      finish();
+      reject(
+        isTimedOut
+          ? new NewellError(`No response for ${timeout}ms`, NewellErrorCode.TIMEOUT_ERROR)
+          : new StreamCancelledError(text)
+      );
+    };
+
+    signal?.addEventListener('abort', abort);
+    waitForChunk();
+    xhr.send(JSON.stringify(body));
+  });
+
+// Only failures before the first chunk are retried, so no text is ever repeated
+const shouldRetry = (error: unknown, hasStarted: boolean): boolean =>
+  !hasStarted &&
+  !(error instanceof StreamCancelledError) &&
+  !(
+    error instanceof NewellError &&
+    (error.code === NewellErrorCode.PROJECT_VALIDATION_FAILED ||
+      error.code === NewellErrorCode.VALIDATION_ERROR)
+  );
+
+/**
+ * Generate text from a prompt, reporting it as it is written.
+ * Resolves with the full text; rejects with StreamCancelledError when stopped.
+ */
+export const streamTextGeneration = async (
+  prompt: string,
+  options: TextStreamOptions = {}
+): Promise<string> => {
+  const { apiUrl, projectId, maxRetries, timeout } = getStreamConfig();
+  if (!projectId) {
+    throw new NewellError('Project ID is required.', NewellErrorCode.VALIDATION_ERROR);
+  }
+
+  const body = {
+    project_id: projectId,
+    prompt,
+    model: DEFAULT_MODELS.TEXT_GENERATION,
+    max_tokens: DEFAULT_PARAMS.MAX_TOKENS,
+    temperature: DEFAULT_PARAMS.TEMPERATURE,
+    inject_branding: DEFAULT_PARAMS.INJECT_BRANDING,
+    stream: true,
+  };
+
+  let hasStarted = false;
+  const onText = (delta: string, text: string) => {
+    hasStarted = true;
+    options.onText?.(delta, text);
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await streamRequest(`${apiUrl}${NEWELL_ENDPOINTS.TEXT_GENERATION}`, body, timeout, {
+        onText,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (attempt >= maxRetries - 1 || !shouldRetry(error, hasStarted)) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY * 2 ** attempt));
+    }
+  }
+};
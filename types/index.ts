@@ -8,6 +8,15 @@ export interface UserProfile {
   createdAt: Date;
 }
 
+// Birth details of the seeker's partner, used for partner readings
+export interface PartnerProfile {
+  fullName: string;
+  dateOfBirth: Date;
+  timeOfBirth: string;
+  placeOfBirth: string;
+  createdAt: Date;
+}
+
 export interface TarotCard {
   id: number;
   name: string;
@@ -21,20 +30,208 @@ export interface TarotCard {
   zodiac?: string;
 }
 
+export interface DrawnCard {
+  card: TarotCard;
+  isReversed: boolean;
+}
+
+export interface SpreadPosition {
+  id: string;
+  label: string;
+  meaning: string;
+  // Layout coordinates in grid cells, relative to the spread's columns/rows
+  x: number;
+  y: number;
+  rotated?: boolean;
+  isFuture?: boolean; // The card revisited by check-back follow-ups
+}
+
+export interface SpreadDefinition {
+  id: string;
+  name: string;
+  description: string;
+  positions: SpreadPosition[];
+  layout: {
+    columns: number;
+    rows: number;
+  };
+}
+
 export interface CardReading {
   card: TarotCard;
-  position: 'past' | 'present' | 'future';
+  position: string; // SpreadPosition id
+  isReversed?: boolean;
   isRevealed: boolean;
   shortDescription: string;
   imageUrl?: string;
+  clarifiers?: ClarifierCard[]; // Extra cards drawn to shed light on this position, oldest first
+  reflection?: Reflection; // The seeker's own thoughts on this card
 }
 
+// The feelings offered at onboarding and at each mood check-in
+export type Feeling = 'clarity' | 'confused' | 'stuck' | 'hopeful';
+
+export type MoodScore = 1 | 2 | 3 | 4 | 5; // 1 is heavy, 5 is light
+
+export interface MoodCheckIn {
+  score: MoodScore;
+  feelings?: Feeling[];
+  recordedAt: string; // ISO timestamp
+}
+
+export type ReflectionMood = 'joyful' | 'calm' | 'hopeful' | 'uncertain' | 'anxious' | 'low';
+
+export type Resonance = 'yes' | 'partly' | 'no';
+
+// The seeker's own notes on a reading or a single card
+export interface Reflection {
+  note: string;
+  mood?: ReflectionMood;
+  resonance?: Resonance; // Did this resonate?
+  updatedAt: string; // ISO timestamp
+}
+
+// A follow-up asking, some days after a reading, whether its future card played out
+export interface CheckBack {
+  position: string; // SpreadPosition id of the future card
+  dueDate: string; // YYYY-MM-DD
+  notificationId?: string; // Absent when notifications were not permitted
+  outcome?: Resonance; // Did it play out?
+  answeredAt?: string; // ISO timestamp
+}
+
+// A card drawn from the remaining deck to clarify a position
+export interface ClarifierCard {
+  card: TarotCard;
+  isReversed: boolean;
+  interpretation: string;
+}
+
+// How the seeker cut and picked from the shuffled deck in ritual mode
+export interface RitualDraw {
+  cut: number; // Cards lifted off the top and placed underneath
+  picks: number[]; // Positions in the cut deck, in the order they were chosen
+}
+
+// Everything needed to re-deal and check a draw
+interface ShuffleAuditBase {
+  reversalProbability: number;
+  deckOrder: number[]; // Card ids, top of the deck first (before any cut)
+  ritual?: RitualDraw; // Present when the seeker cut and picked the cards by hand
+}
+
+// Readings drawn before secure shuffles: replaying the seed must yield the same deck order
+export interface SeededShuffleAudit extends ShuffleAuditBase {
+  algorithm: 'fisher-yates-mulberry32';
+  seed: number;
+}
+
+// Each swap index came straight from the platform RNG, so the outcome is recorded rather than replayed
+export interface SecureShuffleAudit extends ShuffleAuditBase {
+  algorithm: 'fisher-yates-secure';
+  reversals: boolean[]; // Orientation of each dealt card, in the order dealt
+}
+
+export type ShuffleAudit = SeededShuffleAudit | SecureShuffleAudit;
+
+export type ForecastType = 'weekly' | 'monthly' | 'yearly';
+
+export type ReadingType = 'daily' | 'question' | 'yes-no' | ForecastType;
+
+// The calendar span a forecast reading covers
+export interface ForecastPeriod {
+  key: string; // e.g. "2026-W43", "2026-10" or "2026"
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export type YesNoAnswer = 'yes' | 'no' | 'maybe';
+
+export type ReadingSubject = 'self' | 'partner';
+
 export interface DailyReading {
   id: string;
+  type?: ReadingType; // Defaults to 'daily' for older readings
   date: string; // YYYY-MM-DD format
+  question?: string; // The seeker's question for 'question' and 'yes-no' readings
+  verdict?: YesNoAnswer; // The answer given by a 'yes-no' reading
+  period?: ForecastPeriod; // The span covered by a forecast reading
+  subject?: ReadingSubject; // Defaults to 'self' for older readings
+  spreadId?: string; // Defaults to the three-card spread for older readings
   cards: CardReading[];
   mainExplanation: string;
   userProfile: UserProfile;
+  partnerProfile?: PartnerProfile; // Snapshot of the partner for 'partner' readings
+  shuffle?: ShuffleAudit; // Absent on readings drawn before audits were recorded
+  reflection?: Reflection; // The seeker's own thoughts on the reading as a whole
+  checkBack?: CheckBack; // Present when a follow-up was scheduled for the future card
+  tags?: string[]; // The seeker's own labels, e.g. "career"
+  moodBefore?: MoodCheckIn; // How the seeker felt coming into the reading
+  moodAfter?: MoodCheckIn; // How they felt once every card was revealed
+  createdAt: Date;
+}
+
+// A reading in the recently deleted bin
+export interface DeletedReading {
+  reading: DailyReading;
+  deletedAt: string; // ISO timestamp
+}
+
+// One message in a conversation with The Oracle
+export interface ChatMessage {
+  id: string;
+  text: string;
+  isUser: boolean;
+  timestamp: string; // ISO timestamp
+}
+
+// A saved conversation with The Oracle
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  suggestions: string[]; // Follow-up questions offered after the last reply
+  readingId?: string; // The reading the conversation was started from
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// What the thread list shows without loading every message
+export interface ChatThreadSummary extends Omit<ChatThread, 'messages' | 'suggestions'> {
+  messageCount: number;
+  preview?: string; // Start of the latest message
+}
+
+// A person's signs and numbers as used in compatibility scoring
+export interface CompatibilityPerson {
+  name: string;
+  sunSign: string;
+  element: string;
+  modality: string;
+  lifePath: number;
+  destiny: number;
+}
+
+export interface CompatibilityFactor {
+  id: 'element' | 'modality' | 'lifePath' | 'destiny';
+  label: string;
+  pairing: string; // e.g. "Fire & Air"
+  score: number; // 0-100
+  weight: number; // Share of the overall score, factors sum to 1
+  summary: string;
+}
+
+export interface CompatibilityReport {
+  people: [CompatibilityPerson, CompatibilityPerson];
+  factors: CompatibilityFactor[];
+  overallScore: number; // 0-100
+  label: string;
+}
+
+// AI narrative for a pair of profiles, regenerated when either profile changes
+export interface CompatibilityAnalysis {
+  pairKey: string;
+  narrative: string;
   createdAt: Date;
 }
 
@@ -45,7 +242,31 @@ export interface OnboardingState {
   timeOfBirth: string;
   placeOfBirth: string;
   intent: string;
-  feelings: string[];
+  feelings: Feeling[];
+}
+
+export type ReversalMode = 'off' | 'classic' | 'custom';
+
+export interface ReversalPreference {
+  mode: ReversalMode;
+  customProbability: number; // 0-1, used when mode is 'custom'
+}
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// How a restored reading is merged when the journal already holds one with the same id
+export type ImportStrategy = 'keep-existing' | 'overwrite' | 'keep-both';
+
+// The versioned JSON document written by journal exports and read back by restores
+export interface JournalBackup {
+  format: 'tarotify-journal';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  userProfile: UserProfile | null;
+  partnerProfile: PartnerProfile | null;
+  chartAnalysis: string | null;
+  compatibilityAnalysis: CompatibilityAnalysis | null;
+  readings: DailyReading[];
 }
 
 export interface StoredCardImage {
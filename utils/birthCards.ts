@@ -0,0 +1,28 @@
+// Tarot Birth Card Utilities
+import { getMajorArcanaByNumber } from '@/data/tarotDeck';
+import { calculateBirthCardNumbers, calculatePersonalYearCardNumber } from '@/utils/numerology';
+import { TarotCard } from '@/types';
+
+const toCards = (numbers: number[]): TarotCard[] => {
+  return numbers
+    .map(getMajorArcanaByNumber)
+    .filter((card): card is TarotCard => card !== undefined);
+};
+
+// The Major Arcana cards that mark someone's birth date, largest number first
+export const getBirthCards = (dateOfBirth: Date): TarotCard[] => {
+  return toCards(calculateBirthCardNumbers(dateOfBirth));
+};
+
+// The Major Arcana card that colours a calendar year for someone
+export const getPersonalYearCard = (dateOfBirth: Date, year: number): TarotCard => {
+  return toCards([calculatePersonalYearCardNumber(dateOfBirth, year)])[0];
+};
+
+// Prompt-ready summary, e.g. "The Sun (19), Wheel of Fortune (10) and The Magician (1)"
+export const formatBirthCards = (dateOfBirth: Date): string => {
+  const numbers = calculateBirthCardNumbers(dateOfBirth);
+  const labels = toCards(numbers).map((card, index) => `${card.name} (${numbers[index]})`);
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+};
@@ -0,0 +1,188 @@
+// Check-Back Utilities - Follow-ups on whether a reading's future card played out
+import { getSpreadById, getFuturePosition } from '@/data/spreads';
+import { getCardDisplayName } from '@/data/tarotDeck';
+import { scheduleCheckBack } from '@/utils/notifications';
+import { toDateString, parseDateString } from '@/utils/forecast';
+import { readStoredValue, writeStoredValue, saveCheckBackNotification } from '@/utils/storage';
+import { DailyReading, Resonance } from '@/types';
+
+export const DEFAULT_CHECK_BACK_DAYS = 7;
+
+// Days after a reading to check back; 0 turns follow-ups off
+export const CHECK_BACK_DAY_OPTIONS = [0, 3, 7, 14, 30];
+
+export const CHECK_BACK_OUTCOMES: { value: Resonance; label: string }[] = [
+  { value: 'yes', label: 'It did' },
+  { value: 'partly', label: 'Partly' },
+  { value: 'no', label: 'Not at all' },
+];
+
+export interface OutcomeTally {
+  yes: number;
+  partly: number;
+  no: number;
+}
+
+// How often a card or spread played out (check-backs) and resonated (reflections)
+export interface OutcomeStats {
+  id: string; // Card or spread id
+  label: string;
+  playedOut: OutcomeTally;
+  resonated: OutcomeTally;
+}
+
+/**
+ * Get the number of days after a reading to check back
+ */
+export const getCheckBackDays = async (): Promise<number> => {
+  try {
+    return (await readStoredValue('CHECK_BACK_DAYS')) ?? DEFAULT_CHECK_BACK_DAYS;
+  } catch (error) {
+    console.error('Error getting check-back days:', error);
+    return DEFAULT_CHECK_BACK_DAYS;
+  }
+};
+
+/**
+ * Save the number of days after a reading to check back
+ */
+export const saveCheckBackDays = async (days: number): Promise<void> => {
+  try {
+    await writeStoredValue('CHECK_BACK_DAYS', days);
+  } catch (error) {
+    console.error('Error saving check-back days:', error);
+  }
+};
+
+export const getCheckBackOutcomeLabel = (outcome: Resonance): string => {
+  return CHECK_BACK_OUTCOMES.find(option => option.value === outcome)?.label ?? outcome;
+};
+
+/**
+ * Attach a check-back to a freshly drawn reading and schedule its reminder.
+ * Cancel the reminder if the reading then fails to save.
+ * Readings whose spread has no future position, or with follow-ups turned off, are returned as-is.
+ */
+export const planCheckBack = async (reading: DailyReading): Promise<DailyReading> => {
+  const days = await getCheckBackDays();
+  if (days <= 0) return reading;
+
+  const position = getFuturePosition(getSpreadById(reading.spreadId));
+  const cardReading = position && reading.cards.find(c => c.position === position.id);
+  if (!position || !cardReading) return reading;
+
+  // Count from the reading's own date so the due date falls on the same calendar
+  const drawnOn = parseDateString(reading.date);
+  const dueDate = new Date(drawnOn.getFullYear(), drawnOn.getMonth(), drawnOn.getDate() + days);
+  const notificationId = await scheduleCheckBack(
+    reading.id,
+    getCardDisplayName(cardReading.card, cardReading.isReversed),
+    dueDate
+  );
+
+  return {
+    ...reading,
+    checkBack: {
+      position: position.id,
+      dueDate: toDateString(dueDate),
+      notificationId: notificationId ?? undefined,
+    },
+  };
+};
+
+/**
+ * Schedule the reminder again for a reading taken back out of the recently deleted bin.
+ * Deleting cancels it; check-backs already answered or already due just keep their journal badge.
+ */
+export const rescheduleCheckBack = async (reading: DailyReading): Promise<void> => {
+  const { checkBack } = reading;
+  if (!checkBack || checkBack.outcome || checkBack.dueDate <= toDateString(new Date())) return;
+
+  const cardReading = reading.cards.find(c => c.position === checkBack.position);
+  if (!cardReading) return;
+
+  try {
+    const notificationId = await scheduleCheckBack(
+      reading.id,
+      getCardDisplayName(cardReading.card, cardReading.isReversed),
+      parseDateString(checkBack.dueDate)
+    );
+    if (notificationId) await saveCheckBackNotification(reading.id, notificationId);
+  } catch (error) {
+    console.error('Error rescheduling check-back:', error);
+  }
+};
+
+// An unanswered check-back whose day has come
+export const isCheckBackDue = (reading: DailyReading, today: Date = new Date()): boolean => {
+  return !!reading.checkBack
+    && !reading.checkBack.outcome
+    && reading.checkBack.dueDate <= toDateString(today);
+};
+
+export const getTallyTotal = (tally: OutcomeTally): number => tally.yes + tally.partly + tally.no;
+
+// Share of answers that were a yes, counting "partly" as half; null when nothing was answered
+export const getTallyScore = (tally: OutcomeTally): number | null => {
+  const total = getTallyTotal(tally);
+  return total > 0 ? (tally.yes + tally.partly * 0.5) / total : null;
+};
+
+const emptyStats = (id: string, label: string): OutcomeStats => ({
+  id,
+  label,
+  playedOut: { yes: 0, partly: 0, no: 0 },
+  resonated: { yes: 0, partly: 0, no: 0 },
+});
+
+const byMostAnswered = (a: OutcomeStats, b: OutcomeStats): number =>
+  getTallyTotal(b.playedOut) + getTallyTotal(b.resonated)
+  - (getTallyTotal(a.playedOut) + getTallyTotal(a.resonated));
+
+/**
+ * Tally check-back answers and resonance ratings across the journal, per card and per spread.
+ * Cards only count the resonance given to them directly; spreads count whole-reading reflections.
+ */
+export const summarizeOutcomes = (
+  history: DailyReading[]
+): { byCard: OutcomeStats[]; bySpread: OutcomeStats[] } => {
+  const cards = new Map<string, OutcomeStats>();
+  const spreads = new Map<string, OutcomeStats>();
+
+  const statsFor = (map: Map<string, OutcomeStats>, id: string, label: string) => {
+    let stats = map.get(id);
+    if (!stats) {
+      stats = emptyStats(id, label);
+      map.set(id, stats);
+    }
+    return stats;
+  };
+
+  for (const reading of history) {
+    const spread = getSpreadById(reading.spreadId);
+
+    for (const cardReading of reading.cards) {
+      if (cardReading.reflection?.resonance) {
+        const stats = statsFor(cards, cardReading.card.id.toString(), cardReading.card.name);
+        stats.resonated[cardReading.reflection.resonance]++;
+      }
+    }
+    if (reading.reflection?.resonance) {
+      statsFor(spreads, spread.id, spread.name).resonated[reading.reflection.resonance]++;
+    }
+
+    const outcome = reading.checkBack?.outcome;
+    if (outcome) {
+      statsFor(spreads, spread.id, spread.name).playedOut[outcome]++;
+      const cardReading = reading.cards.find(c => c.position === reading.checkBack?.position);
+      if (cardReading) {
+        statsFor(cards, cardReading.card.id.toString(), cardReading.card.name).playedOut[outcome]++;
+      }
+    }
+  }
+
+  return {
+    byCard: [...cards.values()].sort(byMostAnswered),
+    bySpread: [...spreads.values()].sort(byMostAnswered),
+  };
+};
@@ -0,0 +1,174 @@
+// Compatibility Calculation Utilities
+import { getZodiacSign } from '@/utils/formatDate';
+import { getZodiacElement, getZodiacModality } from '@/utils/astrology';
+import { calculateLifePathNumber, calculateDestinyNumber } from '@/utils/numerology';
+import {
+  CompatibilityFactor,
+  CompatibilityPerson,
+  CompatibilityReport,
+  PartnerProfile,
+  UserProfile,
+} from '@/types';
+
+type ProfileLike = UserProfile | PartnerProfile;
+
+// Element pairings, keyed alphabetically ("Air-Fire")
+const elementScores: Record<string, { score: number; summary: string }> = {
+  'Fire-Fire': { score: 90, summary: 'Shared fire - passionate, bold and quick to spark' },
+  'Earth-Earth': { score: 90, summary: 'Shared earth - steady, loyal and grounded together' },
+  'Air-Air': { score: 90, summary: 'Shared air - endless conversation and mental rapport' },
+  'Water-Water': { score: 90, summary: 'Shared water - deep emotional understanding' },
+  'Air-Fire': { score: 85, summary: 'Air feeds fire - inspiring and energising each other' },
+  'Earth-Water': { score: 85, summary: 'Water nourishes earth - nurturing and secure' },
+  'Earth-Fire': { score: 50, summary: 'Fire and earth - drive meets patience, if both give ground' },
+  'Air-Water': { score: 45, summary: 'Air and water - head and heart must learn each other' },
+  'Air-Earth': { score: 40, summary: 'Air and earth - ideas and practicality pull apart' },
+  'Fire-Water': { score: 35, summary: 'Fire and water - intense, steamy and easily extinguished' },
+};
+
+// Modality pairings, keyed alphabetically ("Cardinal-Fixed")
+const modalityScores: Record<string, { score: number; summary: string }> = {
+  'Cardinal-Cardinal': { score: 55, summary: 'Two initiators - exciting, but both want to lead' },
+  'Fixed-Fixed': { score: 45, summary: 'Two fixed signs - devoted, yet neither likes to bend' },
+  'Mutable-Mutable': { score: 70, summary: 'Two mutable signs - easygoing and adaptable together' },
+  'Cardinal-Fixed': { score: 70, summary: 'One starts, one sustains - a productive balance' },
+  'Cardinal-Mutable': { score: 80, summary: 'One leads, one adapts - movement with little friction' },
+  'Fixed-Mutable': { score: 65, summary: 'Stability meets flexibility - complementary with patience' },
+};
+
+// Numerology harmony groups: 1-5-7 (mind), 2-4-8 (builders), 3-6-9 (creators),
+// plus the cross-group pairings traditionally considered compatible
+const numberCompatibility: Record<number, { natural: number[]; compatible: number[] }> = {
+  1: { natural: [1, 5, 7], compatible: [3, 9] },
+  2: { natural: [2, 4, 8], compatible: [6, 9] },
+  3: { natural: [3, 6, 9], compatible: [1, 5] },
+  4: { natural: [2, 4, 8], compatible: [6, 7] },
+  5: { natural: [1, 5, 7], compatible: [3, 9] },
+  6: { natural: [3, 6, 9], compatible: [2, 4, 8] },
+  7: { natural: [1, 5, 7], compatible: [4] },
+  8: { natural: [2, 4, 8], compatible: [6] },
+  9: { natural: [3, 6, 9], compatible: [1, 2, 5] },
+};
+
+// How much each factor contributes to the overall score
+const FACTOR_WEIGHTS: Record<CompatibilityFactor['id'], number> = {
+  element: 0.3,
+  modality: 0.2,
+  lifePath: 0.3,
+  destiny: 0.2,
+};
+
+const pairKey = (a: string, b: string): string => [a, b].sort().join('-');
+
+// Master numbers (11, 22, 33) share their root number's table entry
+const toRootNumber = (num: number): number => {
+  if (num > 9) {
+    return num.toString().split('').reduce((sum, digit) => sum + parseInt(digit, 10), 0);
+  }
+  return num;
+};
+
+const compareNumbers = (a: number, b: number): { score: number; summary: string } => {
+  const rootA = toRootNumber(a);
+  const rootB = toRootNumber(b);
+  const entry = numberCompatibility[rootA];
+
+  if (!entry) {
+    return { score: 50, summary: 'An unread pairing - the numbers stay silent' };
+  }
+  if (entry.natural.includes(rootB)) {
+    return { score: 90, summary: 'A natural match - you move to the same rhythm' };
+  }
+  if (entry.compatible.includes(rootB)) {
+    return { score: 70, summary: 'Compatible - different strengths that fit together' };
+  }
+  return { score: 40, summary: 'Challenging - growth comes through understanding differences' };
+};
+
+export const getCompatibilityPerson = (profile: ProfileLike): CompatibilityPerson => {
+  const sunSign = getZodiacSign(profile.dateOfBirth);
+  return {
+    name: profile.fullName,
+    sunSign,
+    element: getZodiacElement(sunSign),
+    modality: getZodiacModality(sunSign),
+    lifePath: calculateLifePathNumber(profile.dateOfBirth),
+    destiny: calculateDestinyNumber(profile.fullName),
+  };
+};
+
+// Get a short label for an overall score
+export const getCompatibilityLabel = (score: number): string => {
+  if (score >= 80) return 'Kindred Spirits';
+  if (score >= 65) return 'Harmonious';
+  if (score >= 50) return 'Growing Together';
+  return 'Challenging Match';
+};
+
+/**
+ * Compare two people by sun sign element and modality and by their
+ * life path and destiny numbers
+ */
+export const calculateCompatibility = (
+  first: ProfileLike,
+  second: ProfileLike
+): CompatibilityReport => {
+  const personA = getCompatibilityPerson(first);
+  const personB = getCompatibilityPerson(second);
+
+  const element = elementScores[pairKey(personA.element, personB.element)]
+    ?? { score: 50, summary: 'An unread pairing - the elements stay silent' };
+  const modality = modalityScores[pairKey(personA.modality, personB.modality)]
+    ?? { score: 50, summary: 'An unread pairing - the modalities stay silent' };
+  const lifePath = compareNumbers(personA.lifePath, personB.lifePath);
+  const destiny = compareNumbers(personA.destiny, personB.destiny);
+
+  const factors: CompatibilityFactor[] = [
+    {
+      id: 'element',
+      label: 'Elemental Harmony',
+      pairing: `${personA.element} & ${personB.element}`,
+      weight: FACTOR_WEIGHTS.element,
+      ...element,
+    },
+    {
+      id: 'modality',
+      label: 'Modality Balance',
+      pairing: `${personA.modality} & ${personB.modality}`,
+      weight: FACTOR_WEIGHTS.modality,
+      ...modality,
+    },
+    {
+      id: 'lifePath',
+      label: 'Life Path',
+      pairing: `${personA.lifePath} & ${personB.lifePath}`,
+      weight: FACTOR_WEIGHTS.lifePath,
+      ...lifePath,
+    },
+    {
+      id: 'destiny',
+      label: 'Destiny',
+      pairing: `${personA.destiny} & ${personB.destiny}`,
+      weight: FACTOR_WEIGHTS.destiny,
+      ...destiny,
+    },
+  ];
+
+  const overallScore = Math.round(
+    factors.reduce((total, factor) => total + factor.score * factor.weight, 0)
+  );
+
+  return {
+    people: [personA, personB],
+    factors,
+    overallScore,
+    label: getCompatibilityLabel(overallScore),
+  };
+};
+
+// Identifies a pair of profiles so stored narratives can be matched to them
+export const getCompatibilityPairKey = (first: ProfileLike, second: ProfileLike): string => {
+  return [first, second]
+    .map(profile => `${profile.fullName.trim().toLowerCase()}|${profile.dateOfBirth.toISOString().split('T')[0]}`)
+    .join('::');
+};
@@ -0,0 +1,92 @@
+// Forecast Period Utilities
+import { formatDateLong } from '@/utils/formatDate';
+import { ForecastPeriod, ForecastType } from '@/types';
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export const FORECAST_LABELS: Record<ForecastType, string> = {
+  weekly: 'Week Ahead',
+  monthly: 'Month Ahead',
+  yearly: 'Year Ahead',
+};
+
+export const isForecastType = (type: string): type is ForecastType => {
+  return type === 'weekly' || type === 'monthly' || type === 'yearly';
+};
+
+// Local calendar date as YYYY-MM-DD
+export const toDateString = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse a YYYY-MM-DD string as a local date
+export const parseDateString = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// ISO 8601 week number - weeks start on Monday and week 1 holds the year's first Thursday
+const getIsoWeek = (monday: Date): { year: number; week: number } => {
+  const thursday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3);
+  const firstOfYear = new Date(thursday.getFullYear(), 0, 1);
+  const dayOfYear = Math.round((thursday.getTime() - firstOfYear.getTime()) / 86400000);
+  return { year: thursday.getFullYear(), week: Math.floor(dayOfYear / 7) + 1 };
+};
+
+// The period of the given type that contains a date
+export const getForecastPeriod = (type: ForecastType, date: Date = new Date()): ForecastPeriod => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (type) {
+    case 'weekly': {
+      const daysSinceMonday = (date.getDay() + 6) % 7;
+      const monday = new Date(year, month, date.getDate() - daysSinceMonday);
+      const sunday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6);
+      const { year: weekYear, week } = getIsoWeek(monday);
+      return {
+        key: `${weekYear}-W${week.toString().padStart(2, '0')}`,
+        start: toDateString(monday),
+        end: toDateString(sunday),
+      };
+    }
+    case 'monthly':
+      return {
+        key: `${year}-${(month + 1).toString().padStart(2, '0')}`,
+        start: toDateString(new Date(year, month, 1)),
+        end: toDateString(new Date(year, month + 1, 0)),
+      };
+    case 'yearly':
+      return {
+        key: `${year}`,
+        start: toDateString(new Date(year, 0, 1)),
+        end: toDateString(new Date(year, 11, 31)),
+      };
+  }
+};
+
+// Human-readable span, e.g. "October 19 - 25, 2026", "October 2026" or "2026"
+export const formatForecastPeriod = (type: ForecastType, period: ForecastPeriod): string => {
+  const start = parseDateString(period.start);
+  const end = parseDateString(period.end);
+
+  switch (type) {
+    case 'weekly':
+      if (start.getMonth() === end.getMonth()) {
+        return `${MONTH_NAMES[start.getMonth()]} ${start.getDate()} - ${end.getDate()}, ${end.getFullYear()}`;
+      }
+      if (start.getFullYear() === end.getFullYear()) {
+        return `${MONTH_NAMES[start.getMonth()]} ${start.getDate()} - ${MONTH_NAMES[end.getMonth()]} ${end.getDate()}, ${end.getFullYear()}`;
+      }
+      return `${formatDateLong(start)} - ${formatDateLong(end)}`;
+    case 'monthly':
+      return `${MONTH_NAMES[start.getMonth()]} ${start.getFullYear()}`;
+    case 'yearly':
+      return `${start.getFullYear()}`;
+  }
+};
@@ -16,6 +16,7 @@ import {
   getBundledCardCount,
   TOTAL_CARDS,
 } from '@/assets/cards';
+import { runStorageTransaction } from '@/utils/storageTransaction';
 
 const CARD_IMAGES_DIR = `${documentDirectory}tarot-cards/`;
 const CARD_BACK_PATH = `${CARD_IMAGES_DIR}card-back.png`;
@@ -50,10 +51,15 @@ const getImageRegistry = async (): Promise<ImageRegistry> => {
   }
 };
 
-// Save the image registry to AsyncStorage
-const saveImageRegistry = async (registry: ImageRegistry): Promise<void> => {
+// Change the image registry under its lock, so parallel generations don't drop each other's entries
+const updateImageRegistry = async (update: (registry: ImageRegistry) => void): Promise<void> => {
   try {
-    await AsyncStorage.setItem(IMAGE_REGISTRY_KEY, JSON.stringify(registry));
+    await runStorageTransaction([IMAGE_REGISTRY_KEY], async transaction => {
+      const stored = await transaction.get(IMAGE_REGISTRY_KEY);
+      const registry: ImageRegistry = stored ? JSON.parse(stored) : {};
+      update(registry);
+      transaction.set(IMAGE_REGISTRY_KEY, JSON.stringify(registry));
+    });
   } catch (error) {
     console.error('Error saving image registry:', error);
   }
@@ -75,12 +81,12 @@ export const downloadAndSaveImage = async (
 
     if (downloadResult.status === 200) {
       // Update the registry
-      const registry = await getImageRegistry();
-      registry[cardId.toString()] = {
-        localUri,
-        generatedAt: new Date().toISOString(),
-      };
-      await saveImageRegistry(registry);
+      await updateImageRegistry(registry => {
+        registry[cardId.toString()] = {
+          localUri,
+          generatedAt: new Date().toISOString(),
+        };
+      });
 
       return localUri;
     }
@@ -242,7 +248,9 @@ export const clearAllImages = async (): Promise<void> => {
     if (dirInfo.exists) {
       await deleteAsync(CARD_IMAGES_DIR, { idempotent: true });
     }
-    await AsyncStorage.removeItem(IMAGE_REGISTRY_KEY);
+    await runStorageTransaction([IMAGE_REGISTRY_KEY], async transaction => {
+      transaction.remove(IMAGE_REGISTRY_KEY);
+    });
   } catch (error) {
     console.error('Error clearing images:', error);
   }
@@ -256,8 +264,9 @@ export const deleteCardImage = async (cardId: number): Promise<void> => {
 
     if (entry?.localUri) {
       await deleteAsync(entry.localUri, { idempotent: true });
-      delete registry[cardId.toString()];
-      await saveImageRegistry(registry);
+      await updateImageRegistry(current => {
+        delete current[cardId.toString()];
+      });
     }
   } catch (error) {
     console.error('Error deleting card image:', error);
@@ -0,0 +1,159 @@
+// Reading Insights - Card frequencies, suit and element balance and recurring cards across the journal
+import { tarotDeck } from '@/data/tarotDeck';
+import { parseDateString } from '@/utils/forecast';
+import { DailyReading, TarotCard } from '@/types';
+
+// How many days a recurring card has to cluster within, and how often it must appear
+export const RECURRENCE_WINDOW_DAYS = 10;
+export const RECURRENCE_MIN_COUNT = 3;
+
+// Chi-square critical value for four degrees of freedom at p = 0.05
+const CHI_SQUARE_CRITICAL_DF4 = 9.488;
+
+const DAY_MS = 86400000;
+
+export interface CardFrequency {
+  card: TarotCard;
+  count: number;
+}
+
+// Observed draws in one group next to what a fair 78-card deck would give
+export interface DistributionEntry {
+  key: string;
+  label: string;
+  count: number;
+  observed: number; // Share of all drawn cards, 0-1
+  expected: number; // Share of the full deck, 0-1
+}
+
+export interface RecurringCard {
+  card: TarotCard;
+  count: number;
+  days: number; // Span from first to last appearance, inclusive
+  lastSeen: string; // YYYY-MM-DD
+}
+
+type CardGroup = { key: string; label: string; matches: (card: TarotCard) => boolean };
+
+const SUIT_GROUPS: CardGroup[] = [
+  { key: 'major', label: 'Major Arcana', matches: card => card.arcana === 'major' },
+  { key: 'wands', label: 'Wands', matches: card => card.suit === 'wands' },
+  { key: 'cups', label: 'Cups', matches: card => card.suit === 'cups' },
+  { key: 'swords', label: 'Swords', matches: card => card.suit === 'swords' },
+  { key: 'pentacles', label: 'Pentacles', matches: card => card.suit === 'pentacles' },
+];
+
+const ELEMENT_GROUPS: CardGroup[] = ['Fire', 'Water', 'Air', 'Earth'].map(element => ({
+  key: element.toLowerCase(),
+  label: element,
+  matches: (card: TarotCard) => card.element === element,
+}));
+
+const ARCANA_GROUPS: CardGroup[] = [
+  SUIT_GROUPS[0],
+  { key: 'minor', label: 'Minor Arcana', matches: card => card.arcana === 'minor' },
+];
+
+// Every card laid in a spread (clarifiers are extra draws and are left out)
+const getDrawnCards = (history: DailyReading[]): TarotCard[] => {
+  return history.flatMap(reading => reading.cards.map(cardReading => cardReading.card));
+};
+
+const getDistribution = (history: DailyReading[], groups: CardGroup[]): DistributionEntry[] => {
+  const drawn = getDrawnCards(history);
+  return groups.map(group => {
+    const count = drawn.filter(group.matches).length;
+    return {
+      key: group.key,
+      label: group.label,
+      count,
+      observed: drawn.length > 0 ? count / drawn.length : 0,
+      expected: tarotDeck.filter(group.matches).length / tarotDeck.length,
+    };
+  });
+};
+
+export const getTotalCardsDrawn = (history: DailyReading[]): number => getDrawnCards(history).length;
+
+export const getCardFrequencies = (history: DailyReading[]): CardFrequency[] => {
+  const counts = new Map<number, CardFrequency>();
+  for (const card of getDrawnCards(history)) {
+    const entry = counts.get(card.id) ?? { card, count: 0 };
+    entry.count++;
+    counts.set(card.id, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.card.id - b.card.id);
+};
+
+export const getSuitDistribution = (history: DailyReading[]) => getDistribution(history, SUIT_GROUPS);
+
+export const getElementDistribution = (history: DailyReading[]) =>
+  getDistribution(history, ELEMENT_GROUPS);
+
+export const getArcanaDistribution = (history: DailyReading[]) =>
+  getDistribution(history, ARCANA_GROUPS);
+
+/**
+ * Whether the suit spread differs from a fair deck by more than chance would explain,
+ * using a chi-square goodness-of-fit test. Returns null until there are enough cards to judge.
+ */
+export const isSuitBalanceSkewed = (distribution: DistributionEntry[]): boolean | null => {
+  const total = distribution.reduce((sum, entry) => sum + entry.count, 0);
+  // The test needs an expected count of at least five in every group
+  if (distribution.some(entry => entry.expected * total < 5)) return null;
+
+  const chiSquare = distribution.reduce((sum, entry) => {
+    const expectedCount = entry.expected * total;
+    return sum + (entry.count - expectedCount) ** 2 / expectedCount;
+  }, 0);
+  return chiSquare > CHI_SQUARE_CRITICAL_DF4;
+};
+
+/**
+ * Cards that turned up at least RECURRENCE_MIN_COUNT times within RECURRENCE_WINDOW_DAYS.
+ * Each card reports its busiest window, preferring the most recent one on ties.
+ */
+export const findRecurringCards = (
+  history: DailyReading[],
+  windowDays: number = RECURRENCE_WINDOW_DAYS,
+  minCount: number = RECURRENCE_MIN_COUNT
+): RecurringCard[] => {
+  const appearances = new Map<number, { card: TarotCard; dates: string[] }>();
+  for (const reading of history) {
+    for (const { card } of reading.cards) {
+      const entry = appearances.get(card.id) ?? { card, dates: [] };
+      entry.dates.push(reading.date);
+      appearances.set(card.id, entry);
+    }
+  }
+
+  const recurring: RecurringCard[] = [];
+  for (const { card, dates } of appearances.values()) {
+    const sortedDates = [...dates].sort();
+    const times = sortedDates.map(date => parseDateString(date).getTime());
+    let best: RecurringCard | null = null;
+
+    let start = 0;
+    for (let end = 0; end < times.length; end++) {
+      while (times[end] - times[start] >= windowDays * DAY_MS) start++;
+      const count = end - start + 1;
+      if (count >= minCount && (!best || count >= best.count)) {
+        best = {
+          card,
+          count,
+          days: Math.round((times[end] - times[start]) / DAY_MS) + 1,
+          lastSeen: sortedDates[end],
+        };
+      }
+    }
+    if (best) recurring.push(best);
+  }
+
+  return recurring.sort((a, b) => b.lastSeen.localeCompare(a.lastSeen) || b.count - a.count);
+};
+
+// e.g. "The Tower has appeared 3 times in 10 days"
+export const formatRecurringCard = (recurring: RecurringCard): string => {
+  const span = recurring.days === 1 ? 'a single day' : `${recurring.days} days`;
+  return `${recurring.card.name} has appeared ${recurring.count} times in ${span}`;
+};
@@ -0,0 +1,286 @@
+// Journal Export - Serialise the reading history to JSON, CSV or Markdown and share the file
+import {
+  documentDirectory,
+  getInfoAsync,
+  makeDirectoryAsync,
+  writeAsStringAsync,
+} from 'expo-file-system/legacy';
+import { shareAsync } from 'expo-sharing';
+import { getSpreadById, getPositionLabel } from '@/data/spreads';
+import { getCardDisplayName, yesNoLabels } from '@/data/tarotDeck';
+import {
+  getReadingHistory,
+  getReadingType,
+  getReadingSubject,
+  getUserProfile,
+  getPartnerProfile,
+  getChartAnalysis,
+  getCompatibilityAnalysis,
+} from '@/utils/storage';
+import { FORECAST_LABELS, formatForecastPeriod, isForecastType, parseDateString } from '@/utils/forecast';
+import { formatDateLong } from '@/utils/formatDate';
+import { formatReflection, hasReflection } from '@/utils/reflections';
+import { getCheckBackOutcomeLabel } from '@/utils/checkBack';
+import { formatMoodJourney } from '@/utils/moodTracking';
+import { DailyReading, ExportFormat, JournalBackup, Reflection } from '@/types';
+
+export const BACKUP_FORMAT = 'tarotify-journal';
+export const BACKUP_VERSION = 1;
+
+// Exports are kept here so JSON backups can be restored later from inside the app
+export const EXPORTS_DIR = `${documentDirectory}exports/`;
+
+// mimeType tells Android which apps can open the file; uti does the same on iOS
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  uti: string;
+}[] = [
+  {
+    value: 'json',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    uti: 'public.json',
+  },
+  {
+    value: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    uti: 'public.comma-separated-values-text',
+  },
+  {
+    value: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    uti: 'net.daringfireball.markdown',
+  },
+];
+
+const CSV_COLUMNS = [
+  'reading_id',
+  'date',
+  'type',
+  'subject',
+  'spread',
+  'question',
+  'verdict',
+  'position',
+  'card',
+  'reversed',
+  'card_description',
+  'card_note',
+  'card_mood',
+  'card_resonance',
+  'explanation',
+  'reading_note',
+  'reading_mood',
+  'reading_resonance',
+  'check_back_outcome',
+  'tags',
+  'mood_before',
+  'mood_after',
+];
+
+const getTypeLabel = (reading: DailyReading): string => {
+  const type = getReadingType(reading);
+  if (isForecastType(type)) return FORECAST_LABELS[type];
+  switch (type) {
+    case 'question':
+      return 'Question';
+    case 'yes-no':
+      return 'Yes / No';
+    default:
+      return 'Daily';
+  }
+};
+
+// Cards in the order their spread lays them out
+const getOrderedCards = (reading: DailyReading) => {
+  const spread = getSpreadById(reading.spreadId);
+  return [...reading.cards].sort((a, b) =>
+    spread.positions.findIndex(p => p.id === a.position) -
+    spread.positions.findIndex(p => p.id === b.position)
+  );
+};
+
+/**
+ * Gather everything worth keeping into the versioned backup document
+ */
+export const buildJournalBackup = async (): Promise<JournalBackup> => {
+  const [readings, userProfile, partnerProfile, chartAnalysis, compatibilityAnalysis] =
+    await Promise.all([
+      getReadingHistory(),
+      getUserProfile(),
+      getPartnerProfile(),
+      getChartAnalysis(),
+      getCompatibilityAnalysis(),
+    ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    userProfile,
+    partnerProfile,
+    chartAnalysis,
+    compatibilityAnalysis,
+    readings,
+  };
+};
+
+export const serializeJson = (backup: JournalBackup): string => JSON.stringify(backup, null, 2);
+
+// Quote a CSV field when it holds a delimiter, quote or line break
+const escapeCsv = (value: string | undefined): string => {
+  if (!value) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * One row per card, with the reading's own fields repeated on each of its rows
+ */
+export const serializeCsv = (backup: JournalBackup): string => {
+  const rows = backup.readings.flatMap(reading => {
+    const spread = getSpreadById(reading.spreadId);
+    return getOrderedCards(reading).map(cardReading => [
+      reading.id,
+      reading.date,
+      getTypeLabel(reading),
+      getReadingSubject(reading),
+      spread.name,
+      reading.question,
+      reading.verdict && yesNoLabels[reading.verdict],
+      getPositionLabel(spread, cardReading.position),
+      cardReading.card.name,
+      cardReading.isReversed ? 'yes' : 'no',
+      cardReading.shortDescription,
+      cardReading.reflection?.note,
+      cardReading.reflection?.mood,
+      cardReading.reflection?.resonance,
+      reading.mainExplanation,
+      reading.reflection?.note,
+      reading.reflection?.mood,
+      reading.reflection?.resonance,
+      reading.checkBack?.outcome,
+      reading.tags?.join('; '),
+      reading.moodBefore && String(reading.moodBefore.score),
+      reading.moodAfter && String(reading.moodAfter.score),
+    ].map(escapeCsv).join(','));
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const formatReflectionLine = (reflection: Reflection | undefined): string | null => {
+  return hasReflection(reflection) ? `> 📝 ${formatReflection(reflection)}` : null;
+};
+
+const serializeReadingMarkdown = (reading: DailyReading): string => {
+  const spread = getSpreadById(reading.spreadId);
+  const type = getReadingType(reading);
+  const lines: (string | null)[] = [
+    `## ${formatDateLong(parseDateString(reading.date))} · ${getTypeLabel(reading)}`,
+    '',
+    `*${spread.name}*`,
+  ];
+
+  if (isForecastType(type) && reading.period) {
+    lines.push(`*${formatForecastPeriod(type, reading.period)}*`);
+  }
+  if (reading.partnerProfile) {
+    lines.push(`*For ${reading.partnerProfile.fullName}*`);
+  }
+  if (reading.question) {
+    lines.push('', `**Question:** “${reading.question}”`);
+  }
+  if (reading.verdict) {
+    lines.push('', `**Answer:** ${yesNoLabels[reading.verdict]}`);
+  }
+  if (reading.tags?.length) {
+    lines.push('', reading.tags.map(tag => `#${tag}`).join(' '));
+  }
+  const moodJourney = formatMoodJourney(reading);
+  if (moodJourney) {
+    lines.push('', `**Mood:** ${moodJourney}`);
+  }
+
+  lines.push('', '### Cards', '');
+  for (const cardReading of getOrderedCards(reading)) {
+    lines.push(
+      `- **${getPositionLabel(spread, cardReading.position)}:** ` +
+        `${getCardDisplayName(cardReading.card, cardReading.isReversed)} - ${cardReading.shortDescription}`
+    );
+    for (const clarifier of cardReading.clarifiers ?? []) {
+      lines.push(
+        `  - *Clarifier:* ${getCardDisplayName(clarifier.card, clarifier.isReversed)} - ${clarifier.interpretation}`
+      );
+    }
+    const reflectionLine = formatReflectionLine(cardReading.reflection);
+    if (reflectionLine) lines.push(`  ${reflectionLine}`);
+  }
+
+  lines.push('', '### Interpretation', '', reading.mainExplanation);
+
+  const readingReflection = formatReflectionLine(reading.reflection);
+  if (readingReflection) lines.push('', readingReflection);
+
+  if (reading.checkBack?.outcome) {
+    lines.push(
+      '',
+      `**Check back:** ${getPositionLabel(spread, reading.checkBack.position)} card - ` +
+        getCheckBackOutcomeLabel(reading.checkBack.outcome)
+    );
+  }
+
+  return lines.filter(line => line !== null).join('\n');
+};
+
+/**
+ * A readable journal: the seeker's birth details followed by every reading, newest first
+ */
+export const serializeMarkdown = (backup: JournalBackup): string => {
+  const header = ['# Tarotify Journal', ''];
+  if (backup.userProfile) {
+    header.push(
+      `**${backup.userProfile.fullName}** · born ${formatDateLong(new Date(backup.userProfile.dateOfBirth))}` +
+        ` at ${backup.userProfile.timeOfBirth}, ${backup.userProfile.placeOfBirth}`,
+      ''
+    );
+  }
+  header.push(
+    `*Exported ${formatDateLong(new Date(backup.exportedAt))} · ${backup.readings.length} readings*`
+  );
+
+  return [header.join('\n'), ...backup.readings.map(serializeReadingMarkdown)].join('\n\n---\n\n');
+};
+
+const serializers: Record<ExportFormat, (backup: JournalBackup) => string> = {
+  json: serializeJson,
+  csv: serializeCsv,
+  markdown: serializeMarkdown,
+};
+
+/**
+ * Write the journal to a file in the chosen format and open the share sheet for it.
+ * Both platforms share the file itself, so large journals are never squeezed into a message.
+ */
+export const exportJournal = async (format: ExportFormat): Promise<void> => {
+  const option = EXPORT_FORMATS.find(entry => entry.value === format)!;
+  const backup = await buildJournalBackup();
+  const contents = serializers[format](backup);
+
+  const fileName = `tarotify-journal-${backup.exportedAt.split('T')[0]}.${option.extension}`;
+  const fileUri = `${EXPORTS_DIR}${fileName}`;
+  const dirInfo = await getInfoAsync(EXPORTS_DIR);
+  if (!dirInfo.exists) {
+    await makeDirectoryAsync(EXPORTS_DIR, { intermediates: true });
+  }
+  await writeAsStringAsync(fileUri, contents);
+
+  await shareAsync(fileUri, { mimeType: option.mimeType, UTI: option.uti, dialogTitle: fileName });
+};
@@ -0,0 +1,238 @@
+// Journal Import - Validate a backup document and merge it into the stored journal
+import { getInfoAsync, readAsStringAsync, readDirectoryAsync } from 'expo-file-system/legacy';
+import { getDocumentAsync } from 'expo-document-picker';
+import {
+  getReadingHistory,
+  saveReadingHistory,
+  getUserProfile,
+  saveUserProfile,
+  getPartnerProfile,
+  savePartnerProfile,
+  getChartAnalysis,
+  saveChartAnalysis,
+  getCompatibilityAnalysis,
+  saveCompatibilityAnalysis,
+} from '@/utils/storage';
+import {
+  RecordError,
+  isObject,
+  parseCompatibilityAnalysis,
+  parseProfile,
+  parseReading,
+} from '@/utils/storageCodecs';
+import { BACKUP_FORMAT, BACKUP_VERSION, EXPORTS_DIR } from '@/utils/journalExport';
+import { DailyReading, ImportStrategy, JournalBackup } from '@/types';
+
+export const IMPORT_STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  {
+    value: 'keep-existing',
+    label: 'Keep Mine',
+    description: 'Readings already in your journal stay as they are',
+  },
+  {
+    value: 'overwrite',
+    label: 'Overwrite',
+    description: 'Readings from the backup replace those with the same id',
+  },
+  {
+    value: 'keep-both',
+    label: 'Keep Both',
+    description: 'Clashing readings are added alongside yours as copies',
+  },
+];
+
+// A reading in the backup that could not be restored
+export interface InvalidRecord {
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface BackupValidation {
+  backup: JournalBackup | null; // Only the valid readings; null if the document itself is unusable
+  errors: string[]; // Problems with the document as a whole
+  invalidRecords: InvalidRecord[];
+}
+
+export interface ImportSummary {
+  added: number;
+  replaced: number;
+  skipped: number; // Clashing readings left alone under 'keep-existing'
+  invalid: number;
+  restoredProfile: boolean;
+}
+
+// A backup file saved by a previous export
+export interface SavedBackup {
+  uri: string;
+  name: string;
+  modifiedAt: Date | null;
+}
+
+// Optional sections are dropped rather than failing the whole backup
+const parseOptional = <T>(value: unknown, parse: (value: unknown) => T): T | null => {
+  if (value === null || value === undefined) return null;
+  try {
+    return parse(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check a backup against the versioned schema.
+ * Readings that fail are reported in invalidRecords and left out of the returned backup.
+ */
+export const validateBackup = (contents: string): BackupValidation => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(contents);
+  } catch {
+    return { backup: null, errors: ['This is not a valid JSON backup.'], invalidRecords: [] };
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['This file is not a Tarotify journal backup.'], invalidRecords: [] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return {
+      backup: null,
+      errors: ['This backup was made by a newer version of Tarotify. Please update the app first.'],
+      invalidRecords: [],
+    };
+  }
+  if (!Array.isArray(raw.readings)) {
+    return { backup: null, errors: ['The backup has no readings list.'], invalidRecords: [] };
+  }
+
+  const readings: DailyReading[] = [];
+  const invalidRecords: InvalidRecord[] = [];
+  raw.readings.forEach((record: unknown, index: number) => {
+    try {
+      readings.push(parseReading(record));
+    } catch (error) {
+      if (!(error instanceof RecordError)) throw error;
+      invalidRecords.push({
+        index,
+        id: isObject(record) && typeof record.id === 'string' ? record.id : undefined,
+        reason: error.message,
+      });
+    }
+  });
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      userProfile: parseOptional(raw.userProfile, parseProfile),
+      partnerProfile: parseOptional(raw.partnerProfile, parseProfile),
+      chartAnalysis: typeof raw.chartAnalysis === 'string' ? raw.chartAnalysis : null,
+      compatibilityAnalysis: parseOptional(raw.compatibilityAnalysis, parseCompatibilityAnalysis),
+      readings,
+    },
+    errors: [],
+    invalidRecords,
+  };
+};
+
+/**
+ * Merge backed-up readings into the history by id, newest first.
+ * Profiles and analyses are only replaced under 'overwrite'; otherwise they fill gaps.
+ */
+export const importBackup = async (
+  validation: BackupValidation,
+  strategy: ImportStrategy
+): Promise<ImportSummary> => {
+  const { backup } = validation;
+  if (!backup) throw new Error('Cannot import an invalid backup');
+
+  const history = await getReadingHistory();
+  const summary: ImportSummary = {
+    added: 0,
+    replaced: 0,
+    skipped: 0,
+    invalid: validation.invalidRecords.length,
+    restoredProfile: false,
+  };
+
+  const merged = [...history];
+  for (const reading of backup.readings) {
+    const existingIndex = merged.findIndex(r => r.id === reading.id);
+    if (existingIndex < 0) {
+      merged.push(reading);
+      summary.added++;
+    } else if (strategy === 'overwrite') {
+      merged[existingIndex] = reading;
+      summary.replaced++;
+    } else if (strategy === 'keep-both') {
+      merged.push({ ...reading, id: `${reading.id}_restored_${Date.now()}` });
+      summary.added++;
+    } else {
+      summary.skipped++;
+    }
+  }
+  merged.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  await saveReadingHistory(merged);
+
+  const shouldRestore = async <T>(incoming: T | null, getCurrent: () => Promise<T | null>) =>
+    incoming !== null && (strategy === 'overwrite' || (await getCurrent()) === null);
+
+  if (await shouldRestore(backup.userProfile, getUserProfile)) {
+    await saveUserProfile(backup.userProfile!);
+    summary.restoredProfile = true;
+  }
+  if (await shouldRestore(backup.partnerProfile, getPartnerProfile)) {
+    await savePartnerProfile(backup.partnerProfile!);
+  }
+  if (await shouldRestore(backup.chartAnalysis, getChartAnalysis)) {
+    await saveChartAnalysis(backup.chartAnalysis!);
+  }
+  if (await shouldRestore(backup.compatibilityAnalysis, getCompatibilityAnalysis)) {
+    await saveCompatibilityAnalysis(backup.compatibilityAnalysis!);
+  }
+
+  return summary;
+};
+
+/**
+ * JSON backups written by earlier exports, newest first
+ */
+export const listSavedBackups = async (): Promise<SavedBackup[]> => {
+  try {
+    const dirInfo = await getInfoAsync(EXPORTS_DIR);
+    if (!dirInfo.exists) return [];
+
+    const names = (await readDirectoryAsync(EXPORTS_DIR)).filter(name => name.endsWith('.json'));
+    const backups = await Promise.all(
+      names.map(async name => {
+        const uri = `${EXPORTS_DIR}${name}`;
+        const info = await getInfoAsync(uri);
+        return {
+          uri,
+          name,
+          modifiedAt: info.exists ? new Date(info.modificationTime * 1000) : null,
+        };
+      })
+    );
+    return backups.sort((a, b) => (b.modifiedAt?.getTime() ?? 0) - (a.modifiedAt?.getTime() ?? 0));
+  } catch (error) {
+    console.error('Error listing saved backups:', error);
+    return [];
+  }
+};
+
+export const readBackupFile = async (uri: string): Promise<string> => {
+  return await readAsStringAsync(uri);
+};
+
+/**
+ * Read a backup the seeker picks from anywhere on the device, such as one kept before a reinstall
+ * Returns null when the picker is dismissed
+ */
+export const pickBackupFile = async (): Promise<string | null> => {
+  // Any type: some file providers don't label .json files as JSON; validation rejects the rest
+  const result = await getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  return await readBackupFile(result.assets[0].uri);
+};
@@ -0,0 +1,181 @@
+// Journal Search Utilities - Full-text search and filters over the reading history
+import { getReadingType, getReadingSubject } from '@/utils/storage';
+import { isForecastType, toDateString } from '@/utils/forecast';
+import { DailyReading, ReadingSubject, ReadingType, TarotCard } from '@/types';
+
+export type JournalTypeFilter = 'all' | ReadingType | 'forecast';
+
+export type JournalSubjectFilter = 'all' | ReadingSubject;
+
+export type ArcanaFilter = 'all' | TarotCard['arcana'];
+
+export type SuitFilter = 'all' | NonNullable<TarotCard['suit']>;
+
+export type DateRangePreset = 'any' | 'week' | 'month' | 'year' | 'custom';
+
+export interface JournalQuery {
+  text: string;
+  type: JournalTypeFilter;
+  subject: JournalSubjectFilter;
+  arcana: ArcanaFilter;
+  suit: SuitFilter;
+  cardId: number | null;
+  dateRange: DateRangePreset;
+  dateFrom: string; // YYYY-MM-DD, inclusive; only used by the 'custom' range
+  dateTo: string; // YYYY-MM-DD, inclusive; only used by the 'custom' range
+}
+
+export const TYPE_FILTERS: { value: JournalTypeFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'question', label: 'Questions' },
+  { value: 'yes-no', label: 'Yes / No' },
+  { value: 'forecast', label: 'Forecasts' },
+];
+
+export const SUBJECT_FILTERS: { value: JournalSubjectFilter; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'self', label: 'Me' },
+  { value: 'partner', label: 'Partner' },
+];
+
+export const ARCANA_FILTERS: { value: ArcanaFilter; label: string }[] = [
+  { value: 'all', label: 'Any' },
+  { value: 'major', label: 'Major' },
+  { value: 'minor', label: 'Minor' },
+];
+
+export const SUIT_FILTERS: { value: SuitFilter; label: string }[] = [
+  { value: 'all', label: 'Any' },
+  { value: 'wands', label: 'Wands' },
+  { value: 'cups', label: 'Cups' },
+  { value: 'swords', label: 'Swords' },
+  { value: 'pentacles', label: 'Pentacles' },
+];
+
+export const DATE_RANGE_FILTERS: { value: DateRangePreset; label: string }[] = [
+  { value: 'any', label: 'Any Time' },
+  { value: 'week', label: 'Past Week' },
+  { value: 'month', label: 'Past Month' },
+  { value: 'year', label: 'Past Year' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const createJournalQuery = (): JournalQuery => {
+  const today = new Date();
+  return {
+    text: '',
+    type: 'all',
+    subject: 'all',
+    arcana: 'all',
+    suit: 'all',
+    cardId: null,
+    dateRange: 'any',
+    dateFrom: toDateString(new Date(today.getFullYear(), today.getMonth() - 1, today.getDate())),
+    dateTo: toDateString(today),
+  };
+};
+
+// Number of filters narrowing the list, not counting the search text
+export const countActiveFilters = (query: JournalQuery): number => {
+  return [
+    query.type !== 'all',
+    query.subject !== 'all',
+    query.arcana !== 'all',
+    query.suit !== 'all',
+    query.cardId !== null,
+    query.dateRange !== 'any',
+  ].filter(Boolean).length;
+};
+
+// Inclusive YYYY-MM-DD bounds for the query's date range, or null for any time
+export const getDateRangeBounds = (
+  query: JournalQuery,
+  today: Date = new Date()
+): { from: string; to: string } | null => {
+  const daysBack = (days: number) =>
+    toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() - days));
+
+  switch (query.dateRange) {
+    case 'week':
+      return { from: daysBack(7), to: toDateString(today) };
+    case 'month':
+      return { from: daysBack(30), to: toDateString(today) };
+    case 'year':
+      return { from: daysBack(365), to: toDateString(today) };
+    case 'custom':
+      return query.dateFrom <= query.dateTo
+        ? { from: query.dateFrom, to: query.dateTo }
+        : { from: query.dateTo, to: query.dateFrom };
+    default:
+      return null;
+  }
+};
+
+// Everything the seeker or the cards wrote about a reading, lower-cased for matching
+const getSearchableText = (reading: DailyReading): string => {
+  const parts: (string | undefined)[] = [
+    reading.question,
+    reading.mainExplanation,
+    reading.reflection?.note,
+    ...(reading.tags ?? []),
+  ];
+  for (const cardReading of reading.cards) {
+    parts.push(
+      cardReading.card.name,
+      cardReading.shortDescription,
+      cardReading.reflection?.note,
+      ...(cardReading.clarifiers ?? []).map(clarifier => clarifier.interpretation)
+    );
+  }
+  return parts.filter(Boolean).join('\n').toLowerCase();
+};
+
+const matchesCardFilters = (reading: DailyReading, query: JournalQuery): boolean => {
+  if (query.arcana === 'all' && query.suit === 'all' && query.cardId === null) return true;
+
+  // A single card in the spread has to satisfy every card filter at once
+  return reading.cards.some(({ card }) =>
+    (query.arcana === 'all' || card.arcana === query.arcana)
+    && (query.suit === 'all' || card.suit === query.suit)
+    && (query.cardId === null || card.id === query.cardId)
+  );
+};
+
+/**
+ * Whether a reading passes the search text and every filter.
+ * Each word of the search text must appear somewhere in the reading, in any order.
+ */
+export const matchesJournalQuery = (reading: DailyReading, query: JournalQuery): boolean => {
+  const type = getReadingType(reading);
+  if (query.type === 'forecast' ? !isForecastType(type) : query.type !== 'all' && type !== query.type) {
+    return false;
+  }
+  if (query.subject !== 'all' && getReadingSubject(reading) !== query.subject) {
+    return false;
+  }
+  if (!matchesCardFilters(reading, query)) {
+    return false;
+  }
+
+  const bounds = getDateRangeBounds(query);
+  if (bounds && (reading.date < bounds.from || reading.date > bounds.to)) {
+    return false;
+  }
+
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const searchable = getSearchableText(reading);
+  return terms.every(term => searchable.includes(term));
+};
+
+// Distinct cards that appear in the history, alphabetically, for the card filter
+export const getCardsInHistory = (history: DailyReading[]): TarotCard[] => {
+  const cards = new Map<number, TarotCard>();
+  for (const reading of history) {
+    for (const { card } of reading.cards) {
+      cards.set(card.id, card);
+    }
+  }
+  return [...cards.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
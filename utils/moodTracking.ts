@@ -0,0 +1,108 @@
+// Mood Tracking - Check-ins before and after readings, and how mood moves with the cards drawn
+import { Feeling, DailyReading, MoodCheckIn, MoodScore, TarotCard } from '@/types';
+
+export const FEELING_OPTIONS: { id: Feeling; label: string }[] = [
+  { id: 'clarity', label: 'I want clarity' },
+  { id: 'confused', label: 'I feel confused' },
+  { id: 'stuck', label: 'I feel stuck' },
+  { id: 'hopeful', label: 'I feel hopeful' },
+];
+
+export const MOOD_SCALE: { score: MoodScore; label: string; emoji: string }[] = [
+  { score: 1, label: 'Heavy', emoji: '😞' },
+  { score: 2, label: 'Low', emoji: '😕' },
+  { score: 3, label: 'Steady', emoji: '😐' },
+  { score: 4, label: 'Good', emoji: '🙂' },
+  { score: 5, label: 'Light', emoji: '😄' },
+];
+
+// A card must appear alongside this many complete check-ins before its shift is reported
+export const MOOD_CARD_MIN_COUNT = 2;
+
+export interface MoodPoint {
+  reading: DailyReading;
+  before?: MoodScore;
+  after?: MoodScore;
+}
+
+// Average change from before to after across the readings a card appeared in
+export interface CardMoodShift {
+  card: TarotCard;
+  count: number;
+  shift: number; // Positive when mood lifted
+}
+
+export const getMoodScaleEntry = (score: MoodScore) => {
+  return MOOD_SCALE.find(entry => entry.score === score) ?? MOOD_SCALE[2];
+};
+
+export const getFeelingLabel = (feeling: Feeling): string => {
+  return FEELING_OPTIONS.find(option => option.id === feeling)?.label ?? feeling;
+};
+
+export const createMoodCheckIn = (score: MoodScore, feelings: Feeling[] = []): MoodCheckIn => ({
+  score,
+  feelings: feelings.length > 0 ? feelings : undefined,
+  recordedAt: new Date().toISOString(),
+});
+
+// Readings with at least one check-in, oldest first
+export const getMoodPoints = (history: DailyReading[]): MoodPoint[] => {
+  return history
+    .filter(reading => reading.moodBefore || reading.moodAfter)
+    .map(reading => ({
+      reading,
+      before: reading.moodBefore?.score,
+      after: reading.moodAfter?.score,
+    }))
+    .sort((a, b) => new Date(a.reading.createdAt).getTime() - new Date(b.reading.createdAt).getTime());
+};
+
+const getShift = (point: MoodPoint): number | null => {
+  return point.before !== undefined && point.after !== undefined ? point.after - point.before : null;
+};
+
+// Mean before-to-after change over readings with both check-ins, or null if there are none
+export const getAverageMoodShift = (points: MoodPoint[]): number | null => {
+  const shifts = points.map(getShift).filter((shift): shift is number => shift !== null);
+  if (shifts.length === 0) return null;
+  return shifts.reduce((sum, shift) => sum + shift, 0) / shifts.length;
+};
+
+// Cards drawn on readings with both check-ins, largest lift first
+export const getCardMoodShifts = (points: MoodPoint[]): CardMoodShift[] => {
+  const totals = new Map<number, { card: TarotCard; count: number; total: number }>();
+  for (const point of points) {
+    const shift = getShift(point);
+    if (shift === null) continue;
+    for (const { card } of point.reading.cards) {
+      const entry = totals.get(card.id) ?? { card, count: 0, total: 0 };
+      entry.count += 1;
+      entry.total += shift;
+      totals.set(card.id, entry);
+    }
+  }
+
+  return [...totals.values()]
+    .filter(entry => entry.count >= MOOD_CARD_MIN_COUNT)
+    .map(({ card, count, total }) => ({ card, count, shift: total / count }))
+    .sort((a, b) => b.shift - a.shift || b.count - a.count);
+};
+
+// e.g. "😕 Low → 🙂 Good", with a dash for a missing check-in; null when there are none
+export const formatMoodJourney = (reading: DailyReading): string | null => {
+  const { moodBefore, moodAfter } = reading;
+  if (!moodBefore && !moodAfter) return null;
+  const format = (checkIn?: MoodCheckIn) => {
+    if (!checkIn) return '—';
+    const entry = getMoodScaleEntry(checkIn.score);
+    return `${entry.emoji} ${entry.label}`;
+  };
+  return `${format(moodBefore)} → ${format(moodAfter)}`;
+};
+
+// e.g. "+1.5" or "-0.5"
+export const formatMoodShift = (shift: number): string => {
+  const rounded = Math.round(shift * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+};
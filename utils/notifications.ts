@@ -1,4 +1,4 @@
-// Notification Utilities for Daily Tarot Reminders
+// Notification Utilities for Daily Tarot Reminders and Check-Back Follow-Ups
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
@@ -6,6 +6,21 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const NOTIFICATION_STORAGE_KEY = '@tarotify_notifications_enabled';
 
+// Hour of the day (local time) check-back follow-ups are delivered
+const CHECK_BACK_HOUR = 10;
+
+/**
+ * Cancel scheduled notifications of one type, leaving the others in place
+ */
+const cancelScheduledByType = async (type: string): Promise<void> => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(notification => notification.content.data?.type === type)
+      .map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+  );
+};
+
 /**
  * Register for push notifications
  * Returns true if permissions are granted, false otherwise
@@ -53,8 +68,8 @@ export const registerForNotifications = async (): Promise<boolean> => {
  */
 export const scheduleDailyReminder = async (): Promise<boolean> => {
   try {
-    // Cancel any existing scheduled notifications to avoid duplicates
-    await Notifications.cancelAllScheduledNotificationsAsync();
+    // Cancel any existing daily reminder to avoid duplicates
+    await cancelScheduledByType('daily-reminder');
 
     // Schedule the daily notification
     await Notifications.scheduleNotificationAsync({
@@ -84,11 +99,11 @@ export const scheduleDailyReminder = async (): Promise<boolean> => {
 };
 
 /**
- * Cancel all scheduled notifications
+ * Cancel the daily reminder (check-back follow-ups stay scheduled)
  */
 export const cancelDailyReminder = async (): Promise<void> => {
   try {
-    await Notifications.cancelAllScheduledNotificationsAsync();
+    await cancelScheduledByType('daily-reminder');
     await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEY, 'false');
     console.log('Daily reminder cancelled');
   } catch (error) {
@@ -114,15 +129,65 @@ export const checkNotificationStatus = async (): Promise<boolean> => {
       return false;
     }
 
-    // Check if any notifications are scheduled
+    // Check if the daily reminder is scheduled
     const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
-    return scheduledNotifications.length > 0;
+    return scheduledNotifications.some(
+      notification => notification.content.data?.type === 'daily-reminder'
+    );
   } catch (error) {
     console.error('Error checking notification status:', error);
     return false;
   }
 };
 
+/**
+ * Schedule a follow-up asking whether a reading's future card played out
+ * Returns the notification id, or null if permissions are not granted
+ */
+export const scheduleCheckBack = async (
+  readingId: string,
+  cardName: string,
+  dueDate: Date
+): Promise<string | null> => {
+  try {
+    // Only schedule when the seeker has already allowed notifications
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      return null;
+    }
+
+    const triggerDate = new Date(dueDate);
+    triggerDate.setHours(CHECK_BACK_HOUR, 0, 0, 0);
+
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Did the Cards Speak True? 🔮',
+        body: `${cardName} pointed the way. Tell your journal whether it played out.`,
+        sound: 'default',
+        data: { type: 'check-back', readingId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: triggerDate,
+      },
+    });
+  } catch (error) {
+    console.error('Error scheduling check-back:', error);
+    return null;
+  }
+};
+
+/**
+ * Cancel a pending check-back follow-up
+ */
+export const cancelCheckBack = async (notificationId: string): Promise<void> => {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  } catch (error) {
+    console.error('Error cancelling check-back:', error);
+  }
+};
+
 /**
  * Get all scheduled notifications (for debugging)
  */
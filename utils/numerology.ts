@@ -76,3 +76,57 @@ export const calculateSoulUrgeNumber = (fullName: string): number => {
 
   return reduceNumber(sum);
 };
+
+// Calculate Personal Year Number for a calendar year
+// Birth month + birth day + the calendar year
+export const calculatePersonalYearNumber = (dateOfBirth: Date, year: number): number => {
+  const reducedMonth = reduceNumber(dateOfBirth.getMonth() + 1);
+  const reducedDay = reduceNumber(dateOfBirth.getDate());
+  const reducedYear = reduceNumber(year);
+
+  return reduceNumber(reducedMonth + reducedDay + reducedYear);
+};
+
+// Calculate Personal Month Number for a calendar month (1-12)
+// Personal year + the calendar month
+export const calculatePersonalMonthNumber = (
+  dateOfBirth: Date,
+  year: number,
+  month: number
+): number => {
+  return reduceNumber(calculatePersonalYearNumber(dateOfBirth, year) + month);
+};
+
+// Sum the digits of a number without honouring master numbers
+const sumDigits = (num: number): number => {
+  return num.toString().split('').reduce((sum, digit) => sum + parseInt(digit, 10), 0);
+};
+
+// Reduce a date total until it names a Major Arcana card (22 stands for The Fool)
+const reduceToMajorArcana = (num: number): number => {
+  let total = num;
+  while (total > 22) {
+    total = sumDigits(total);
+  }
+  return total;
+};
+
+// Calculate the Tarot Birth Card numbers from Date of Birth
+// Month + day + year, reduced to 22 or below, then down to a single digit
+// e.g. a total of 19 gives 19 / 10 / 1 (The Sun, Wheel of Fortune, The Magician)
+export const calculateBirthCardNumbers = (date: Date): number[] => {
+  const total = (date.getMonth() + 1) + date.getDate() + date.getFullYear();
+  const numbers = [reduceToMajorArcana(total)];
+
+  while (numbers[numbers.length - 1] >= 10) {
+    numbers.push(sumDigits(numbers[numbers.length - 1]));
+  }
+
+  return numbers;
+};
+
+// Calculate the Personal Year Card number for a calendar year
+// Birth month + birth day + the calendar year, reduced to 22 or below
+export const calculatePersonalYearCardNumber = (dateOfBirth: Date, year: number): number => {
+  return reduceToMajorArcana((dateOfBirth.getMonth() + 1) + dateOfBirth.getDate() + year);
+};
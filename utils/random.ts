@@ -0,0 +1,59 @@
+// Random Number Utilities - Pluggable RNG sources and an unbiased shuffle
+import { getRandomValues } from 'expo-crypto';
+
+// A source of uniformly distributed numbers in [0, 1)
+export type RandomSource = () => number;
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Cryptographically secure random source backed by the platform RNG
+ */
+export const secureRandom: RandomSource = () => {
+  const buffer = getRandomValues(new Uint32Array(1));
+  return buffer[0] / UINT32_RANGE;
+};
+
+/**
+ * Deterministic PRNG (mulberry32) - the same seed always yields the same sequence.
+ * Only used to replay and verify readings whose shuffle was recorded as a seed.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+};
+
+/**
+ * Uniform integer in [0, bound) from the platform RNG. Values past the largest
+ * multiple of `bound` are redrawn so no index is favoured by the modulo.
+ */
+export const secureRandomIndex = (bound: number): number => {
+  const limit = UINT32_RANGE - (UINT32_RANGE % bound);
+  const buffer = new Uint32Array(1);
+  let value: number;
+  do {
+    value = getRandomValues(buffer)[0];
+  } while (value >= limit);
+  return value % bound;
+};
+
+/**
+ * Fisher-Yates shuffle - returns a new array, every permutation equally likely
+ * @param items - The items to shuffle (left untouched)
+ * @param random - A seeded source to replay from; omit to draw each index from the platform RNG
+ */
+export const shuffle = <T>(items: readonly T[], random?: RandomSource): T[] => {
+  const pickIndex = random ? (bound: number) => Math.floor(random() * bound) : secureRandomIndex;
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = pickIndex(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,111 @@
+// Reading Calendar Utilities - Month grids, daily element colours and streaks for the journal
+import { parseDateString, toDateString } from '@/utils/forecast';
+import { DailyReading } from '@/types';
+
+export type CardElement = 'Fire' | 'Water' | 'Air' | 'Earth';
+
+// Elements in tie-break order, with the suit each one rules
+export const ELEMENTS: { element: CardElement; suit: string; color: string }[] = [
+  { element: 'Fire', suit: 'Wands', color: '#E07A5F' },
+  { element: 'Water', suit: 'Cups', color: '#5FA8D3' },
+  { element: 'Air', suit: 'Swords', color: '#E9D985' },
+  { element: 'Earth', suit: 'Pentacles', color: '#7FB77E' },
+];
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAY_MS = 86400000;
+
+export interface StreakStats {
+  current: number; // Consecutive days with a reading, ending today or yesterday
+  longest: number;
+  longestGap: number; // Most days in a row without a reading between two readings
+}
+
+// Whole days from one YYYY-MM-DD date to another
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / DAY_MS);
+};
+
+export const groupReadingsByDate = (readings: DailyReading[]): Map<string, DailyReading[]> => {
+  const byDate = new Map<string, DailyReading[]>();
+  for (const reading of readings) {
+    byDate.set(reading.date, [...(byDate.get(reading.date) ?? []), reading]);
+  }
+  return byDate;
+};
+
+// The element most of a day's cards share; ties go to the earlier element in ELEMENTS
+export const getDominantElement = (readings: DailyReading[]): CardElement | null => {
+  const counts = new Map<string, number>();
+  for (const reading of readings) {
+    for (const { card } of reading.cards) {
+      if (card.element) counts.set(card.element, (counts.get(card.element) ?? 0) + 1);
+    }
+  }
+
+  let dominant: CardElement | null = null;
+  let highest = 0;
+  for (const { element } of ELEMENTS) {
+    const count = counts.get(element) ?? 0;
+    if (count > highest) {
+      dominant = element;
+      highest = count;
+    }
+  }
+  return dominant;
+};
+
+export const getElementColor = (element: CardElement): string => {
+  return ELEMENTS.find(entry => entry.element === element)?.color ?? '#DD85D8';
+};
+
+/**
+ * Weeks of the month as rows of seven, Monday first.
+ * Days outside the month are null so the grid lines up with the weekday labels.
+ */
+export const getMonthGrid = (year: number, month: number): (string | null)[][] => {
+  const leadingBlanks = (new Date(year, month, 1).getDay() + 6) % 7;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const cells: (string | null)[] = Array(leadingBlanks).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(toDateString(new Date(year, month, day)));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+};
+
+export const getStreakStats = (dates: string[], today: Date = new Date()): StreakStats => {
+  const sorted = [...new Set(dates)].sort();
+  if (sorted.length === 0) return { current: 0, longest: 0, longestGap: 0 };
+
+  let longest = 1;
+  let longestGap = 0;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = daysBetween(sorted[i - 1], sorted[i]);
+    run = gap === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    longestGap = Math.max(longestGap, gap - 1);
+  }
+
+  // The last run only counts as current if it has not been broken yet
+  const sinceLast = daysBetween(sorted[sorted.length - 1], toDateString(today));
+  return { current: sinceLast <= 1 ? run : 0, longest, longestGap };
+};
+
+// Whether a date with a reading sits inside a run of at least two consecutive days
+export const isStreakDay = (date: string, readingDates: Set<string>): boolean => {
+  const day = parseDateString(date);
+  const previous = toDateString(new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1));
+  const next = toDateString(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1));
+  return readingDates.has(date) && (readingDates.has(previous) || readingDates.has(next));
+};
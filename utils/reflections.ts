@@ -0,0 +1,45 @@
+// Reflection Utilities - Moods, resonance ratings and text summaries for the seeker's notes
+import { Reflection, ReflectionMood, Resonance } from '@/types';
+
+export const MOOD_OPTIONS: { value: ReflectionMood; label: string; emoji: string }[] = [
+  { value: 'joyful', label: 'Joyful', emoji: '😊' },
+  { value: 'calm', label: 'Calm', emoji: '😌' },
+  { value: 'hopeful', label: 'Hopeful', emoji: '🌱' },
+  { value: 'uncertain', label: 'Uncertain', emoji: '🤔' },
+  { value: 'anxious', label: 'Anxious', emoji: '😟' },
+  { value: 'low', label: 'Low', emoji: '😔' },
+];
+
+export const RESONANCE_OPTIONS: { value: Resonance; label: string }[] = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'partly', label: 'Partly' },
+  { value: 'no', label: 'Not really' },
+];
+
+export const getMoodOption = (mood: ReflectionMood) => {
+  return MOOD_OPTIONS.find(option => option.value === mood);
+};
+
+export const getResonanceLabel = (resonance: Resonance): string => {
+  return RESONANCE_OPTIONS.find(option => option.value === resonance)?.label ?? resonance;
+};
+
+// A reflection with nothing in it is treated as no reflection at all
+export const hasReflection = (reflection?: Reflection): reflection is Reflection => {
+  return !!reflection && (!!reflection.note.trim() || !!reflection.mood || !!reflection.resonance);
+};
+
+// One-line summary, e.g. "Mood: Hopeful · Resonated: Partly · \"Felt true at work\""
+export const formatReflection = (reflection: Reflection): string => {
+  const parts: string[] = [];
+  if (reflection.mood) {
+    parts.push(`Mood: ${getMoodOption(reflection.mood)?.label ?? reflection.mood}`);
+  }
+  if (reflection.resonance) {
+    parts.push(`Resonated: ${getResonanceLabel(reflection.resonance)}`);
+  }
+  if (reflection.note.trim()) {
+    parts.push(`"${reflection.note.trim()}"`);
+  }
+  return parts.join(' · ');
+};
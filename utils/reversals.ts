@@ -0,0 +1,48 @@
+// Reversed Card Preference Utility
+import { readStoredValue, writeStoredValue } from '@/utils/storage';
+import { ReversalPreference } from '@/types';
+
+// Probability used by the classic tradition of shuffling half the deck upside down
+const CLASSIC_PROBABILITY = 0.5;
+
+export const DEFAULT_REVERSAL_PREFERENCE: ReversalPreference = {
+  mode: 'off',
+  customProbability: 0.25,
+};
+
+/**
+ * Get the stored reversal preference
+ */
+export const getReversalPreference = async (): Promise<ReversalPreference> => {
+  try {
+    return (await readStoredValue('REVERSAL_PREFERENCE')) ?? DEFAULT_REVERSAL_PREFERENCE;
+  } catch (error) {
+    console.error('Error getting reversal preference:', error);
+    return DEFAULT_REVERSAL_PREFERENCE;
+  }
+};
+
+/**
+ * Save the reversal preference
+ */
+export const saveReversalPreference = async (preference: ReversalPreference): Promise<void> => {
+  try {
+    await writeStoredValue('REVERSAL_PREFERENCE', preference);
+  } catch (error) {
+    console.error('Error saving reversal preference:', error);
+  }
+};
+
+/**
+ * Resolve a preference to the chance (0-1) that any drawn card lands reversed
+ */
+export const getReversalProbability = (preference: ReversalPreference): number => {
+  switch (preference.mode) {
+    case 'classic':
+      return CLASSIC_PROBABILITY;
+    case 'custom':
+      return Math.min(1, Math.max(0, preference.customProbability));
+    default:
+      return 0;
+  }
+};
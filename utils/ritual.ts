@@ -0,0 +1,25 @@
+// Ritual Draw Preference Utility
+import { readStoredValue, writeStoredValue } from '@/utils/storage';
+
+/**
+ * Get whether readings should be drawn by hand (shuffle, cut and pick)
+ */
+export const getRitualModePreference = async (): Promise<boolean> => {
+  try {
+    return (await readStoredValue('RITUAL_MODE')) ?? false;
+  } catch (error) {
+    console.error('Error getting ritual mode preference:', error);
+    return false;
+  }
+};
+
+/**
+ * Save the ritual mode preference
+ */
+export const saveRitualModePreference = async (enabled: boolean): Promise<void> => {
+  try {
+    await writeStoredValue('RITUAL_MODE', enabled);
+  } catch (error) {
+    console.error('Error saving ritual mode preference:', error);
+  }
+};
@@ -1,23 +1,236 @@
 // Storage utilities for Tarotify
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { UserProfile, DailyReading, StoredCardImage } from '@/types';
+import { getCardById } from '@/data/tarotDeck';
+import {
+  READING_SUBJECTS,
+  READING_TYPES,
+  StorageCodec,
+  arrayCodec,
+  booleanCodec,
+  compatibilityAnalysisCodec,
+  feelingsCodec,
+  jsonCodec,
+  numberCodec,
+  optionalOption,
+  optionalString,
+  parseCardReadingFields,
+  parseChatThread,
+  parseChatThreadSummary,
+  parseClarifierFields,
+  parseCreatedAt,
+  parseProfile,
+  parseReadingFields,
+  requireArray,
+  partnerProfileCodec,
+  profileCodec,
+  readingCodec,
+  recordCodec,
+  requireNumber,
+  requireObject,
+  requireString,
+  reversalPreferenceCodec,
+  storedImagesCodec,
+  textCodec,
+} from '@/utils/storageCodecs';
+import { StorageTransaction, runStorageTransaction } from '@/utils/storageTransaction';
+import {
+  UserProfile,
+  PartnerProfile,
+  DailyReading,
+  CardReading,
+  ClarifierCard,
+  StoredCardImage,
+  ReadingType,
+  ReadingSubject,
+  ForecastType,
+  Reflection,
+  Resonance,
+  CompatibilityAnalysis,
+  DeletedReading,
+  Feeling,
+  MoodCheckIn,
+  ChatThread,
+  ChatThreadSummary,
+  ReversalPreference,
+} from '@/types';
 
-const STORAGE_KEYS = {
+// The value held under each storage key
+interface StorageValues {
+  SCHEMA_VERSION: number;
+  USER_PROFILE: UserProfile;
+  PARTNER_PROFILE: PartnerProfile;
+  IS_ONBOARDED: boolean;
+  DAILY_READING: DailyReading;
+  PARTNER_DAILY_READING: DailyReading;
+  STORED_IMAGES: StoredCardImage[];
+  CARD_BACK_IMAGE: string;
+  CHART_ANALYSIS: string;
+  COMPATIBILITY_ANALYSIS: CompatibilityAnalysis;
+  ONBOARDING_FEELINGS: Feeling[];
+  LEGACY_READING_HISTORY: unknown[]; // Revived entry by entry when migrated
+  READING_INDEX: ReadingIndexEntry[];
+  DELETED_INDEX: DeletedIndexEntry[];
+  PROFILE_SNAPSHOTS: ProfileSnapshots;
+  CHAT_THREAD_INDEX: ChatThreadSummary[];
+  REVERSAL_PREFERENCE: ReversalPreference;
+  RITUAL_MODE: boolean;
+  CHECK_BACK_DAYS: number;
+}
+
+export type StorageKeyName = keyof StorageValues;
+
+const STORAGE_KEYS: Record<StorageKeyName, string> = {
+  SCHEMA_VERSION: '@tarotify_schema_version',
   USER_PROFILE: '@tarotify_user_profile',
+  PARTNER_PROFILE: '@tarotify_partner_profile',
   IS_ONBOARDED: '@tarotify_is_onboarded',
   DAILY_READING: '@tarotify_daily_reading',
   PARTNER_DAILY_READING: '@tarotify_partner_daily_reading',
   STORED_IMAGES: '@tarotify_stored_images',
   CARD_BACK_IMAGE: '@tarotify_card_back_image',
   CHART_ANALYSIS: '@tarotify_chart_analysis',
-  READING_HISTORY: '@tarotify_reading_history',
+  COMPATIBILITY_ANALYSIS: '@tarotify_compatibility_analysis',
+  ONBOARDING_FEELINGS: '@tarotify_onboarding_feelings',
+  LEGACY_READING_HISTORY: '@tarotify_reading_history', // Single blob, replaced by per-reading records
+  READING_INDEX: '@tarotify_reading_index',
+  DELETED_INDEX: '@tarotify_deleted_index',
+  PROFILE_SNAPSHOTS: '@tarotify_profile_snapshots',
+  CHAT_THREAD_INDEX: '@tarotify_chat_thread_index',
+  REVERSAL_PREFERENCE: '@tarotify_reversal_preference',
+  RITUAL_MODE: '@tarotify_ritual_mode',
+  CHECK_BACK_DAYS: '@tarotify_check_back_days',
+};
+
+// Index entries are checked here because the codecs below are built when the module loads
+const parseIndexEntry = (value: unknown): ReadingIndexEntry => {
+  const entry = requireObject(value, 'index entry');
+  return {
+    id: requireString(entry, 'id'),
+    date: requireString(entry, 'date'),
+    createdAt: requireString(entry, 'createdAt'),
+    type: optionalOption(entry.type, READING_TYPES),
+    subject: optionalOption(entry.subject, READING_SUBJECTS),
+    periodKey: optionalString(entry.periodKey),
+  };
+};
+
+const parseDeletedIndexEntry = (value: unknown): DeletedIndexEntry => ({
+  ...parseIndexEntry(value),
+  deletedAt: requireString(requireObject(value, 'index entry'), 'deletedAt'),
+});
+
+const STORAGE_CODECS: { [K in StorageKeyName]: StorageCodec<StorageValues[K]> } = {
+  SCHEMA_VERSION: numberCodec,
+  USER_PROFILE: profileCodec,
+  PARTNER_PROFILE: partnerProfileCodec,
+  IS_ONBOARDED: booleanCodec,
+  DAILY_READING: readingCodec,
+  PARTNER_DAILY_READING: readingCodec,
+  STORED_IMAGES: storedImagesCodec,
+  CARD_BACK_IMAGE: textCodec,
+  CHART_ANALYSIS: textCodec,
+  COMPATIBILITY_ANALYSIS: compatibilityAnalysisCodec,
+  ONBOARDING_FEELINGS: feelingsCodec,
+  LEGACY_READING_HISTORY: arrayCodec(entry => entry),
+  READING_INDEX: arrayCodec(parseIndexEntry),
+  DELETED_INDEX: arrayCodec(parseDeletedIndexEntry),
+  PROFILE_SNAPSHOTS: recordCodec(parseProfile),
+  CHAT_THREAD_INDEX: arrayCodec(parseChatThreadSummary),
+  REVERSAL_PREFERENCE: reversalPreferenceCodec,
+  RITUAL_MODE: booleanCodec,
+  CHECK_BACK_DAYS: numberCodec,
+};
+
+// Values that fail to parse are moved here, so the app starts fresh without losing the data
+const UNREADABLE_KEY_PREFIX = '@tarotify_unreadable:';
+
+// Keep the unreadable part of a value, e.g. corrupt entries of an otherwise usable list
+export const setAsideStoredValue = async (name: StorageKeyName, raw: string): Promise<void> => {
+  await AsyncStorage.setItem(`${UNREADABLE_KEY_PREFIX}${STORAGE_KEYS[name]}`, raw);
 };
 
+// Decode a stored value, setting it aside when it can't be read so callers fall back to defaults.
+// Inside a transaction the set-aside is staged with its other writes.
+const decodeValue = async <T>(
+  key: string,
+  raw: string | null,
+  codec: StorageCodec<T>,
+  reader: StorageReader = directReader
+): Promise<T | null> => {
+  if (raw === null) return null;
+  try {
+    return codec.deserialize(raw);
+  } catch (error) {
+    console.warn(`Setting aside unreadable value for ${key}:`, error);
+    if ('set' in reader) {
+      reader.set(`${UNREADABLE_KEY_PREFIX}${key}`, raw);
+      reader.remove(key);
+    } else {
+      await AsyncStorage.setItem(`${UNREADABLE_KEY_PREFIX}${key}`, raw);
+      await AsyncStorage.removeItem(key);
+    }
+    return null;
+  }
+};
+
+const toStoredEntry = <K extends StorageKeyName>(
+  name: K,
+  value: StorageValues[K]
+): [string, string] => [STORAGE_KEYS[name], STORAGE_CODECS[name].serialize(value)];
+
+// Reads go straight to AsyncStorage outside a transaction, or through it inside one
+type StorageReader = StorageTransaction | Pick<StorageTransaction, 'get'>;
+
+const directReader: StorageReader = { get: key => AsyncStorage.getItem(key) };
+
+const readValueWith = async <K extends StorageKeyName>(
+  reader: StorageReader,
+  name: K
+): Promise<StorageValues[K] | null> => {
+  const key = STORAGE_KEYS[name];
+  return decodeValue(key, await reader.get(key), STORAGE_CODECS[name], reader);
+};
+
+const stageValue = <K extends StorageKeyName>(
+  transaction: StorageTransaction,
+  name: K,
+  value: StorageValues[K]
+): void => {
+  transaction.set(...toStoredEntry(name, value));
+};
+
+export const readStoredValue = <K extends StorageKeyName>(
+  name: K
+): Promise<StorageValues[K] | null> => readValueWith(directReader, name);
+
+// Writes go through a transaction, so they land after any update already in flight
+export const writeStoredValue = <K extends StorageKeyName>(
+  name: K,
+  value: StorageValues[K]
+): Promise<void> =>
+  runStorageTransaction([STORAGE_KEYS[name]], async transaction => {
+    stageValue(transaction, name, value);
+  });
+
+export const removeStoredValue = (name: StorageKeyName): Promise<void> =>
+  runStorageTransaction([STORAGE_KEYS[name]], async transaction => {
+    transaction.remove(STORAGE_KEYS[name]);
+  });
+
+// Read-modify-write of a single value; return null to leave it untouched
+const updateStoredValue = <K extends StorageKeyName>(
+  name: K,
+  update: (current: StorageValues[K] | null) => StorageValues[K] | null
+): Promise<void> =>
+  runStorageTransaction([STORAGE_KEYS[name]], async transaction => {
+    const updated = update(await readValueWith(transaction, name));
+    if (updated !== null) stageValue(transaction, name, updated);
+  });
+
 // User Profile Storage
 export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(profile);
-    await AsyncStorage.setItem(STORAGE_KEYS.USER_PROFILE, jsonValue);
+    await writeStoredValue('USER_PROFILE', profile);
   } catch (error) {
     console.error('Error saving user profile:', error);
     throw error;
@@ -26,25 +239,49 @@ export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
 
 export const getUserProfile = async (): Promise<UserProfile | null> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.USER_PROFILE);
-    if (jsonValue != null) {
-      const profile = JSON.parse(jsonValue);
-      // Convert date strings back to Date objects
-      profile.dateOfBirth = new Date(profile.dateOfBirth);
-      profile.createdAt = new Date(profile.createdAt);
-      return profile;
-    }
-    return null;
+    return await readStoredValue('USER_PROFILE');
   } catch (error) {
     console.error('Error getting user profile:', error);
     return null;
   }
 };
 
+// Partner Profile Storage
+export const savePartnerProfile = async (partner: PartnerProfile): Promise<void> => {
+  try {
+    await writeStoredValue('PARTNER_PROFILE', partner);
+  } catch (error) {
+    console.error('Error saving partner profile:', error);
+    throw error;
+  }
+};
+
+export const getPartnerProfile = async (): Promise<PartnerProfile | null> => {
+  try {
+    return await readStoredValue('PARTNER_PROFILE');
+  } catch (error) {
+    console.error('Error getting partner profile:', error);
+    return null;
+  }
+};
+
+export const removePartnerProfile = async (): Promise<void> => {
+  try {
+    // Today's partner reading was drawn for the removed partner, so drop it too
+    const keys = [STORAGE_KEYS.PARTNER_PROFILE, STORAGE_KEYS.PARTNER_DAILY_READING];
+    await runStorageTransaction(keys, async transaction => {
+      keys.forEach(transaction.remove);
+    });
+  } catch (error) {
+    console.error('Error removing partner profile:', error);
+    throw error;
+  }
+};
+
 // Onboarding Status
 export const setOnboardingComplete = async (complete: boolean): Promise<void> => {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.IS_ONBOARDED, JSON.stringify(complete));
+    await writeStoredValue('IS_ONBOARDED', complete);
   } catch (error) {
     console.error('Error setting onboarding status:', error);
     throw error;
@@ -53,8 +290,7 @@ export const setOnboardingComplete = async (complete: boolean): Promise<void> =>
 
 export const isOnboardingComplete = async (): Promise<boolean> => {
   try {
-    const value = await AsyncStorage.getItem(STORAGE_KEYS.IS_ONBOARDED);
-    return value ? JSON.parse(value) : false;
+    return (await readStoredValue('IS_ONBOARDED')) ?? false;
   } catch (error) {
     console.error('Error checking onboarding status:', error);
     return false;
@@ -64,8 +300,7 @@ export const isOnboardingComplete = async (): Promise<boolean> => {
 // Daily Reading Storage
 export const saveDailyReading = async (reading: DailyReading): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(reading);
-    await AsyncStorage.setItem(STORAGE_KEYS.DAILY_READING, jsonValue);
+    await writeStoredValue('DAILY_READING', reading);
   } catch (error) {
     console.error('Error saving daily reading:', error);
     throw error;
@@ -74,13 +309,7 @@ export const saveDailyReading = async (reading: DailyReading): Promise<void> =>
 
 export const getDailyReading = async (): Promise<DailyReading | null> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.DAILY_READING);
-    if (jsonValue != null) {
-      const reading = JSON.parse(jsonValue);
-      reading.createdAt = new Date(reading.createdAt);
-      return reading;
-    }
-    return null;
+    return await readStoredValue('DAILY_READING');
   } catch (error) {
     console.error('Error getting daily reading:', error);
     return null;
@@ -108,8 +337,7 @@ export const hasReadingForToday = async (): Promise<boolean> => {
 // Partner Daily Reading Storage
 export const savePartnerDailyReading = async (reading: DailyReading): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(reading);
-    await AsyncStorage.setItem(STORAGE_KEYS.PARTNER_DAILY_READING, jsonValue);
+    await writeStoredValue('PARTNER_DAILY_READING', reading);
   } catch (error) {
     console.error('Error saving partner daily reading:', error);
     throw error;
@@ -118,13 +346,7 @@ export const savePartnerDailyReading = async (reading: DailyReading): Promise<vo
 
 export const getPartnerDailyReading = async (): Promise<DailyReading | null> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.PARTNER_DAILY_READING);
-    if (jsonValue != null) {
-      const reading = JSON.parse(jsonValue);
-      reading.createdAt = new Date(reading.createdAt);
-      return reading;
-    }
-    return null;
+    return await readStoredValue('PARTNER_DAILY_READING');
   } catch (error) {
     console.error('Error getting partner daily reading:', error);
     return null;
@@ -134,8 +356,7 @@ export const getPartnerDailyReading = async (): Promise<DailyReading | null> =>
 // Card Images Storage
 export const saveStoredImages = async (images: StoredCardImage[]): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(images);
-    await AsyncStorage.setItem(STORAGE_KEYS.STORED_IMAGES, jsonValue);
+    await writeStoredValue('STORED_IMAGES', images);
   } catch (error) {
     console.error('Error saving stored images:', error);
     throw error;
@@ -144,15 +365,7 @@ export const saveStoredImages = async (images: StoredCardImage[]): Promise<void>
 
 export const getStoredImages = async (): Promise<StoredCardImage[]> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.STORED_IMAGES);
-    if (jsonValue != null) {
-      const images = JSON.parse(jsonValue);
-      return images.map((img: StoredCardImage) => ({
-        ...img,
-        generatedAt: new Date(img.generatedAt),
-      }));
-    }
-    return [];
+    return (await readStoredValue('STORED_IMAGES')) ?? [];
   } catch (error) {
     console.error('Error getting stored images:', error);
     return [];
@@ -172,14 +385,16 @@ export const getCardImageUri = async (cardId: number): Promise<string | null> =>
 
 export const addStoredImage = async (image: StoredCardImage): Promise<void> => {
   try {
-    const images = await getStoredImages();
-    const existingIndex = images.findIndex(img => img.cardId === image.cardId);
-    if (existingIndex >= 0) {
-      images[existingIndex] = image;
-    } else {
-      images.push(image);
-    }
-    await saveStoredImages(images);
+    await updateStoredValue('STORED_IMAGES', current => {
+      const images = current ?? [];
+      const existingIndex = images.findIndex(img => img.cardId === image.cardId);
+      if (existingIndex >= 0) {
+        images[existingIndex] = image;
+      } else {
+        images.push(image);
+      }
+      return images;
+    });
   } catch (error) {
     console.error('Error adding stored image:', error);
     throw error;
@@ -189,7 +404,7 @@ export const addStoredImage = async (image: StoredCardImage): Promise<void> => {
 // Card Back Image
 export const saveCardBackImage = async (uri: string): Promise<void> => {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.CARD_BACK_IMAGE, uri);
+    await writeStoredValue('CARD_BACK_IMAGE', uri);
   } catch (error) {
     console.error('Error saving card back image:', error);
     throw error;
@@ -198,7 +413,7 @@ export const saveCardBackImage = async (uri: string): Promise<void> => {
 
 export const getCardBackImage = async (): Promise<string | null> => {
   try {
-    return await AsyncStorage.getItem(STORAGE_KEYS.CARD_BACK_IMAGE);
+    return await readStoredValue('CARD_BACK_IMAGE');
   } catch (error) {
     console.error('Error getting card back image:', error);
     return null;
@@ -208,7 +423,7 @@ export const getCardBackImage = async (): Promise<string | null> => {
 // Chart Analysis Storage
 export const saveChartAnalysis = async (analysis: string): Promise<void> => {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.CHART_ANALYSIS, analysis);
+    await writeStoredValue('CHART_ANALYSIS', analysis);
   } catch (error) {
     console.error('Error saving chart analysis:', error);
     throw error;
@@ -217,70 +432,398 @@ export const saveChartAnalysis = async (analysis: string): Promise<void> => {
 
 export const getChartAnalysis = async (): Promise<string | null> => {
   try {
-    return await AsyncStorage.getItem(STORAGE_KEYS.CHART_ANALYSIS);
+    return await readStoredValue('CHART_ANALYSIS');
   } catch (error) {
     console.error('Error getting chart analysis:', error);
     return null;
   }
 };
 
-// Reading History Storage
-export const getReadingHistory = async (): Promise<DailyReading[]> => {
+// Compatibility Analysis Storage
+export const saveCompatibilityAnalysis = async (analysis: CompatibilityAnalysis): Promise<void> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.READING_HISTORY);
-    let history: DailyReading[] = [];
-
-    if (jsonValue != null) {
-      history = JSON.parse(jsonValue).map((reading: DailyReading) => ({
-        ...reading,
-        createdAt: new Date(reading.createdAt),
-        userProfile: {
-          ...reading.userProfile,
-          dateOfBirth: new Date(reading.userProfile.dateOfBirth),
-          createdAt: new Date(reading.userProfile.createdAt),
-        },
-      }));
-    }
+    await writeStoredValue('COMPATIBILITY_ANALYSIS', analysis);
+  } catch (error) {
+    console.error('Error saving compatibility analysis:', error);
+    throw error;
+  }
+};
 
-    // Migration: If history is empty, check for existing daily reading
-    if (history.length === 0) {
-      const currentReading = await getDailyReading();
-      if (currentReading) {
-        history = [currentReading];
-        // Save the migrated history
-        await AsyncStorage.setItem(
-          STORAGE_KEYS.READING_HISTORY,
-          JSON.stringify(history)
-        );
-      }
-    }
+export const getCompatibilityAnalysis = async (): Promise<CompatibilityAnalysis | null> => {
+  try {
+    return await readStoredValue('COMPATIBILITY_ANALYSIS');
+  } catch (error) {
+    console.error('Error getting compatibility analysis:', error);
+    return null;
+  }
+};
 
-    return history;
+// Onboarding Feelings - where the seeker said they were when they first arrived
+export const saveOnboardingFeelings = async (feelings: Feeling[]): Promise<void> => {
+  try {
+    await writeStoredValue('ONBOARDING_FEELINGS', feelings);
+  } catch (error) {
+    console.error('Error saving onboarding feelings:', error);
+    throw error;
+  }
+};
+
+export const getOnboardingFeelings = async (): Promise<Feeling[]> => {
+  try {
+    return (await readStoredValue('ONBOARDING_FEELINGS')) ?? [];
+  } catch (error) {
+    console.error('Error getting onboarding feelings:', error);
+    return [];
+  }
+};
+
+// Reading History Storage
+// Each reading is its own record, with cards stored by id and profiles as shared snapshots.
+// A lightweight index (newest first) answers lists and lookups without loading every record.
+const READING_KEY_PREFIX = '@tarotify_reading:';
+
+const getReadingKey = (id: string): string => `${READING_KEY_PREFIX}${id}`;
+
+// Every change to the history locks these; the index lock also guards the reading records
+const HISTORY_LOCK_KEYS = [
+  STORAGE_KEYS.READING_INDEX,
+  STORAGE_KEYS.DELETED_INDEX,
+  STORAGE_KEYS.PROFILE_SNAPSHOTS,
+];
+
+// Deleted readings keep their record and move to a second index until purged
+export const DELETED_RETENTION_DAYS = 30;
+
+interface ReadingIndexEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  createdAt: string; // ISO timestamp
+  type?: ReadingType;
+  subject?: ReadingSubject;
+  periodKey?: string; // Forecast period, e.g. "2026-W43"
+}
+
+interface DeletedIndexEntry extends ReadingIndexEntry {
+  deletedAt: string; // ISO timestamp
+}
+
+interface StoredClarifier extends Omit<ClarifierCard, 'card'> {
+  cardId: number;
+}
+
+interface StoredCardReading extends Omit<CardReading, 'card' | 'clarifiers'> {
+  cardId: number;
+  clarifiers?: StoredClarifier[];
+}
+
+// A reading as persisted: cards by id, profiles by snapshot key
+interface StoredReading extends Omit<DailyReading, 'cards' | 'userProfile' | 'partnerProfile'> {
+  cards: StoredCardReading[];
+  profileKey: string;
+  partnerProfileKey?: string;
+}
+
+// Profile snapshots shared by every reading drawn with the same birth details
+type ProfileSnapshots = Record<string, UserProfile>;
+
+export const getReadingType = (reading: DailyReading): ReadingType => reading.type ?? 'daily';
+
+export const getReadingSubject = (reading: DailyReading): ReadingSubject => reading.subject ?? 'self';
+
+// Short content hash, so identical snapshots share a key.
+// A different profile that collides with a stored snapshot takes the next free suffix.
+// Fields in a fixed order, so a snapshot read back from storage compares equal to its profile
+const serializeProfile = (profile: UserProfile | PartnerProfile): string => {
+  const { fullName, dateOfBirth, timeOfBirth, placeOfBirth, createdAt } = profile;
+  return JSON.stringify({ fullName, dateOfBirth, timeOfBirth, placeOfBirth, createdAt });
+};
+
+const getProfileKey = (profile: UserProfile | PartnerProfile, snapshots: ProfileSnapshots): string => {
+  const json = serializeProfile(profile);
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) {
+    hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  }
+  const baseKey = (hash >>> 0).toString(36);
+
+  for (let suffix = 0; ; suffix++) {
+    const key = suffix === 0 ? baseKey : `${baseKey}_${suffix}`;
+    const snapshot = snapshots[key];
+    if (!snapshot || serializeProfile(snapshot) === json) return key;
+  }
+};
+
+const getProfileSnapshots = async (
+  reader: StorageReader = directReader
+): Promise<ProfileSnapshots> => (await readValueWith(reader, 'PROFILE_SNAPSHOTS')) ?? {};
+
+const parseStoredClarifier = (value: unknown): StoredClarifier => {
+  const clarifier = requireObject(value, 'clarifier');
+  return { ...parseClarifierFields(clarifier), cardId: requireNumber(clarifier, 'cardId') };
+};
+
+const parseStoredCardReading = (value: unknown): StoredCardReading => {
+  const cardReading = requireObject(value, 'card');
+  return {
+    ...parseCardReadingFields(cardReading),
+    cardId: requireNumber(cardReading, 'cardId'),
+    clarifiers: Array.isArray(cardReading.clarifiers)
+      ? cardReading.clarifiers.map(parseStoredClarifier)
+      : undefined,
+  };
+};
+
+// Cards and profiles stay as references here; hydrateReading resolves them
+const parseStoredReading = (value: unknown): StoredReading => {
+  const reading = requireObject(value, 'reading');
+  return {
+    ...parseReadingFields(reading),
+    cards: requireArray(reading.cards, 'cards').map(parseStoredCardReading),
+    profileKey: requireString(reading, 'profileKey'),
+    partnerProfileKey: optionalString(reading.partnerProfileKey),
+    createdAt: parseCreatedAt(reading),
+  };
+};
+
+const storedReadingCodec = jsonCodec(parseStoredReading);
+
+// Readings with a missing or unreadable createdAt are placed by their date instead
+const getCreatedAtTimestamp = (reading: DailyReading): string => {
+  for (const value of [reading.createdAt, reading.date]) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+  return new Date(0).toISOString();
+};
+
+const toIndexEntry = (reading: DailyReading): ReadingIndexEntry => ({
+  id: reading.id,
+  date: reading.date,
+  createdAt: getCreatedAtTimestamp(reading),
+  type: reading.type,
+  subject: reading.subject,
+  periodKey: reading.period?.key,
+});
+
+// Adds the reading's profiles to the snapshots as a side effect
+const dehydrateReading = (reading: DailyReading, snapshots: ProfileSnapshots): StoredReading => {
+  const { cards, userProfile, partnerProfile, ...rest } = reading;
+  const profileKey = getProfileKey(userProfile, snapshots);
+  snapshots[profileKey] = userProfile;
+  const partnerProfileKey = partnerProfile ? getProfileKey(partnerProfile, snapshots) : undefined;
+  if (partnerProfile && partnerProfileKey) snapshots[partnerProfileKey] = partnerProfile;
+
+  return {
+    ...rest,
+    profileKey,
+    partnerProfileKey,
+    cards: cards.map(({ card, clarifiers, ...cardReading }) => ({
+      ...cardReading,
+      cardId: card.id,
+      clarifiers: clarifiers?.map(({ card: clarifierCard, ...clarifier }) => ({
+        ...clarifier,
+        cardId: clarifierCard.id,
+      })),
+    })),
+  };
+};
+
+// Null when the record points at a card or profile that no longer exists
+const hydrateReading = (stored: StoredReading, snapshots: ProfileSnapshots): DailyReading | null => {
+  const { cards, profileKey, partnerProfileKey, ...rest } = stored;
+  const userProfile = snapshots[profileKey];
+  if (!userProfile) return null;
+
+  const hydratedCards: CardReading[] = [];
+  for (const { cardId, clarifiers, ...cardReading } of cards) {
+    const card = getCardById(cardId);
+    if (!card) return null;
+    hydratedCards.push({
+      ...cardReading,
+      card,
+      clarifiers: clarifiers?.flatMap(({ cardId: clarifierCardId, ...clarifier }) => {
+        const clarifierCard = getCardById(clarifierCardId);
+        return clarifierCard ? [{ ...clarifier, card: clarifierCard }] : [];
+      }),
+    });
+  }
+
+  const partnerProfile = partnerProfileKey ? snapshots[partnerProfileKey] : undefined;
+  return {
+    ...rest,
+    cards: hydratedCards,
+    userProfile,
+    partnerProfile,
+  };
+};
+
+// Stage reading records together with the index, committed in the transaction's single batch
+const stageReadings = async (
+  transaction: StorageTransaction,
+  readings: DailyReading[],
+  index: ReadingIndexEntry[]
+): Promise<void> => {
+  const snapshots = await getProfileSnapshots(transaction);
+  for (const reading of readings) {
+    transaction.set(
+      getReadingKey(reading.id),
+      storedReadingCodec.serialize(dehydrateReading(reading, snapshots))
+    );
+  }
+  stageValue(transaction, 'PROFILE_SNAPSHOTS', snapshots);
+  stageValue(transaction, 'READING_INDEX', index);
+};
+
+const getReadingIndex = async (reader: StorageReader = directReader): Promise<ReadingIndexEntry[]> =>
+  (await readValueWith(reader, 'READING_INDEX')) ?? [];
+
+const getDeletedIndex = async (reader: StorageReader = directReader): Promise<DeletedIndexEntry[]> =>
+  (await readValueWith(reader, 'DELETED_INDEX')) ?? [];
+
+const decodeReading = async (
+  key: string,
+  value: string | null,
+  snapshots: ProfileSnapshots,
+  reader: StorageReader = directReader
+): Promise<DailyReading | null> => {
+  const stored = await decodeValue(key, value, storedReadingCodec, reader);
+  if (!stored) return null;
+  const reading = hydrateReading(stored, snapshots);
+  if (!reading) {
+    console.warn(`Skipping reading record ${key} that refers to a missing card or profile`);
+  }
+  return reading;
+};
+
+// Load records in the order given, skipping any that are missing or broken
+const loadReadings = async (ids: string[]): Promise<DailyReading[]> => {
+  if (ids.length === 0) return [];
+  const [pairs, snapshots] = await Promise.all([
+    AsyncStorage.multiGet(ids.map(getReadingKey)),
+    getProfileSnapshots(),
+  ]);
+  const readings: DailyReading[] = [];
+  for (const [key, value] of pairs) {
+    const reading = await decodeReading(key, value, snapshots);
+    if (reading) readings.push(reading);
+  }
+  return readings;
+};
+
+// Drop the snapshots no remaining record refers to, once records have been removed for good
+const pruneProfileSnapshots = async (transaction: StorageTransaction): Promise<void> => {
+  const [index, deletedIndex, snapshots] = await Promise.all([
+    getReadingIndex(transaction),
+    getDeletedIndex(transaction),
+    getProfileSnapshots(transaction),
+  ]);
+
+  const referenced = new Set<string>();
+  for (const { id } of [...index, ...deletedIndex]) {
+    const key = getReadingKey(id);
+    const stored = await decodeValue(key, await transaction.get(key), storedReadingCodec, transaction);
+    if (!stored) continue;
+    referenced.add(stored.profileKey);
+    if (stored.partnerProfileKey) referenced.add(stored.partnerProfileKey);
+  }
+
+  const unreferenced = Object.keys(snapshots).filter(key => !referenced.has(key));
+  if (unreferenced.length === 0) return;
+  unreferenced.forEach(key => delete snapshots[key]);
+  stageValue(transaction, 'PROFILE_SNAPSHOTS', snapshots);
+};
+
+const loadReadingInTransaction = async (
+  transaction: StorageTransaction,
+  id: string
+): Promise<DailyReading | null> => {
+  const key = getReadingKey(id);
+  return decodeReading(
+    key,
+    await transaction.get(key),
+    await getProfileSnapshots(transaction),
+    transaction
+  );
+};
+
+export const getReadingHistory = async (): Promise<DailyReading[]> => {
+  try {
+    const index = await getReadingIndex();
+    return await loadReadings(index.map(entry => entry.id));
   } catch (error) {
     console.error('Error getting reading history:', error);
     return [];
   }
 };
 
-export const saveToHistory = async (reading: DailyReading): Promise<void> => {
+// One page of the history, newest first, with the total number of readings
+export const getReadingHistoryPage = async (
+  offset: number,
+  limit: number
+): Promise<{ readings: DailyReading[]; total: number }> => {
   try {
-    const history = await getReadingHistory();
+    const index = await getReadingIndex();
+    const ids = index.slice(offset, offset + limit).map(entry => entry.id);
+    return { readings: await loadReadings(ids), total: index.length };
+  } catch (error) {
+    console.error('Error getting reading history page:', error);
+    return { readings: [], total: 0 };
+  }
+};
 
-    // Check if a reading for this date already exists
-    const existingIndex = history.findIndex(r => r.date === reading.date);
+export const getReadingById = async (id: string): Promise<DailyReading | null> => {
+  try {
+    const [reading] = await loadReadings([id]);
+    return reading ?? null;
+  } catch (error) {
+    console.error('Error getting reading:', error);
+    return null;
+  }
+};
 
-    if (existingIndex >= 0) {
-      // Update existing reading for this date
-      history[existingIndex] = reading;
-    } else {
-      // Prepend new reading (newest first)
-      history.unshift(reading);
-    }
+const stageHistoryEntry = async (
+  transaction: StorageTransaction,
+  reading: DailyReading
+): Promise<void> => {
+  // A deleted reading only comes back through restoreReading, never as a side effect of a save
+  const deletedIndex = await getDeletedIndex(transaction);
+  if (deletedIndex.some(e => e.id === reading.id)) {
+    throw new Error(`Reading ${reading.id} is in the recently deleted bin`);
+  }
+
+  const index = await getReadingIndex(transaction);
+
+  // Update the same reading, replace today's daily draw for the same person, or
+  // replace the forecast for the same period - other readings coexist per day
+  const type = getReadingType(reading);
+  const isDaily = type === 'daily';
+  const subject = getReadingSubject(reading);
+  const existing = index.find(entry =>
+    entry.id === reading.id ||
+    (isDaily &&
+      (entry.type ?? 'daily') === 'daily' &&
+      (entry.subject ?? 'self') === subject &&
+      entry.date === reading.date) ||
+    (reading.period !== undefined &&
+      entry.type === type &&
+      entry.periodKey === reading.period.key)
+  );
 
-    // Save updated history
-    await AsyncStorage.setItem(
-      STORAGE_KEYS.READING_HISTORY,
-      JSON.stringify(history)
+  const entry = toIndexEntry(reading);
+  const updatedIndex = existing
+    ? index.map(e => (e === existing ? entry : e)) // Update in place
+    : [entry, ...index]; // Prepend new reading (newest first)
+
+  await stageReadings(transaction, [reading], updatedIndex);
+  if (existing && existing.id !== reading.id) {
+    transaction.remove(getReadingKey(existing.id));
+  }
+};
+
+export const saveToHistory = async (reading: DailyReading): Promise<void> => {
+  try {
+    await runStorageTransaction(HISTORY_LOCK_KEYS, transaction =>
+      stageHistoryEntry(transaction, reading)
     );
   } catch (error) {
     console.error('Error saving to history:', error);
@@ -288,9 +831,417 @@ export const saveToHistory = async (reading: DailyReading): Promise<void> => {
   }
 };
 
+// Replace the whole history at once, e.g. after merging in a restored backup
+export const saveReadingHistory = async (history: DailyReading[]): Promise<void> => {
+  try {
+    await runStorageTransaction(HISTORY_LOCK_KEYS, async transaction => {
+      const previousIndex = await getReadingIndex(transaction);
+      const keptIds = new Set(history.map(reading => reading.id));
+
+      await stageReadings(transaction, history, history.map(toIndexEntry));
+      previousIndex
+        .filter(entry => !keptIds.has(entry.id))
+        .forEach(entry => transaction.remove(getReadingKey(entry.id)));
+
+      // Readings brought back this way leave the bin; the rest keep their own records
+      const deletedIndex = await getDeletedIndex(transaction);
+      stageValue(transaction, 'DELETED_INDEX', deletedIndex.filter(e => !keptIds.has(e.id)));
+      await pruneProfileSnapshots(transaction);
+    });
+  } catch (error) {
+    console.error('Error saving reading history:', error);
+    throw error;
+  }
+};
+
+// Copy what the seeker added after the draw (reflections, check-back answers, tags and moods)
+const copySeekerInput = (target: DailyReading, source: DailyReading): DailyReading => ({
+  ...target,
+  reflection: source.reflection,
+  checkBack: source.checkBack,
+  tags: source.tags,
+  moodBefore: source.moodBefore,
+  moodAfter: source.moodAfter,
+  cards: target.cards.map(cardReading => ({
+    ...cardReading,
+    reflection: source.cards.find(c => c.position === cardReading.position)?.reflection,
+  })),
+});
+
+// Today's daily and partner slots are kept in step with journal edits so the tarot tab sees them
+const syncReadingSlots = async (updatedReading: DailyReading): Promise<void> => {
+  const syncSlot = (current: DailyReading | null) =>
+    current?.id === updatedReading.id ? copySeekerInput(current, updatedReading) : null;
+  await updateStoredValue('DAILY_READING', syncSlot);
+  await updateStoredValue('PARTNER_DAILY_READING', syncSlot);
+};
+
+// Load, change and save one reading under the history lock, so parallel edits don't
+// overwrite each other; the update returns null to leave the reading unchanged
+const updateReading = async (
+  readingId: string,
+  update: (reading: DailyReading) => DailyReading | null
+): Promise<DailyReading | null> => {
+  const updatedReading = await runStorageTransaction(HISTORY_LOCK_KEYS, async transaction => {
+    const reading = await loadReadingInTransaction(transaction, readingId);
+    const updated = reading && update(reading);
+    if (updated) await stageHistoryEntry(transaction, updated);
+    return updated;
+  });
+  if (updatedReading) await syncReadingSlots(updatedReading);
+  return updatedReading;
+};
+
+// Attach the seeker's reflection to a reading, or to one of its cards when a position is given
+export const saveReflection = async (
+  readingId: string,
+  reflection: Reflection | undefined,
+  position?: string
+): Promise<DailyReading | null> => {
+  try {
+    return await updateReading(readingId, reading =>
+      position
+        ? {
+            ...reading,
+            cards: reading.cards.map(cardReading =>
+              cardReading.position === position ? { ...cardReading, reflection } : cardReading
+            ),
+          }
+        : { ...reading, reflection }
+    );
+  } catch (error) {
+    console.error('Error saving reflection:', error);
+    throw error;
+  }
+};
+
+// Record whether a reading's future card played out
+export const saveCheckBackOutcome = async (
+  readingId: string,
+  outcome: Resonance
+): Promise<DailyReading | null> => {
+  try {
+    return await updateReading(readingId, reading =>
+      reading.checkBack
+        ? {
+            ...reading,
+            checkBack: { ...reading.checkBack, outcome, answeredAt: new Date().toISOString() },
+          }
+        : null
+    );
+  } catch (error) {
+    console.error('Error saving check-back outcome:', error);
+    throw error;
+  }
+};
+
+// Keep the id of a check-back's scheduled reminder so it can be cancelled later
+export const saveCheckBackNotification = async (
+  readingId: string,
+  notificationId: string
+): Promise<DailyReading | null> => {
+  try {
+    return await updateReading(readingId, reading =>
+      reading.checkBack && !reading.checkBack.outcome
+        ? { ...reading, checkBack: { ...reading.checkBack, notificationId } }
+        : null
+    );
+  } catch (error) {
+    console.error('Error saving check-back notification:', error);
+    throw error;
+  }
+};
+
+// Set the seeker's tags on a reading, trimmed and without repeats
+export const saveReadingTags = async (
+  readingId: string,
+  tags: string[]
+): Promise<DailyReading | null> => {
+  const uniqueTags: string[] = [];
+  for (const tag of tags.map(t => t.trim()).filter(Boolean)) {
+    if (!uniqueTags.some(t => t.toLowerCase() === tag.toLowerCase())) uniqueTags.push(tag);
+  }
+
+  try {
+    return await updateReading(readingId, reading => ({
+      ...reading,
+      tags: uniqueTags.length > 0 ? uniqueTags : undefined,
+    }));
+  } catch (error) {
+    console.error('Error saving reading tags:', error);
+    throw error;
+  }
+};
+
+// Record how the seeker felt before or after a reading
+export const saveMoodCheckIn = async (
+  readingId: string,
+  moment: 'before' | 'after',
+  checkIn: MoodCheckIn | undefined
+): Promise<DailyReading | null> => {
+  try {
+    return await updateReading(readingId, reading =>
+      moment === 'before' ? { ...reading, moodBefore: checkIn } : { ...reading, moodAfter: checkIn }
+    );
+  } catch (error) {
+    console.error('Error saving mood check-in:', error);
+    throw error;
+  }
+};
+
+// The tarot tab's slot that holds a daily reading on its day, for whoever it was drawn for
+const getReadingSlot = (entry: ReadingIndexEntry): 'DAILY_READING' | 'PARTNER_DAILY_READING' | null => {
+  if ((entry.type ?? 'daily') !== 'daily') return null;
+  return entry.subject === 'partner' ? 'PARTNER_DAILY_READING' : 'DAILY_READING';
+};
+
+// Deleting and restoring also clear and refill that slot, so the tab never shows a deleted reading
+const DELETE_LOCK_KEYS = [
+  ...HISTORY_LOCK_KEYS,
+  STORAGE_KEYS.DAILY_READING,
+  STORAGE_KEYS.PARTNER_DAILY_READING,
+];
+
+// Move a reading to the recently deleted bin; its record stays until the bin is purged
+export const deleteReading = async (readingId: string): Promise<void> => {
+  try {
+    await runStorageTransaction(DELETE_LOCK_KEYS, async transaction => {
+      const index = await getReadingIndex(transaction);
+      const entry = index.find(e => e.id === readingId);
+      if (!entry) return;
+
+      const slot = getReadingSlot(entry);
+      if (slot && (await readValueWith(transaction, slot))?.id === readingId) {
+        transaction.remove(STORAGE_KEYS[slot]);
+      }
+
+      const deletedIndex = await getDeletedIndex(transaction);
+      stageValue(transaction, 'READING_INDEX', index.filter(e => e !== entry));
+      stageValue(transaction, 'DELETED_INDEX', [
+        { ...entry, deletedAt: new Date().toISOString() },
+        ...deletedIndex,
+      ]);
+    });
+  } catch (error) {
+    console.error('Error deleting reading:', error);
+    throw error;
+  }
+};
+
+// Put a deleted reading back in its place in the journal
+export const restoreReading = async (readingId: string): Promise<void> => {
+  try {
+    await runStorageTransaction(DELETE_LOCK_KEYS, async transaction => {
+      const deletedIndex = await getDeletedIndex(transaction);
+      const deleted = deletedIndex.find(e => e.id === readingId);
+      if (!deleted) return;
+
+      const { deletedAt, ...entry } = deleted;
+      const index = await getReadingIndex(transaction);
+      const position = index.findIndex(e => e.createdAt < entry.createdAt); // Newest first
+      stageValue(
+        transaction,
+        'READING_INDEX',
+        position === -1 ? [...index, entry] : [...index.slice(0, position), entry, ...index.slice(position)]
+      );
+      stageValue(transaction, 'DELETED_INDEX', deletedIndex.filter(e => e !== deleted));
+
+      // Today's reading goes back on the tarot tab unless another has been drawn since
+      const slot = getReadingSlot(entry);
+      if (slot && entry.date === getTodayDateString() && !(await readValueWith(transaction, slot))) {
+        const reading = await loadReadingInTransaction(transaction, readingId);
+        if (reading) stageValue(transaction, slot, reading);
+      }
+    });
+  } catch (error) {
+    console.error('Error restoring reading:', error);
+    throw error;
+  }
+};
+
+// Remove matching readings from the bin along with their records
+const purgeDeletedReadings = (shouldPurge: (entry: DeletedIndexEntry) => boolean): Promise<void> =>
+  runStorageTransaction(HISTORY_LOCK_KEYS, async transaction => {
+    const deletedIndex = await getDeletedIndex(transaction);
+    const purged = deletedIndex.filter(shouldPurge);
+    if (purged.length === 0) return;
+
+    purged.forEach(entry => transaction.remove(getReadingKey(entry.id)));
+    stageValue(transaction, 'DELETED_INDEX', deletedIndex.filter(e => !purged.includes(e)));
+    await pruneProfileSnapshots(transaction);
+  });
+
+export const purgeExpiredDeletedReadings = async (): Promise<void> => {
+  try {
+    const cutoff = Date.now() - DELETED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    await purgeDeletedReadings(entry => new Date(entry.deletedAt).getTime() < cutoff);
+  } catch (error) {
+    console.error('Error purging deleted readings:', error);
+  }
+};
+
+export const deleteReadingPermanently = async (readingId: string): Promise<void> => {
+  try {
+    await purgeDeletedReadings(entry => entry.id === readingId);
+  } catch (error) {
+    console.error('Error permanently deleting reading:', error);
+    throw error;
+  }
+};
+
+export const emptyDeletedReadings = async (): Promise<void> => {
+  try {
+    await purgeDeletedReadings(() => true);
+  } catch (error) {
+    console.error('Error emptying deleted readings:', error);
+    throw error;
+  }
+};
+
+// The recently deleted bin, most recently deleted first
+export const getDeletedReadings = async (): Promise<DeletedReading[]> => {
+  try {
+    await purgeExpiredDeletedReadings();
+    const deletedIndex = await getDeletedIndex();
+    const readings = await loadReadings(deletedIndex.map(entry => entry.id));
+    return deletedIndex.flatMap(entry => {
+      const reading = readings.find(r => r.id === entry.id);
+      return reading ? [{ reading, deletedAt: entry.deletedAt }] : [];
+    });
+  } catch (error) {
+    console.error('Error getting deleted readings:', error);
+    return [];
+  }
+};
+
+// The forecast already drawn for a period, if any
+export const getForecastReading = async (
+  type: ForecastType,
+  periodKey: string
+): Promise<DailyReading | null> => {
+  try {
+    const index = await getReadingIndex();
+    const entry = index.find(e => e.type === type && e.periodKey === periodKey);
+    return entry ? await getReadingById(entry.id) : null;
+  } catch (error) {
+    console.error('Error getting forecast reading:', error);
+    return null;
+  }
+};
+
+// Oracle Chat Storage
+// Each thread is its own record; the index (most recently active first) feeds the thread list
+const CHAT_THREAD_KEY_PREFIX = '@tarotify_chat_thread:';
+
+const getChatThreadKey = (id: string): string => `${CHAT_THREAD_KEY_PREFIX}${id}`;
+
+const CHAT_PREVIEW_LENGTH = 80;
+
+const chatThreadCodec = jsonCodec(parseChatThread);
+
+const toThreadSummary = (thread: ChatThread): ChatThreadSummary => {
+  const { messages, suggestions, ...rest } = thread;
+  const latest = messages[messages.length - 1];
+  return {
+    ...rest,
+    messageCount: messages.length,
+    preview: latest?.text.slice(0, CHAT_PREVIEW_LENGTH),
+  };
+};
+
+const getChatThreadIndex = async (
+  reader: StorageReader = directReader
+): Promise<ChatThreadSummary[]> => (await readValueWith(reader, 'CHAT_THREAD_INDEX')) ?? [];
+
+const loadChatThread = async (reader: StorageReader, id: string): Promise<ChatThread | null> => {
+  const key = getChatThreadKey(id);
+  return decodeValue(key, await reader.get(key), chatThreadCodec, reader);
+};
+
+export const getChatThreads = async (): Promise<ChatThreadSummary[]> => {
+  try {
+    return await getChatThreadIndex();
+  } catch (error) {
+    console.error('Error getting chat threads:', error);
+    return [];
+  }
+};
+
+export const getChatThread = async (id: string): Promise<ChatThread | null> => {
+  try {
+    return await loadChatThread(directReader, id);
+  } catch (error) {
+    console.error('Error getting chat thread:', error);
+    return null;
+  }
+};
+
+// Save a thread and move it to the top of the list
+export const saveChatThread = async (thread: ChatThread): Promise<void> => {
+  try {
+    await runStorageTransaction([STORAGE_KEYS.CHAT_THREAD_INDEX], async transaction => {
+      const index = await getChatThreadIndex(transaction);
+      transaction.set(getChatThreadKey(thread.id), chatThreadCodec.serialize(thread));
+      stageValue(transaction, 'CHAT_THREAD_INDEX', [
+        toThreadSummary(thread),
+        ...index.filter(entry => entry.id !== thread.id),
+      ]);
+    });
+  } catch (error) {
+    console.error('Error saving chat thread:', error);
+    throw error;
+  }
+};
+
+// Renaming keeps the thread where it is in the list
+export const renameChatThread = async (id: string, title: string): Promise<ChatThread | null> => {
+  try {
+    return await runStorageTransaction([STORAGE_KEYS.CHAT_THREAD_INDEX], async transaction => {
+      const thread = await loadChatThread(transaction, id);
+      if (!thread) return null;
+
+      const updated = { ...thread, title: title.trim() || thread.title };
+      const index = await getChatThreadIndex(transaction);
+      transaction.set(getChatThreadKey(id), chatThreadCodec.serialize(updated));
+      stageValue(
+        transaction,
+        'CHAT_THREAD_INDEX',
+        index.map(entry => (entry.id === id ? toThreadSummary(updated) : entry))
+      );
+      return updated;
+    });
+  } catch (error) {
+    console.error('Error renaming chat thread:', error);
+    throw error;
+  }
+};
+
+export const deleteChatThread = async (id: string): Promise<void> => {
+  try {
+    await runStorageTransaction([STORAGE_KEYS.CHAT_THREAD_INDEX], async transaction => {
+      const index = await getChatThreadIndex(transaction);
+      transaction.remove(getChatThreadKey(id));
+      stageValue(transaction, 'CHAT_THREAD_INDEX', index.filter(entry => entry.id !== id));
+    });
+  } catch (error) {
+    console.error('Error deleting chat thread:', error);
+    throw error;
+  }
+};
+
+// Every stored key under a prefix, e.g. all reading records whether or not the index knows them
+const getKeysWithPrefix = async (prefix: string): Promise<string[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(key => key.startsWith(prefix));
+};
+
 export const clearReadingHistory = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEYS.READING_HISTORY);
+    await runStorageTransaction(HISTORY_LOCK_KEYS, async transaction => {
+      [...HISTORY_LOCK_KEYS, ...(await getKeysWithPrefix(READING_KEY_PREFIX))].forEach(
+        transaction.remove
+      );
+    });
   } catch (error) {
     console.error('Error clearing reading history:', error);
     throw error;
@@ -300,7 +1251,15 @@ export const clearReadingHistory = async (): Promise<void> => {
 // Clear all data (for testing/reset)
 export const clearAllData = async (): Promise<void> => {
   try {
-    await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
+    const keys = Object.values(STORAGE_KEYS);
+    await runStorageTransaction(keys, async transaction => {
+      [
+        ...keys,
+        ...(await getKeysWithPrefix(READING_KEY_PREFIX)),
+        ...(await getKeysWithPrefix(CHAT_THREAD_KEY_PREFIX)),
+        ...(await getKeysWithPrefix(UNREADABLE_KEY_PREFIX)),
+      ].forEach(transaction.remove);
+    });
   } catch (error) {
     console.error('Error clearing all data:', error);
     throw error;
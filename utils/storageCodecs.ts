@@ -0,0 +1,397 @@
+// Storage Codecs - How each stored value is written to and read back from AsyncStorage
+import { getCardById, yesNoLabels } from '@/data/tarotDeck';
+import { MOOD_OPTIONS, RESONANCE_OPTIONS } from '@/utils/reflections';
+import { FEELING_OPTIONS, MOOD_SCALE } from '@/utils/moodTracking';
+import { FORECAST_LABELS } from '@/utils/forecast';
+import {
+  CardReading,
+  ChatMessage,
+  ChatThread,
+  ChatThreadSummary,
+  CheckBack,
+  ClarifierCard,
+  CompatibilityAnalysis,
+  DailyReading,
+  Feeling,
+  ForecastPeriod,
+  MoodCheckIn,
+  PartnerProfile,
+  ReadingSubject,
+  ReadingType,
+  Reflection,
+  ReversalMode,
+  ReversalPreference,
+  RitualDraw,
+  ShuffleAudit,
+  StoredCardImage,
+  TarotCard,
+  UserProfile,
+  YesNoAnswer,
+} from '@/types';
+
+export interface StorageCodec<T> {
+  serialize: (value: T) => string;
+  // Throws when the stored text is not a valid value of this type
+  deserialize: (raw: string) => T;
+}
+
+// Thrown by a record check to report why a record was rejected
+export class RecordError extends Error {}
+
+export const READING_TYPES: ReadingType[] = [
+  'daily',
+  'question',
+  'yes-no',
+  ...(Object.keys(FORECAST_LABELS) as ReadingType[]),
+];
+export const READING_SUBJECTS: ReadingSubject[] = ['self', 'partner'];
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const requireObject = (value: unknown, what: string): JsonObject => {
+  if (!isObject(value)) throw new RecordError(`invalid ${what}`);
+  return value;
+};
+
+export const requireArray = (value: unknown, what: string): unknown[] => {
+  if (!Array.isArray(value)) throw new RecordError(`invalid ${what}`);
+  return value;
+};
+
+export const requireString = (record: JsonObject, field: string): string => {
+  const value = record[field];
+  if (!isString(value)) throw new RecordError(`missing ${field}`);
+  return value;
+};
+
+// Dates are stored as ISO strings by JSON.stringify
+export const requireDate = (record: JsonObject, field: string): Date => {
+  const value = record[field];
+  const date = isString(value) || isNumber(value) ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) throw new RecordError(`invalid ${field}`);
+  return date;
+};
+
+export const requireNumber = (record: JsonObject, field: string): number => {
+  const value = record[field];
+  if (!isNumber(value)) throw new RecordError(`invalid ${field}`);
+  return value;
+};
+
+export const requireList = <T>(
+  record: JsonObject,
+  field: string,
+  isItem: (item: unknown) => item is T
+): T[] => {
+  const value = record[field];
+  if (!Array.isArray(value) || !value.every(isItem)) throw new RecordError(`invalid ${field}`);
+  return value;
+};
+
+export const requireOption = <T>(record: JsonObject, field: string, options: readonly T[]): T => {
+  const value = record[field];
+  if (!options.includes(value as T)) throw new RecordError(`invalid ${field}`);
+  return value as T;
+};
+
+export const optionalString = (value: unknown): string | undefined => (isString(value) ? value : undefined);
+
+export const optionalOption = <T>(value: unknown, options: readonly T[]): T | undefined =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+// Optional fields that fail their check are dropped so the rest of the record still loads
+export const parseOptionalField = <T>(value: unknown, parse: (value: unknown) => T): T | undefined => {
+  if (value === null || value === undefined) return undefined;
+  try {
+    return parse(value);
+  } catch (error) {
+    if (!(error instanceof RecordError)) throw error;
+    return undefined;
+  }
+};
+
+// Cards are taken from the deck by id so stored card data can never drift from it
+export const requireCardById = (id: unknown): TarotCard => {
+  const card = isNumber(id) ? getCardById(id) : undefined;
+  if (!card) throw new RecordError(`unknown card ${String(id)}`);
+  return card;
+};
+
+const parseCard = (value: unknown): TarotCard => requireCardById(isObject(value) ? value.id : undefined);
+
+export const parseProfile = (value: unknown): UserProfile | PartnerProfile => {
+  if (!isObject(value)) throw new RecordError('missing profile');
+  return {
+    fullName: requireString(value, 'fullName'),
+    dateOfBirth: requireDate(value, 'dateOfBirth'),
+    timeOfBirth: requireString(value, 'timeOfBirth'),
+    placeOfBirth: requireString(value, 'placeOfBirth'),
+    createdAt: requireDate(value, 'createdAt'),
+  };
+};
+
+export const parseReflection = (value: unknown): Reflection => {
+  const reflection = requireObject(value, 'reflection');
+  return {
+    note: requireString(reflection, 'note'),
+    mood: optionalOption(reflection.mood, MOOD_OPTIONS.map(option => option.value)),
+    resonance: optionalOption(reflection.resonance, RESONANCE_OPTIONS.map(option => option.value)),
+    updatedAt: requireString(reflection, 'updatedAt'),
+  };
+};
+
+const FEELINGS: Feeling[] = FEELING_OPTIONS.map(option => option.id);
+
+const isFeeling = (value: unknown): value is Feeling => FEELINGS.includes(value as Feeling);
+
+export const parseMoodCheckIn = (value: unknown): MoodCheckIn => {
+  const checkIn = requireObject(value, 'mood check-in');
+  return {
+    score: requireOption(checkIn, 'score', MOOD_SCALE.map(entry => entry.score)),
+    feelings: Array.isArray(checkIn.feelings) ? checkIn.feelings.filter(isFeeling) : undefined,
+    recordedAt: requireString(checkIn, 'recordedAt'),
+  };
+};
+
+const parseCheckBack = (value: unknown): CheckBack => {
+  const checkBack = requireObject(value, 'check-back');
+  return {
+    position: requireString(checkBack, 'position'),
+    dueDate: requireString(checkBack, 'dueDate'),
+    notificationId: optionalString(checkBack.notificationId),
+    outcome: optionalOption(checkBack.outcome, RESONANCE_OPTIONS.map(option => option.value)),
+    answeredAt: optionalString(checkBack.answeredAt),
+  };
+};
+
+const parsePeriod = (value: unknown): ForecastPeriod => {
+  const period = requireObject(value, 'period');
+  return {
+    key: requireString(period, 'key'),
+    start: requireString(period, 'start'),
+    end: requireString(period, 'end'),
+  };
+};
+
+const parseRitual = (value: unknown): RitualDraw => {
+  const ritual = requireObject(value, 'ritual');
+  return { cut: requireNumber(ritual, 'cut'), picks: requireList(ritual, 'picks', isNumber) };
+};
+
+const parseShuffle = (value: unknown): ShuffleAudit => {
+  const shuffle = requireObject(value, 'shuffle');
+  const audit = {
+    reversalProbability: requireNumber(shuffle, 'reversalProbability'),
+    deckOrder: requireList(shuffle, 'deckOrder', isNumber),
+    ritual: parseOptionalField(shuffle.ritual, parseRitual),
+  };
+
+  if (shuffle.algorithm === 'fisher-yates-mulberry32') {
+    return { ...audit, algorithm: shuffle.algorithm, seed: requireNumber(shuffle, 'seed') };
+  }
+  if (shuffle.algorithm === 'fisher-yates-secure') {
+    return { ...audit, algorithm: shuffle.algorithm, reversals: requireList(shuffle, 'reversals', isBoolean) };
+  }
+  throw new RecordError('unknown shuffle algorithm');
+};
+
+// A clarifier without its card, which is stored whole or by id depending on the record
+export const parseClarifierFields = (clarifier: JsonObject): Omit<ClarifierCard, 'card'> => ({
+  isReversed: clarifier.isReversed === true,
+  interpretation: requireString(clarifier, 'interpretation'),
+});
+
+const parseClarifier = (value: unknown): ClarifierCard => {
+  const clarifier = requireObject(value, 'clarifier');
+  return { ...parseClarifierFields(clarifier), card: parseCard(clarifier.card) };
+};
+
+// A card reading without its card or clarifiers. Only known fields are copied,
+// so a malformed extra cannot reach the screens.
+export const parseCardReadingFields = (
+  cardReading: JsonObject
+): Omit<CardReading, 'card' | 'clarifiers'> => ({
+  position: requireString(cardReading, 'position'),
+  isReversed: cardReading.isReversed === true,
+  isRevealed: cardReading.isRevealed !== false,
+  shortDescription: requireString(cardReading, 'shortDescription'),
+  imageUrl: optionalString(cardReading.imageUrl),
+  reflection: parseOptionalField(cardReading.reflection, parseReflection),
+});
+
+const parseCardReading = (value: unknown): CardReading => {
+  const cardReading = requireObject(value, 'card');
+  return {
+    ...parseCardReadingFields(cardReading),
+    card: parseCard(cardReading.card),
+    clarifiers: Array.isArray(cardReading.clarifiers)
+      ? cardReading.clarifiers.map(parseClarifier)
+      : undefined,
+  };
+};
+
+// A reading's own fields, without the cards and profiles a stored record keeps by reference.
+// Required fields are checked; optional ones are kept only when well formed.
+export const parseReadingFields = (
+  reading: JsonObject
+): Omit<DailyReading, 'cards' | 'userProfile' | 'partnerProfile' | 'createdAt'> => {
+  const date = requireString(reading, 'date');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new RecordError('invalid date');
+  if (!Array.isArray(reading.cards) || reading.cards.length === 0) throw new RecordError('no cards');
+
+  return {
+    id: requireString(reading, 'id'),
+    type: optionalOption(reading.type, READING_TYPES),
+    date,
+    question: optionalString(reading.question),
+    verdict: optionalOption(reading.verdict, Object.keys(yesNoLabels) as YesNoAnswer[]),
+    period: parseOptionalField(reading.period, parsePeriod),
+    subject: optionalOption(reading.subject, READING_SUBJECTS),
+    spreadId: optionalString(reading.spreadId),
+    mainExplanation: requireString(reading, 'mainExplanation'),
+    shuffle: parseOptionalField(reading.shuffle, parseShuffle),
+    reflection: parseOptionalField(reading.reflection, parseReflection),
+    checkBack: parseOptionalField(reading.checkBack, parseCheckBack),
+    tags: Array.isArray(reading.tags) ? reading.tags.filter(isString) : undefined,
+    moodBefore: parseOptionalField(reading.moodBefore, parseMoodCheckIn),
+    moodAfter: parseOptionalField(reading.moodAfter, parseMoodCheckIn),
+  };
+};
+
+// Readings with a missing or unreadable createdAt are dated by their reading date instead
+export const parseCreatedAt = (reading: JsonObject): Date => {
+  for (const field of ['createdAt', 'date']) {
+    try {
+      return requireDate(reading, field);
+    } catch (error) {
+      if (!(error instanceof RecordError)) throw error;
+    }
+  }
+  return new Date(0);
+};
+
+export const parseReading = (value: unknown): DailyReading => {
+  if (!isObject(value)) throw new RecordError('not an object');
+  return {
+    ...parseReadingFields(value),
+    cards: requireArray(value.cards, 'cards').map(parseCardReading),
+    userProfile: parseProfile(value.userProfile),
+    partnerProfile: value.partnerProfile ? parseProfile(value.partnerProfile) : undefined,
+    createdAt: parseCreatedAt(value),
+  };
+};
+
+const parseStoredImage = (value: unknown): StoredCardImage => {
+  const image = requireObject(value, 'stored image');
+  return {
+    cardId: requireNumber(image, 'cardId'),
+    localUri: requireString(image, 'localUri'),
+    generatedAt: requireDate(image, 'generatedAt'),
+  };
+};
+
+export const parseCompatibilityAnalysis = (value: unknown): CompatibilityAnalysis => {
+  const analysis = requireObject(value, 'compatibility analysis');
+  return {
+    pairKey: requireString(analysis, 'pairKey'),
+    narrative: requireString(analysis, 'narrative'),
+    createdAt: requireDate(analysis, 'createdAt'),
+  };
+};
+
+const REVERSAL_MODES: ReversalMode[] = ['off', 'classic', 'custom'];
+
+const parseReversalPreference = (value: unknown): ReversalPreference => {
+  const preference = requireObject(value, 'reversal preference');
+  return {
+    mode: requireOption(preference, 'mode', REVERSAL_MODES),
+    customProbability: requireNumber(preference, 'customProbability'),
+  };
+};
+
+const parseChatMessage = (value: unknown): ChatMessage => {
+  const message = requireObject(value, 'message');
+  if (!isBoolean(message.isUser)) throw new RecordError('invalid isUser');
+  return {
+    id: requireString(message, 'id'),
+    text: requireString(message, 'text'),
+    isUser: message.isUser,
+    timestamp: requireString(message, 'timestamp'),
+  };
+};
+
+// The fields a thread and its summary in the index share
+const parseChatThreadFields = (
+  thread: JsonObject
+): Omit<ChatThread, 'messages' | 'suggestions'> => ({
+  id: requireString(thread, 'id'),
+  title: requireString(thread, 'title'),
+  readingId: optionalString(thread.readingId),
+  createdAt: requireString(thread, 'createdAt'),
+  updatedAt: requireString(thread, 'updatedAt'),
+});
+
+export const parseChatThread = (value: unknown): ChatThread => {
+  const thread = requireObject(value, 'chat thread');
+  return {
+    ...parseChatThreadFields(thread),
+    messages: requireArray(thread.messages, 'messages').map(parseChatMessage),
+    suggestions: Array.isArray(thread.suggestions) ? thread.suggestions.filter(isString) : [],
+  };
+};
+
+export const parseChatThreadSummary = (value: unknown): ChatThreadSummary => {
+  const summary = requireObject(value, 'chat thread summary');
+  return {
+    ...parseChatThreadFields(summary),
+    messageCount: requireNumber(summary, 'messageCount'),
+    preview: optionalString(summary.preview),
+  };
+};
+
+// JSON checked and revived into the stored type
+export const jsonCodec = <T>(parse: (value: unknown) => T): StorageCodec<T> => ({
+  serialize: value => JSON.stringify(value),
+  deserialize: raw => parse(JSON.parse(raw)),
+});
+
+export const arrayCodec = <T>(parse: (value: unknown) => T): StorageCodec<T[]> =>
+  jsonCodec(value => requireArray(value, 'list').map(parse));
+
+// Keyed records, each checked by the same parser
+export const recordCodec = <T>(parse: (value: unknown) => T): StorageCodec<Record<string, T>> =>
+  jsonCodec(value =>
+    Object.fromEntries(Object.entries(requireObject(value, 'record')).map(([key, entry]) => [key, parse(entry)]))
+  );
+
+// Plain text stored as-is, e.g. a file URI or generated prose
+export const textCodec: StorageCodec<string> = {
+  serialize: value => value,
+  deserialize: raw => raw,
+};
+
+export const booleanCodec = jsonCodec(value => {
+  if (!isBoolean(value)) throw new RecordError('expected a boolean');
+  return value;
+});
+
+export const numberCodec = jsonCodec(value => {
+  if (!isNumber(value)) throw new RecordError('expected a number');
+  return value;
+});
+
+export const profileCodec = jsonCodec(parseProfile);
+export const partnerProfileCodec = jsonCodec(parseProfile);
+export const readingCodec = jsonCodec(parseReading);
+export const storedImagesCodec = arrayCodec(parseStoredImage);
+export const compatibilityAnalysisCodec = jsonCodec(parseCompatibilityAnalysis);
+export const reversalPreferenceCodec = jsonCodec(parseReversalPreference);
+export const feelingsCodec = jsonCodec(value => requireArray(value, 'feelings').filter(isFeeling));
@@ -0,0 +1,100 @@
+// Storage Migrations - Ordered steps that bring stored data up to the current schema
+import {
+  getDailyReading,
+  getReadingHistory,
+  readStoredValue,
+  removeStoredValue,
+  saveReadingHistory,
+  setAsideStoredValue,
+  writeStoredValue,
+} from '@/utils/storage';
+import { parseReading } from '@/utils/storageCodecs';
+import { DailyReading } from '@/types';
+
+interface StorageMigration {
+  version: number; // Schema version the data is at once this step has run
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// Append new steps at the end; never reorder or edit a step that has shipped
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Start the reading history from the saved daily reading',
+    migrate: async () => {
+      // Installs from before the history existed only kept today's reading
+      const [history, index] = await Promise.all([
+        readStoredValue('LEGACY_READING_HISTORY'),
+        readStoredValue('READING_INDEX'),
+      ]);
+      if (index !== null || (history && history.length > 0)) return;
+
+      const dailyReading = await getDailyReading();
+      if (dailyReading) {
+        await writeStoredValue('LEGACY_READING_HISTORY', [dailyReading]);
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Split the reading history into per-reading records',
+    migrate: async () => {
+      const legacyHistory = await readStoredValue('LEGACY_READING_HISTORY');
+      if (legacyHistory === null) return;
+
+      // Entries are revived one by one, so a corrupt reading is set aside without the rest
+      const legacyReadings: DailyReading[] = [];
+      const unreadable: unknown[] = [];
+      for (const entry of legacyHistory) {
+        try {
+          legacyReadings.push(parseReading(entry));
+        } catch (error) {
+          console.warn('Setting aside unreadable legacy reading:', error);
+          unreadable.push(entry);
+        }
+      }
+      if (unreadable.length > 0) {
+        await setAsideStoredValue('LEGACY_READING_HISTORY', JSON.stringify(unreadable));
+      }
+
+      // Keep anything already stored as records, e.g. from an interrupted earlier run
+      const existing = await getReadingHistory();
+      const existingIds = new Set(existing.map(reading => reading.id));
+      await saveReadingHistory([
+        ...existing,
+        ...legacyReadings.filter(reading => !existingIds.has(reading.id)),
+      ]);
+      await removeStoredValue('LEGACY_READING_HISTORY');
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every step newer than the stored schema version, stopping at the first failure
+// so the remaining steps are retried on the next launch
+export const runStorageMigrations = async (): Promise<void> => {
+  let storedVersion: number;
+  try {
+    storedVersion = (await readStoredValue('SCHEMA_VERSION')) ?? 0;
+  } catch (error) {
+    console.error('Error reading storage schema version:', error);
+    return;
+  }
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Stored data is at schema ${storedVersion}, newer than this app understands`);
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+    try {
+      await migration.migrate();
+      await writeStoredValue('SCHEMA_VERSION', migration.version);
+    } catch (error) {
+      console.error(`Error running storage migration ${migration.version} (${migration.description}):`, error);
+      return;
+    }
+  }
+};
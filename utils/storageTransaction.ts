@@ -0,0 +1,69 @@
+// Storage Transactions - Serialize read-modify-write cycles so concurrent updates can't clobber each other
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface StorageTransaction {
+  // Reads see this transaction's own pending writes
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => void;
+  remove: (key: string) => void;
+}
+
+// The last queued task for each locked key
+const keyQueues = new Map<string, Promise<void>>();
+
+// Run a task once every earlier task holding any of the same keys has finished.
+// All keys are claimed at once, so tasks never wait on each other in a cycle.
+const withKeyLocks = async <T>(keys: string[], task: () => Promise<T>): Promise<T> => {
+  const uniqueKeys = [...new Set(keys)];
+  const previous = uniqueKeys.map(key => keyQueues.get(key));
+
+  let release = () => {};
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  uniqueKeys.forEach(key => keyQueues.set(key, done));
+
+  try {
+    await Promise.all(previous);
+    return await task();
+  } finally {
+    release();
+    uniqueKeys.forEach(key => {
+      if (keyQueues.get(key) === done) keyQueues.delete(key);
+    });
+  }
+};
+
+// Lock the given keys, let the body read and stage writes, then commit the writes in one batch.
+// Nothing is written if the body throws. A transaction must not start another on the same keys.
+export const runStorageTransaction = <T>(
+  keys: string[],
+  body: (transaction: StorageTransaction) => Promise<T>
+): Promise<T> =>
+  withKeyLocks(keys, async () => {
+    const writes = new Map<string, string | null>(); // null marks a removal
+
+    const result = await body({
+      get: async key => (writes.has(key) ? writes.get(key) ?? null : AsyncStorage.getItem(key)),
+      set: (key, value) => {
+        writes.set(key, value);
+      },
+      remove: key => {
+        writes.set(key, null);
+      },
+    });
+
+    const sets: [string, string][] = [];
+    const removals: string[] = [];
+    writes.forEach((value, key) => {
+      if (value === null) {
+        removals.push(key);
+      } else {
+        sets.push([key, value]);
+      }
+    });
+    if (sets.length > 0) await AsyncStorage.multiSet(sets);
+    if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+
+    return result;
+  });